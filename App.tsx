@@ -1,16 +1,35 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Home } from './components/Home';
 import { Scanning } from './components/Scanning';
+import { ScanFailed } from './components/ScanFailed';
 import { Results } from './components/Results';
+import { ReceiptView } from './components/ReceiptView';
 import { History } from './components/History';
 import { Profile } from './components/Profile';
 import { Auth } from './components/Auth';
 import { BottomNav } from './components/BottomNav';
-import { Screen, Language, Dish, SavedItem, ScanType } from './types';
-import { MOCK_SAVED } from './constants';
+import { Screen, Language, Dish, SavedItem, ScanType, ScanSession, HistoryTab, ScanErrorKind, DishMessage, Order, Receipt } from './types';
+import { DEFAULT_HOME_CURRENCY, MOCK_SAVED } from './constants';
 import { supabase } from './lib/supabase';
-
+import { migrateProfileAllergens } from './lib/allergens';
+import { uploadScanImage, deleteScanImages, getScanImagePath, signScanImages, toStoredImage } from './lib/storage';
+import { hasValidationChanges, ReceiptRecognitionResult, RecognizedReceipt, ScanError, ValidationReport } from './lib/recognition';
+import { cropImage, CropRect } from './lib/image';
+import { hasTranslation, translateDishes, withTranslation } from './lib/translation';
+import { askAboutDish } from './lib/dishChat';
+import { deleteLocalConversations, saveLocalConversation, withLocalConversations } from './lib/dishConversations';
+import { resolveDishImage } from './lib/dishImages';
+import { toDish, toScanRow, toSession, withSignedImages, toOrder, toOrderRow, toReceipt, toReceiptRow } from './lib/scans';
+import { findMealSession } from './lib/receipts';
+
+// Where a finished scan was stored: local dish id -> stored id, and its session row
+interface StoredScan {
+  dishIds: Map<string, string>;
+  sessionId?: string;
+}
+
+const NOT_STORED: StoredScan = { dishIds: new Map() };
 
 const App: React.FC = () => {
   const [session, setSession] = useState<any>(null);
@@ -18,22 +37,50 @@ const App: React.FC = () => {
 
   // App State
   const [currentScreen, setCurrentScreen] = useState<Screen>('home');
-  const [uploadedImage, setUploadedImage] = useState<string | null>(null);
+  // One entry per page; dish scans always have a single page
+  const [uploadedImages, setUploadedImages] = useState<string[]>([]);
+  const [uploadedFiles, setUploadedFiles] = useState<File[]>([]);
+  // Menu pages collected on Home before the scan starts
+  const [pendingPages, setPendingPages] = useState<string[]>([]);
+  const [pendingFiles, setPendingFiles] = useState<File[]>([]);
   const [scanType, setScanType] = useState<ScanType>('dish');
+  // Failures of the current photo(s), across retries; stored with the session
+  const [scanError, setScanError] = useState<ScanError | null>(null);
+  const [scanErrors, setScanErrors] = useState<ScanErrorKind[]>([]);
+  // Set when scanning photos saved earlier, so the existing session row is completed instead of duplicated
+  const [resumedSessionId, setResumedSessionId] = useState<string | null>(null);
 
   // State for Features
   const [defaultLanguage, setDefaultLanguage] = useState<Language>('English');
   const [targetLanguage, setTargetLanguage] = useState<Language>('English');
 
   const [currentResults, setCurrentResults] = useState<Dish[]>([]);
+  // What recognition had to repair or leave out of the scan shown in Results
+  const [validationReport, setValidationReport] = useState<ValidationReport | null>(null);
+  const [currentReceipt, setCurrentReceipt] = useState<Receipt | null>(null);
+  // Latest receipt for async saves that finish after the user has edited it
+  const currentReceiptRef = useRef<Receipt | null>(null);
+  currentReceiptRef.current = currentReceipt;
+  // Lines of the receipt just scanned that couldn't be read, for the user to add by hand
+  const [droppedReceiptLines, setDroppedReceiptLines] = useState<ReceiptRecognitionResult['dropped']>([]);
+  // Results opens on local dish ids while handleScanComplete stores the scan. Resolves to where it was stored;
+  // actions taken meanwhile wait for it, so they neither write to a row that doesn't exist yet nor get swapped away
+  const storedScan = useRef<Promise<StoredScan>>(Promise.resolve(NOT_STORED));
+  // Local -> stored ids of the dishes swapped into Results, so a dish open there stays open across the swap
+  const [swappedDishIds, setSwappedDishIds] = useState<Map<string, string>>(new Map());
+  const [isSavingScan, setIsSavingScan] = useState(false);
   const [history, setHistory] = useState<Dish[]>([]); // All scanned items
+  const [scanSessions, setScanSessions] = useState<ScanSession[]>([]);
   const [savedItems, setSavedItems] = useState<SavedItem[]>([]);
+  // Latest Results and History dishes, for handlers that look a dish up after waiting on the scan save
+  const latestDishes = useRef<Dish[]>([]);
+  latestDishes.current = [...currentResults, ...history];
 
   // Profile State
   const [userProfile, setUserProfile] = useState<any>(null);
 
   // State for History Tabs
-  const [historyTab, setHistoryTab] = useState<'scans' | 'saved'>('scans');
+  const [historyTab, setHistoryTab] = useState<HistoryTab>('scans');
 
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
@@ -49,6 +96,7 @@ const App: React.FC = () => {
       if (session) fetchData(session.user.id);
       else {
         setHistory([]);
+        setScanSessions([]);
         setSavedItems([]);
         setUserProfile(null);
       }
@@ -68,6 +116,11 @@ const App: React.FC = () => {
         .single();
 
       if (profile) {
+        const allergens = migrateProfileAllergens(profile.allergens);
+        if (JSON.stringify(allergens) !== JSON.stringify(profile.allergens || [])) {
+          profile.allergens = allergens;
+          await supabase.from('profiles').update({ allergens }).eq('id', userId);
+        }
         setUserProfile(profile);
         if (profile.default_language) {
           setDefaultLanguage(profile.default_language as Language);
@@ -85,38 +138,55 @@ const App: React.FC = () => {
         .order('created_at', { ascending: false });
 
       if (scans) {
-        const formattedScans: Dish[] = scans.map((s: any) => ({
-          id: s.id,
-          name: s.name,
-          originalName: s.original_name,
-          description: s.description,
-          image: s.image_url,
-          tags: s.tags || [],
-          allergens: s.allergens || [],
-          spiceLevel: s.spice_level,
-          category: s.category,
-          boundingBox: s.bounding_box,
-          isMenu: s.is_menu
-        }));
+        const signedScanImages = await signImages(scans.map((row: any) => row.image_url));
+        const signedScans = scans.map((row: any) => withSignedImages(row, signedScanImages));
+        // Conversations whose write never reached the database are still on this device
+        const formattedScans: Dish[] = await withLocalConversations(signedScans.map(toDish));
 
         setHistory(formattedScans);
 
         // Filter saved items
-        const saved = scans.filter((s: any) => s.is_saved).map((s: any) => ({
-          id: s.id,
-          name: s.name,
-          originalName: s.original_name,
-          description: s.description,
-          image: s.image_url,
-          tags: s.tags || [],
-          allergens: s.allergens || [],
-          spiceLevel: s.spice_level,
-          category: s.category,
-          boundingBox: s.bounding_box,
-          isMenu: s.is_menu,
+        const saved = signedScans.flatMap((s: any, i: number) => s.is_saved ? [{
+          ...formattedScans[i],
           savedAt: new Date(s.saved_at || s.created_at)
-        }));
+        }] : []);
         setSavedItems(saved);
+
+        // Fetch Orders, attached to the session they were built from
+        const { data: orderRows } = await supabase
+          .from('orders')
+          .select('*')
+          .eq('user_id', userId)
+          .order('created_at', { ascending: false });
+        const orders: Order[] = (orderRows || []).map(toOrder);
+
+        // Fetch Receipts, attached to their own scan and to the meal they paid for
+        const { data: receiptRows } = await supabase
+          .from('receipts')
+          .select('*')
+          .eq('user_id', userId)
+          .order('created_at', { ascending: false });
+        const receipts: Receipt[] = (receiptRows || []).map(toReceipt);
+
+        // Fetch Sessions (dishes are attached from the scans already loaded)
+        const { data: sessionRows } = await supabase
+          .from('scan_sessions')
+          .select('*')
+          .eq('user_id', userId)
+          .neq('status', 'failed')
+          .order('created_at', { ascending: false });
+
+        if (sessionRows) {
+          const signedSessionImages = await signImages(sessionRows.flatMap((row: any) => row.image_urls || []));
+          setScanSessions(sessionRows.map((row: any) =>
+            toSession(
+              withSignedImages(row, signedSessionImages),
+              formattedScans.filter(dish => dish.sessionId === row.id),
+              orders.filter(order => order.sessionId === row.id),
+              receipts.filter(receipt => receipt.sessionId === row.id || receipt.mealSessionId === row.id)
+            )
+          ));
+        }
       }
     } catch (error) {
       console.error('Error fetching data:', error);
@@ -134,74 +204,511 @@ const App: React.FC = () => {
     }
   };
 
-  const handleImageSelect = (file: File, type: ScanType) => {
-    const imageUrl = URL.createObjectURL(file);
-    setUploadedImage(imageUrl);
+  const revokeBlobUrls = (urls: string[]) => {
+    urls.filter(url => url.startsWith('blob:')).forEach(url => URL.revokeObjectURL(url));
+  };
+
+  const startScan = (files: File[], imageUrls: string[], type: ScanType) => {
+    revokeBlobUrls(uploadedImages);
+    setUploadedImages(imageUrls);
+    setUploadedFiles(files);
     setScanType(type);
+    setScanErrors([]);
+    setResumedSessionId(null);
     setCurrentScreen('scanning');
   };
 
-  const handleScanCancel = () => {
+  // Menu photos are collected as pages until the user starts the scan; dish photos scan right away
+  const handleImageSelect = (file: File, type: ScanType) => {
+    const imageUrl = URL.createObjectURL(file);
+    if (type === 'menu') {
+      setPendingPages(prev => [...prev, imageUrl]);
+      setPendingFiles(prev => [...prev, file]);
+    } else {
+      startScan([file], [imageUrl], type);
+    }
+  };
+
+  const handleRemovePage = (index: number) => {
+    revokeBlobUrls([pendingPages[index]]);
+    setPendingPages(prev => prev.filter((_, i) => i !== index));
+    setPendingFiles(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleStartScan = () => {
+    if (pendingFiles.length === 0) return;
+    startScan(pendingFiles, pendingPages, 'menu');
+    setPendingPages([]);
+    setPendingFiles([]);
+  };
+
+  // Blob URLs die with the page, so photos are moved to Storage before rows reference them.
+  // Returns the object paths rows store; photos that are already stored (resumed sessions) keep theirs.
+  const persistScanImages = async (userId: string): Promise<(string | null)[]> => {
+    try {
+      return await Promise.all(uploadedImages.map((url, i) =>
+        url.startsWith('blob:') ? uploadScanImage(userId, uploadedFiles[i]) : Promise.resolve(toStoredImage(url))
+      ));
+    } catch (error) {
+      console.error('Error uploading scan image:', error);
+      return uploadedImages.map(url => url.startsWith('blob:') ? null : toStoredImage(url));
+    }
+  };
+
+  // The bucket is private: stored photos are shown through signed URLs. Unsigned ones stay as stored
+  // (and fail to load) rather than failing the whole load
+  const signImages = async (values: (string | null | undefined)[]): Promise<Map<string, string>> => {
+    try {
+      return await signScanImages(values);
+    } catch (error) {
+      console.error('Error signing scan image URLs:', error);
+      return new Map();
+    }
+  };
+
+  // Insert the session row, or update it when finishing a session saved earlier
+  const saveScanSession = async (fields: Record<string, any>) => {
+    const query = resumedSessionId
+      ? supabase.from('scan_sessions').update(fields).eq('id', resumedSessionId)
+      : supabase.from('scan_sessions').insert({ user_id: session.user.id, ...fields });
+    const { data, error } = await query.select().single();
+    if (error) console.error('Error saving scan session:', error);
+    return data;
+  };
+
+  const resetScan = () => {
     setCurrentScreen('home');
-    setUploadedImage(null);
+    revokeBlobUrls(uploadedImages);
+    setUploadedImages([]);
+    setUploadedFiles([]);
+    setScanError(null);
+    setScanErrors([]);
+    setResumedSessionId(null);
+  };
+
+  const handleScanCancel = async () => {
+    resetScan();
+
+    // Abandoned after errors: keep the error kinds for failure rates, without the photos
+    if (session?.user && scanErrors.length > 0) {
+      await saveScanSession(resumedSessionId
+        ? { error_kinds: scanErrors }
+        : { image_urls: [], scan_type: scanType, is_menu: scanType === 'menu', language: targetLanguage, status: 'failed', error_kinds: scanErrors }
+      );
+      if (resumedSessionId) {
+        setScanSessions(prev => prev.map(s => s.id === resumedSessionId ? { ...s, errorKinds: scanErrors } : s));
+      }
+    }
+  };
+
+  const handleScanError = (error: ScanError) => {
+    setScanError(error);
+    setScanErrors(prev => [...prev, error.kind]);
+    setCurrentScreen('scanError');
+  };
+
+  const handleRetryScan = () => {
+    setScanError(null);
+    setCurrentScreen('scanning');
+  };
+
+  const handleRescanAs = (type: ScanType) => {
+    setScanType(type);
+    handleRetryScan();
+  };
+
+  const handleCropRetry = async (page: number, rect: CropRect) => {
+    try {
+      const source = uploadedFiles[page] || await (await fetch(uploadedImages[page])).blob();
+      const cropped = await cropImage(source, rect, `page-${page + 1}.jpg`);
+      const croppedUrl = URL.createObjectURL(cropped);
+
+      revokeBlobUrls([uploadedImages[page]]);
+      setUploadedImages(prev => prev.map((url, i) => i === page ? croppedUrl : url));
+      // Untouched stored pages have no File; they keep their URL when persisted
+      setUploadedFiles(prev => uploadedImages.map((_, i) => i === page ? cropped : prev[i]));
+      handleRetryScan();
+    } catch (error) {
+      console.error('Error cropping scan image:', error);
+      window.alert('This photo could not be cropped.');
+    }
+  };
+
+  // Keep the photos as a pending session that can be scanned later from History
+  const handleSaveForLater = async () => {
+    if (session?.user) {
+      const persistedImages = await persistScanImages(session.user.id);
+      const storedImages = persistedImages.filter((url): url is string => !!url);
+      if (storedImages.length === 0) {
+        window.alert('The photo could not be saved. Check your connection and try again.');
+        return;
+      }
+
+      const sessionRow = await saveScanSession({
+        image_urls: storedImages,
+        scan_type: scanType,
+        is_menu: scanType === 'menu',
+        language: targetLanguage,
+        status: 'pending',
+        error_kinds: scanErrors
+      });
+      if (sessionRow) {
+        const signed = await signImages(storedImages);
+        setScanSessions(prev => [toSession(withSignedImages(sessionRow, signed), []), ...prev.filter(s => s.id !== sessionRow.id)]);
+      }
+    }
+    resetScan();
   };
 
-  const handleScanComplete = async (results: Dish[]) => {
+  const handleScanComplete = async (scanned: Dish[], report?: ValidationReport) => {
+    // Dishes from the scan cache keep their local ids, so questions kept on the device under those come back
+    const results = await withLocalConversations(scanned);
     setCurrentResults(results);
+    setValidationReport(report && hasValidationChanges(report) ? report : null);
     setCurrentScreen('results');
 
-    // Save to Database
+    // Save to Database (a signed-out scan stays on its local ids)
+    storedScan.current = Promise.resolve(NOT_STORED);
     if (session?.user) {
-      const newScans = results.map(dish => ({
-        user_id: session.user.id,
-        name: dish.name,
-        original_name: dish.originalName,
-        description: dish.description,
-        image_url: dish.image, // Note: In real app, verify this is a persistent URL or Base64 is okay for small scale
-        tags: dish.tags,
-        allergens: dish.allergens,
-        spice_level: dish.spiceLevel,
-        category: dish.category,
-        bounding_box: dish.boundingBox,
-        is_menu: dish.isMenu,
-        is_saved: false
-      }));
-
-      const { data, error } = await supabase.from('scans').insert(newScans).select();
+      const saving = saveScan(results, session.user.id).catch(error => {
+        console.error('Error saving scan:', error);
+        return NOT_STORED;
+      });
+      storedScan.current = saving;
+      setIsSavingScan(true);
+      await saving;
+      setIsSavingScan(false);
+    }
+    setScanErrors([]);
+    setResumedSessionId(null);
+  };
 
+  // Store the photos, session and dishes of a finished scan, then swap the stored dishes into Results
+  const saveScan = async (results: Dish[], userId: string): Promise<StoredScan> => {
+    const storedIds = new Map<string, string>();
+    const persistedImages = await persistScanImages(userId);
+    const storedImages = persistedImages.filter((url): url is string => !!url);
+
+    const sessionRow = await saveScanSession({
+      image_urls: storedImages,
+      scan_type: scanType,
+      is_menu: results.length > 0 ? !!results[0].isMenu : scanType === 'menu',
+      language: targetLanguage,
+      status: 'complete',
+      error_kinds: scanErrors
+    });
+
+    let formattedNew: Dish[] = [];
+    if (results.length > 0) {
+      const newScans = results.map(dish => toScanRow(
+        { ...dish, language: targetLanguage, image: dish.image?.startsWith('blob:') ? persistedImages[dish.page ?? 0] || undefined : dish.image },
+        userId,
+        sessionRow?.id || null
+      ));
+
+      const { data } = await supabase.from('scans').insert(newScans).select();
       if (data) {
-        const formattedNew: Dish[] = data.map((s: any) => ({
-          id: s.id,
-          name: s.name,
-          originalName: s.original_name,
-          description: s.description,
-          image: s.image_url,
-          tags: s.tags || [],
-          allergens: s.allergens || [],
-          spiceLevel: s.spice_level,
-          category: s.category,
-          boundingBox: s.bounding_box,
-          isMenu: s.is_menu
-        }));
+        const signedDishImages = await signImages(data.map((row: any) => row.image_url));
+        formattedNew = data.map((row: any) => toDish(withSignedImages(row, signedDishImages)));
+        formattedNew.forEach((dish, i) => storedIds.set(results[i].id, dish.id));
         setHistory(prev => [...formattedNew, ...prev]);
+        // Swap in the stored rows so Results uses real ids and the persistent photo URL
+        setCurrentResults(formattedNew);
+        setSwappedDishIds(storedIds);
       }
     }
+
+    const signed = await signImages(storedImages);
+    if (sessionRow) {
+      setScanSessions(prev => [toSession(withSignedImages(sessionRow, signed), formattedNew), ...prev.filter(s => s.id !== sessionRow.id)]);
+    }
+    if (storedImages.length === uploadedImages.length) {
+      revokeBlobUrls(uploadedImages);
+      setUploadedImages(storedImages.map(path => signed.get(path) ?? path));
+    }
+    return { dishIds: storedIds, sessionId: sessionRow?.id };
   };
 
-  const handleToggleSave = async (dishId: string) => {
-    const isAlreadySaved = savedItems.some(item => item.id === dishId);
-    let newSavedItems = [...savedItems];
+  // The id a dish shown in Results is stored under, once handleScanComplete has inserted it
+  const getStoredDishId = async (dishId: string): Promise<string> => (await storedScan.current).dishIds.get(dishId) ?? dishId;
+
+  // A receipt gets its own scan session for the photo and is linked to the meal's menu or dish scan
+  const handleReceiptComplete = async (recognized: RecognizedReceipt, dropped: ReceiptRecognitionResult['dropped'] = []) => {
+    const localId = `local-${Date.now()}`;
+    const mealSession = findMealSession(scanSessions);
+    const receipt: Receipt = {
+      ...recognized,
+      id: localId,
+      mealSessionId: mealSession?.id,
+      diners: [],
+      language: targetLanguage,
+      created_at: new Date().toISOString()
+    };
+    setCurrentReceipt(receipt);
+    setDroppedReceiptLines(dropped);
+    setCurrentScreen('receipt');
 
-    if (isAlreadySaved) {
-      newSavedItems = newSavedItems.filter(item => item.id !== dishId);
-    } else {
-      const dishToSave = currentResults.find(d => d.id === dishId) || history.find(d => d.id === dishId);
-      if (dishToSave) {
-        newSavedItems = [{ ...dishToSave, savedAt: new Date() }, ...newSavedItems];
+    if (session?.user) {
+      const persistedImages = await persistScanImages(session.user.id);
+      const storedImages = persistedImages.filter((url): url is string => !!url);
+
+      const sessionRow = await saveScanSession({
+        image_urls: storedImages,
+        scan_type: 'receipt',
+        is_menu: false,
+        language: targetLanguage,
+        status: 'complete',
+        error_kinds: scanErrors
+      });
+
+      // Diners may have been added while the photo uploaded
+      const latest = currentReceiptRef.current?.id === localId ? currentReceiptRef.current : receipt;
+      const { data, error } = await supabase
+        .from('receipts')
+        .insert(toReceiptRow({ ...latest, sessionId: sessionRow?.id }, session.user.id))
+        .select()
+        .single();
+      if (error) console.error('Error saving receipt:', error);
+      const inserted = data ? toReceipt(data) : { ...latest, sessionId: sessionRow?.id };
+
+      // Edits made during the insert itself are saved on top of it
+      const current = currentReceiptRef.current?.id === localId ? currentReceiptRef.current : latest;
+      const stored: Receipt = { ...current, id: inserted.id, sessionId: inserted.sessionId };
+      if (data && current !== latest) {
+        await supabase.from('receipts').update({ items: stored.items, diners: stored.diners }).eq('id', stored.id);
+      }
+
+      const signed = await signImages(storedImages);
+      setCurrentReceipt(prev => prev?.id === localId ? { ...prev, id: stored.id, sessionId: stored.sessionId } : prev);
+      setScanSessions(prev => {
+        const withMeal = prev.map(s => s.id === stored.mealSessionId ? { ...s, receipts: [stored, ...s.receipts] } : s);
+        return sessionRow ? [toSession(withSignedImages(sessionRow, signed), [], [], [stored]), ...withMeal.filter(s => s.id !== sessionRow.id)] : withMeal;
+      });
+      if (storedImages.length === uploadedImages.length) {
+        revokeBlobUrls(uploadedImages);
+        setUploadedImages(storedImages.map(path => signed.get(path) ?? path));
+      }
+    }
+    setScanErrors([]);
+    setResumedSessionId(null);
+  };
+
+  // Diners and item assignments, saved as they change
+  const handleUpdateReceipt = async (receipt: Receipt) => {
+    setCurrentReceipt(receipt);
+    setScanSessions(prev => prev.map(s => s.receipts.some(r => r.id === receipt.id)
+      ? { ...s, receipts: s.receipts.map(r => r.id === receipt.id ? receipt : r) }
+      : s));
+
+    // Not stored yet: the insert picks up the latest version
+    if (session?.user && !receipt.id.startsWith('local-')) {
+      const { error } = await supabase
+        .from('receipts')
+        .update({ items: receipt.items, diners: receipt.diners })
+        .eq('id', receipt.id);
+      if (error) console.error('Error saving receipt split:', error);
+    }
+  };
+
+  const handleOpenSession = (scanSession: ScanSession) => {
+    // Photos saved to scan later go straight back to the scanner
+    if (scanSession.status === 'pending') {
+      revokeBlobUrls(uploadedImages);
+      setUploadedImages(scanSession.images);
+      setUploadedFiles([]);
+      setScanType(scanSession.scanType);
+      setScanErrors(scanSession.errorKinds);
+      setResumedSessionId(scanSession.id);
+      setCurrentScreen('scanning');
+      return;
+    }
+
+    if (scanSession.scanType === 'receipt') {
+      const receipt = scanSession.receipts.find(r => r.sessionId === scanSession.id);
+      if (receipt) {
+        setCurrentReceipt(receipt);
+        setDroppedReceiptLines([]);
+        setCurrentScreen('receipt');
+      }
+      return;
+    }
+
+    setCurrentResults(scanSession.dishes);
+    setValidationReport(null);
+    storedScan.current = Promise.resolve(NOT_STORED);
+    setUploadedImages(scanSession.images);
+    setUploadedFiles([]);
+    setScanType(scanSession.scanType);
+    setCurrentScreen('results');
+  };
+
+  const handleDeleteScan = async (dishId: string) => {
+    const dish = history.find(d => d.id === dishId);
+    const remaining = history.filter(d => d.id !== dishId);
+
+    setHistory(remaining);
+    setSavedItems(prev => prev.filter(item => item.id !== dishId));
+    setCurrentResults(prev => prev.filter(d => d.id !== dishId));
+    setScanSessions(prev => prev.map(s => ({ ...s, dishes: s.dishes.filter(d => d.id !== dishId) })));
+    deleteLocalConversations([dishId]);
+
+    if (session?.user) {
+      const { error } = await supabase.from('scans').delete().eq('id', dishId);
+      if (error) {
+        console.error('Error deleting scan:', error);
+        return;
+      }
+
+      // Dishes share their session's photo, so only remove it once nothing references it.
+      // Compared by storage path: each signed URL of the same photo has its own token
+      const path = getScanImagePath(dish?.image);
+      const stillUsed = remaining.some(d => getScanImagePath(d.image) === path) || scanSessions.some(s => s.images.some(image => getScanImagePath(image) === path));
+      if (dish?.image && path && !stillUsed) {
+        try {
+          await deleteScanImages([dish.image]);
+        } catch (storageError) {
+          console.error('Error deleting scan image:', storageError);
+        }
+      }
+    }
+  };
+
+  const handleDeleteSession = async (sessionId: string) => {
+    const scanSession = scanSessions.find(s => s.id === sessionId);
+    if (!scanSession) return;
+    const dishIds = scanSession.dishes.map(d => d.id);
+
+    // A deleted receipt also leaves the meal session it was linked to
+    setScanSessions(prev => prev
+      .filter(s => s.id !== sessionId)
+      .map(s => s.receipts.some(r => r.sessionId === sessionId) ? { ...s, receipts: s.receipts.filter(r => r.sessionId !== sessionId) } : s));
+    setHistory(prev => prev.filter(d => !dishIds.includes(d.id)));
+    setSavedItems(prev => prev.filter(item => !dishIds.includes(item.id)));
+    setCurrentResults(prev => prev.filter(d => !dishIds.includes(d.id)));
+    deleteLocalConversations(dishIds);
+
+    if (session?.user) {
+      // Dish, order and receipt rows go with it (on delete cascade)
+      const { error } = await supabase.from('scan_sessions').delete().eq('id', sessionId);
+      if (error) {
+        console.error('Error deleting scan session:', error);
+        return;
+      }
+
+      try {
+        await deleteScanImages([...scanSession.images, ...scanSession.dishes.map(d => d.image)]);
+      } catch (storageError) {
+        console.error('Error deleting scan image:', storageError);
       }
     }
+  };
+
+  // Text-only translation of existing dishes; stored per language on each dish
+  const handleTranslateDishes = async (dishes: Dish[], language: Language) => {
+    const missing = dishes.filter(dish => !hasTranslation(dish, language));
+    if (missing.length === 0) return;
+
+    const translated = await translateDishes(missing, language);
+    const { dishIds: storedIds } = await storedScan.current;
+    const stored = missing.map(dish => ({ ...dish, id: storedIds.get(dish.id) ?? dish.id }));
+    const translations = Object.fromEntries(Object.entries(translated).map(([id, translation]) => [storedIds.get(id) ?? id, translation]));
+    const apply = <T extends Dish>(dish: T): T =>
+      translations[dish.id] ? withTranslation(dish, language, translations[dish.id]) : dish;
+
+    setCurrentResults(prev => prev.map(apply));
+    setHistory(prev => prev.map(apply));
+    setSavedItems(prev => prev.map(apply));
+    setScanSessions(prev => prev.map(s => ({ ...s, dishes: s.dishes.map(apply) })));
+
+    if (session?.user) {
+      const updates = stored
+        .filter(dish => translations[dish.id])
+        .map(dish => supabase.from('scans').update({ translations: apply(dish).translations }).eq('id', dish.id));
+      const responses = await Promise.all(updates);
+      responses.filter(r => r.error).forEach(r => console.error('Error saving translation:', r.error));
+    }
+  };
+
+  const handleAskAboutDish = async (dish: Dish, question: string, imageUrl: string | null) => {
+    const answer = await askAboutDish({ dish, imageUrl, profileAllergens: userProfile?.allergens || [] }, question);
+    const now = new Date().toISOString();
+    const conversation: DishMessage[] = [
+      ...(dish.conversation || []),
+      { role: 'user', text: question, created_at: now },
+      { role: 'model', text: answer, created_at: now }
+    ];
+    const id = await getStoredDishId(dish.id);
+    const apply = <T extends Dish>(d: T): T => d.id === id ? { ...d, conversation } : d;
+
+    setCurrentResults(prev => prev.map(apply));
+    setHistory(prev => prev.map(apply));
+    setSavedItems(prev => prev.map(apply));
+    setScanSessions(prev => prev.map(s => ({ ...s, dishes: s.dishes.map(apply) })));
+
+    await saveLocalConversation(id, conversation);
+    if (session?.user) {
+      const { error } = await supabase.from('scans').update({ conversation }).eq('id', id);
+      if (error) console.error('Error saving conversation:', error);
+    }
+  };
+
+  // Swap a wrong menu picture for the next one the resolver chain finds, remembering the rejection
+  const handleRejectDishImage = async (dish: Dish) => {
+    const rejectedImages = dish.image ? [...(dish.rejectedImages || []), dish.image] : dish.rejectedImages || [];
+    const { url, source } = await resolveDishImage({ ...dish, rejectedImages }, { history });
+    const id = await getStoredDishId(dish.id);
+    const apply = <T extends Dish>(d: T): T =>
+      d.id === id ? { ...d, image: url, imageSource: source, rejectedImages } : d;
+
+    setCurrentResults(prev => prev.map(apply));
+    setHistory(prev => prev.map(apply));
+    setSavedItems(prev => prev.map(apply));
+    setScanSessions(prev => prev.map(s => ({ ...s, dishes: s.dishes.map(apply) })));
+
+    if (session?.user) {
+      const { error } = await supabase
+        .from('scans')
+        .update({ image_url: toStoredImage(url), image_source: source, rejected_images: rejectedImages })
+        .eq('id', id);
+      if (error) console.error('Error saving dish picture:', error);
+    }
+  };
+
+  // Insert a new order, or update the one already shown to the waiter. Signed out, orders are kept in memory only.
+  const handleSaveOrder = async (order: Order): Promise<Order> => {
+    // Dishes whose rows weren't inserted carry no session id, though the scan's session row may exist
+    const sessionId = order.sessionId ?? (await storedScan.current).sessionId;
+    let saved: Order = { ...order, id: order.id || `local-${Date.now()}`, sessionId, created_at: order.created_at || new Date().toISOString() };
+
+    if (session?.user) {
+      const row = toOrderRow({ ...order, sessionId }, session.user.id);
+      const { data, error } = order.id && !order.id.startsWith('local-')
+        ? await supabase.from('orders').update(row).eq('id', order.id).select().single()
+        : await supabase.from('orders').insert(row).select().single();
+      if (error) console.error('Error saving order:', error);
+      else if (data) saved = toOrder(data);
+    }
 
-    setSavedItems(newSavedItems);
+    setScanSessions(prev => prev.map(s => {
+      if (s.id !== saved.sessionId) return s;
+      const exists = s.orders.some(o => o.id === saved.id);
+      return { ...s, orders: exists ? s.orders.map(o => o.id === saved.id ? saved : o) : [saved, ...s.orders] };
+    }));
+    return saved;
+  };
+
+  const handleToggleSave = async (id: string) => {
+    // As shown when tapped; a dish still being stored can't have been saved yet
+    const isAlreadySaved = savedItems.some(item => item.id === id);
+    const dishId = await getStoredDishId(id);
+    // Looked up again under the stored id: the swap and other edits may have landed during the wait
+    const dishToSave = latestDishes.current.find(d => d.id === dishId);
+
+    setSavedItems(prev => {
+      const others = prev.filter(item => item.id !== dishId);
+      if (isAlreadySaved) return others;
+      return dishToSave ? [{ ...dishToSave, savedAt: new Date() }, ...others] : prev;
+    });
 
     if (session?.user) {
       await supabase
@@ -248,6 +755,9 @@ const App: React.FC = () => {
         return (
           <Home
             onImageSelect={handleImageSelect}
+            pendingPages={pendingPages}
+            onRemovePage={handleRemovePage}
+            onStartScan={handleStartScan}
             targetLanguage={targetLanguage}
             setTargetLanguage={setTargetLanguage}
           />
@@ -255,32 +765,81 @@ const App: React.FC = () => {
       case 'scanning':
         return (
           <Scanning
-            uploadedImage={uploadedImage}
+            uploadedImages={uploadedImages}
+            historyDishes={history}
             scanType={scanType}
             targetLanguage={targetLanguage}
             onCancel={handleScanCancel}
             onComplete={handleScanComplete}
+            onReceiptComplete={handleReceiptComplete}
+            onError={handleScanError}
           />
         );
+      case 'scanError':
+        return scanError ? (
+          <ScanFailed
+            error={scanError}
+            scanType={scanType}
+            attempt={scanErrors.length}
+            uploadedImages={uploadedImages}
+            onRetry={handleRetryScan}
+            onRescanAs={handleRescanAs}
+            onCropRetry={handleCropRetry}
+            onSaveForLater={handleSaveForLater}
+            onCancel={handleScanCancel}
+          />
+        ) : null;
       case 'results':
         return (
           <Results
-            uploadedImage={uploadedImage}
+            uploadedImages={uploadedImages}
             results={currentResults}
             savedIds={savedItems.map(s => s.id)}
+            userAllergens={userProfile?.allergens || []}
+            language={targetLanguage}
+            homeCurrency={userProfile?.home_currency || DEFAULT_HOME_CURRENCY}
+            exchangeRates={userProfile?.exchange_rates || {}}
+            showNutrition={!userProfile?.hide_nutrition}
             onBack={() => setCurrentScreen('home')}
             onSave={handleToggleSave}
+            onTranslate={handleTranslateDishes}
+            onAskQuestion={handleAskAboutDish}
+            onRejectImage={handleRejectDishImage}
+            onSaveOrder={handleSaveOrder}
+            isSaving={isSavingScan}
+            validationReport={validationReport}
+            swappedDishIds={swappedDishIds}
           />
         );
+      case 'receipt':
+        return currentReceipt ? (
+          <ReceiptView
+            receipt={currentReceipt}
+            droppedLines={droppedReceiptLines}
+            homeCurrency={userProfile?.home_currency || DEFAULT_HOME_CURRENCY}
+            exchangeRates={userProfile?.exchange_rates || {}}
+            onBack={() => setCurrentScreen('home')}
+            onChange={handleUpdateReceipt}
+          />
+        ) : null;
       case 'history':
         return (
           <History
             historyItems={history}
+            sessions={scanSessions}
             savedItems={savedItems}
+            userAllergens={userProfile?.allergens || []}
+            language={targetLanguage}
+            showNutrition={!userProfile?.hide_nutrition}
             activeTab={historyTab}
             onTabChange={setHistoryTab}
             onBack={() => setCurrentScreen('home')}
             onToggleSave={handleToggleSave}
+            onDelete={handleDeleteScan}
+            onOpenSession={handleOpenSession}
+            onDeleteSession={handleDeleteSession}
+            onTranslate={handleTranslateDishes}
+            onAskQuestion={handleAskAboutDish}
           />
         );
       case 'profile':
@@ -290,6 +849,9 @@ const App: React.FC = () => {
       default:
         return <Home
           onImageSelect={handleImageSelect}
+          pendingPages={pendingPages}
+          onRemovePage={handleRemovePage}
+          onStartScan={handleStartScan}
           targetLanguage={targetLanguage}
           setTargetLanguage={setTargetLanguage}
         />;
@@ -317,7 +879,7 @@ const App: React.FC = () => {
       </div>
 
       {/* Navigation (Only show on certain screens) */}
-      {currentScreen !== 'scanning' && (
+      {currentScreen !== 'scanning' && currentScreen !== 'scanError' && (
         <BottomNav
           currentScreen={currentScreen}
           onNavigate={setCurrentScreen}
@@ -0,0 +1,39 @@
+import React from 'react';
+
+interface AllergenAlertProps {
+    conflicts: string[];
+    uncertain?: boolean; // Every conflict is only a possible allergen (low model confidence)
+}
+
+// Compact pill for list rows / thumbnails
+export const AllergenAlertBadge: React.FC<AllergenAlertProps> = ({ conflicts, uncertain }) => {
+    if (conflicts.length === 0) return null;
+    return (
+        <span
+            className={`inline-flex items-center gap-0.5 rounded-md px-1.5 py-0.5 text-[10px] font-bold shadow-sm shrink-0 ${uncertain ? 'bg-amber-500 text-white' : 'bg-red-600 text-white'}`}
+            title={`${uncertain ? 'May contain' : 'Contains'}: ${conflicts.join(', ')}`}
+        >
+            <span className="material-symbols-filled text-[12px]">warning</span>
+            {uncertain ? 'Allergy?' : 'Allergy'}
+        </span>
+    );
+};
+
+// Full-width banner for the single item card and detail modals
+export const AllergenAlertBanner: React.FC<AllergenAlertProps> = ({ conflicts, uncertain }) => {
+    if (conflicts.length === 0) return null;
+    return (
+        <div className={`flex items-start gap-3 p-3 rounded-xl text-white shadow-md ${uncertain ? 'bg-amber-500' : 'bg-red-600'}`} role="alert">
+            <span className="material-symbols-filled text-[22px] shrink-0">gpp_maybe</span>
+            <div className="flex flex-col gap-0.5">
+                <p className="text-sm font-bold leading-tight">{uncertain ? 'May not be safe for you' : 'Not safe for you'}</p>
+                <p className="text-xs font-medium text-white/90">
+                    Likely contains your allergens: {conflicts.join(', ')}
+                </p>
+                {uncertain && (
+                    <p className="text-xs font-bold text-white">Not certain — ask the staff to confirm.</p>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,228 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { ScanType } from '../types';
+
+interface CameraViewfinderProps {
+  scanType: ScanType;
+  capturedPages: string[]; // Menu pages taken so far (blob URLs), shown as a strip
+  onCapture: (file: File) => void;
+  onPickFile: () => void; // Fallback to the system file picker
+  onClose: () => void;
+}
+
+type CameraState = 'starting' | 'ready' | 'denied' | 'unavailable';
+
+// Torch support is not in the DOM typings yet
+type TorchCapabilities = MediaTrackCapabilities & { torch?: boolean };
+
+const CAPTURE_QUALITY = 0.92;
+
+const CAPTURE_HINTS: Record<ScanType, string> = {
+  dish: 'Center the dish in the circle',
+  menu: 'Fit one menu page inside the frame',
+  receipt: 'Fit the whole receipt inside the frame',
+  label: 'Fit the ingredient list inside the frame'
+};
+
+export const isCameraSupported = () => !!navigator.mediaDevices?.getUserMedia;
+
+/**
+ * Full-screen live camera with a framing guide. Each tap captures a frame and hands it to
+ * `onCapture` as a JPEG File; menus stay open for more pages, other scans start right away.
+ */
+export const CameraViewfinder: React.FC<CameraViewfinderProps> = ({ scanType, capturedPages, onCapture, onPickFile, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const [cameraState, setCameraState] = useState<CameraState>('starting');
+  const [hasTorch, setHasTorch] = useState(false);
+  const [torchOn, setTorchOn] = useState(false);
+  const [flash, setFlash] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const start = async () => {
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: { ideal: 'environment' }, width: { ideal: 1920 }, height: { ideal: 1080 } },
+          audio: false
+        });
+        if (cancelled) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        streamRef.current = stream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+          await videoRef.current.play().catch(() => undefined);
+        }
+
+        const [track] = stream.getVideoTracks();
+        const capabilities = track?.getCapabilities?.() as TorchCapabilities | undefined;
+        setHasTorch(!!capabilities?.torch);
+        setCameraState('ready');
+      } catch (error) {
+        if (cancelled) return;
+        console.error('Error starting camera:', error);
+        const name = (error as DOMException)?.name;
+        setCameraState(name === 'NotAllowedError' || name === 'SecurityError' ? 'denied' : 'unavailable');
+      }
+    };
+
+    start();
+
+    return () => {
+      cancelled = true;
+      streamRef.current?.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
+    };
+  }, []);
+
+  const toggleTorch = async () => {
+    const [track] = streamRef.current?.getVideoTracks() || [];
+    if (!track) return;
+    try {
+      await track.applyConstraints({ advanced: [{ torch: !torchOn } as MediaTrackConstraintSet] });
+      setTorchOn(!torchOn);
+    } catch (error) {
+      console.error('Error toggling torch:', error);
+      setHasTorch(false);
+    }
+  };
+
+  const capture = () => {
+    const video = videoRef.current;
+    if (cameraState !== 'ready' || !video || !video.videoWidth) return;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')?.drawImage(video, 0, 0);
+
+    setFlash(true);
+    setTimeout(() => setFlash(false), 150);
+
+    canvas.toBlob(blob => {
+      if (!blob) return;
+      onCapture(new File([blob], `capture-${Date.now()}.jpg`, { type: blob.type || 'image/jpeg' }));
+    }, 'image/jpeg', CAPTURE_QUALITY);
+  };
+
+  const isMenu = scanType === 'menu';
+  const isPage = scanType !== 'dish'; // Menus, receipts and labels are framed as a page
+
+  if (cameraState === 'denied' || cameraState === 'unavailable') {
+    return createPortal(
+      <div className="fixed inset-0 z-[9999] flex flex-col items-center justify-center gap-4 px-8 bg-black text-center text-white">
+        <span className="material-symbols-outlined text-[48px] text-white/60">no_photography</span>
+        <h2 className="text-xl font-bold">
+          {cameraState === 'denied' ? 'Camera access was denied' : 'No camera available'}
+        </h2>
+        <p className="text-sm text-white/60 max-w-[260px]">
+          {cameraState === 'denied'
+            ? 'Allow camera access in your browser settings, or choose a photo instead.'
+            : 'You can still choose a photo from your device.'}
+        </p>
+        <button
+          onClick={onPickFile}
+          className="flex items-center justify-center gap-2 h-12 px-6 mt-2 rounded-full bg-primary text-white text-sm font-bold shadow-lg"
+        >
+          <span className="material-symbols-outlined text-[20px]">photo_library</span>
+          Choose a Photo
+        </button>
+        <button onClick={onClose} className="text-sm font-bold text-white/60 hover:text-white">
+          Cancel
+        </button>
+      </div>,
+      document.body
+    );
+  }
+
+  return createPortal(
+    <div className="fixed inset-0 z-[9999] flex flex-col bg-black">
+      {/* Live feed; tapping anywhere captures */}
+      <div className="relative flex-1 min-h-0 overflow-hidden" onClick={capture}>
+        <video ref={videoRef} className="absolute inset-0 size-full object-cover" playsInline muted autoPlay />
+
+        {/* Framing guide: a page outline for printed text, a plate outline for dishes */}
+        <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+          {isPage ? (
+            <div className="relative w-[72%] aspect-[1/1.414] rounded-lg shadow-[0_0_0_9999px_rgba(0,0,0,0.35)]">
+              {['top-0 left-0 border-t-4 border-l-4 rounded-tl-lg', 'top-0 right-0 border-t-4 border-r-4 rounded-tr-lg', 'bottom-0 left-0 border-b-4 border-l-4 rounded-bl-lg', 'bottom-0 right-0 border-b-4 border-r-4 rounded-br-lg'].map(corner => (
+                <div key={corner} className={`absolute size-8 border-white ${corner}`}></div>
+              ))}
+            </div>
+          ) : (
+            <div className="w-[75%] aspect-square rounded-full border-4 border-white/80 border-dashed shadow-[0_0_0_9999px_rgba(0,0,0,0.35)]"></div>
+          )}
+        </div>
+
+        <p className="absolute top-20 inset-x-0 text-center text-sm font-bold text-white drop-shadow pointer-events-none">
+          {cameraState === 'starting'
+            ? 'Starting camera…'
+            : CAPTURE_HINTS[scanType]}
+        </p>
+
+        {flash && <div className="absolute inset-0 bg-white/80 pointer-events-none"></div>}
+      </div>
+
+      {/* Top bar */}
+      <div className="absolute top-0 inset-x-0 flex items-center justify-between p-4">
+        <button
+          onClick={onClose}
+          className="flex items-center justify-center size-10 rounded-full bg-black/40 backdrop-blur-sm text-white"
+        >
+          <span className="material-symbols-outlined">close</span>
+        </button>
+        {hasTorch && (
+          <button
+            onClick={toggleTorch}
+            className={`flex items-center justify-center size-10 rounded-full backdrop-blur-sm ${torchOn ? 'bg-yellow-300 text-black' : 'bg-black/40 text-white'}`}
+          >
+            <span className="material-symbols-outlined">{torchOn ? 'flashlight_on' : 'flashlight_off'}</span>
+          </button>
+        )}
+      </div>
+
+      {/* Captured pages */}
+      {isMenu && capturedPages.length > 0 && (
+        <div className="absolute bottom-36 inset-x-0 flex gap-2 px-4 overflow-x-auto no-scrollbar">
+          {capturedPages.map((page, index) => (
+            <div key={page} className="relative shrink-0 w-12 h-16 rounded-md overflow-hidden border-2 border-white shadow">
+              <img src={page} alt={`Page ${index + 1}`} className="size-full object-cover" />
+              <span className="absolute bottom-0 left-0 text-[10px] font-bold text-white bg-black/60 rounded-tr px-1">{index + 1}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Controls */}
+      <div className="flex items-center justify-between px-8 py-6 bg-black">
+        <button
+          onClick={onPickFile}
+          className="flex items-center justify-center size-12 rounded-full bg-white/10 text-white hover:bg-white/20"
+        >
+          <span className="material-symbols-outlined">photo_library</span>
+        </button>
+        <button
+          onClick={capture}
+          disabled={cameraState !== 'ready'}
+          className="flex items-center justify-center size-20 rounded-full border-4 border-white active:scale-95 transition-transform disabled:opacity-40"
+        >
+          <div className="size-16 rounded-full bg-white"></div>
+        </button>
+        {isMenu && capturedPages.length > 0 ? (
+          <button
+            onClick={onClose}
+            className="flex items-center justify-center h-12 px-4 rounded-full bg-primary text-white text-sm font-bold"
+          >
+            Done ({capturedPages.length})
+          </button>
+        ) : (
+          <div className="size-12"></div>
+        )}
+      </div>
+    </div>,
+    document.body
+  );
+};
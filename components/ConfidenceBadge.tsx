@@ -0,0 +1,32 @@
+import React from 'react';
+import { Dish } from '../types';
+import { hasLowConfidence, isLowConfidence } from '../lib/confidence';
+
+interface ConfidenceProps {
+    dish: Dish;
+}
+
+// Compact pill for list rows when any field of the dish is a guess
+export const LowConfidenceBadge: React.FC<ConfidenceProps> = ({ dish }) => {
+    if (!hasLowConfidence(dish)) return null;
+    return (
+        <span
+            className="inline-flex items-center gap-0.5 rounded-md bg-amber-100 dark:bg-amber-900/30 px-1.5 py-0.5 text-[10px] font-bold text-amber-700 dark:text-amber-300 shrink-0"
+            title="Some details are a best guess"
+        >
+            <span className="material-symbols-outlined text-[12px]">help</span>
+            Unsure
+        </span>
+    );
+};
+
+// Line under the dish name when the identification itself is a guess
+export const IdentityGuessNote: React.FC<ConfidenceProps> = ({ dish }) => {
+    if (!isLowConfidence(dish.confidence?.identity)) return null;
+    return (
+        <p className="flex items-center gap-1 mt-1 text-xs font-bold text-amber-600 dark:text-amber-400">
+            <span className="material-symbols-outlined text-[14px]">help</span>
+            Best guess — ask the staff what this dish is
+        </p>
+    );
+};
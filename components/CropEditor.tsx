@@ -0,0 +1,113 @@
+import React, { useRef, useState } from 'react';
+import { CropRect } from '../lib/image';
+
+interface CropEditorProps {
+  imageUrl: string;
+  onCancel: () => void;
+  onApply: (rect: CropRect) => void;
+}
+
+type DragHandle = 'move' | 'nw' | 'ne' | 'sw' | 'se';
+
+// Smallest crop, as a fraction of each side
+const MIN_SIZE = 0.1;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Drag a rectangle over the photo to pick the part worth rescanning
+export const CropEditor: React.FC<CropEditorProps> = ({ imageUrl, onCancel, onApply }) => {
+  const frameRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ handle: DragHandle; startX: number; startY: number; start: CropRect } | null>(null);
+  const [rect, setRect] = useState<CropRect>({ x: 0.1, y: 0.1, width: 0.8, height: 0.8 });
+
+  const startDrag = (handle: DragHandle) => (e: React.PointerEvent) => {
+    e.stopPropagation();
+    (e.target as HTMLElement).setPointerCapture(e.pointerId);
+    dragRef.current = { handle, startX: e.clientX, startY: e.clientY, start: rect };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const frame = frameRef.current?.getBoundingClientRect();
+    if (!drag || !frame) return;
+
+    const dx = (e.clientX - drag.startX) / frame.width;
+    const dy = (e.clientY - drag.startY) / frame.height;
+    const { x, y, width, height } = drag.start;
+
+    if (drag.handle === 'move') {
+      setRect({ x: clamp(x + dx, 0, 1 - width), y: clamp(y + dy, 0, 1 - height), width, height });
+      return;
+    }
+
+    // Corner handles move their own edges and keep the opposite corner fixed
+    let left = x, top = y, right = x + width, bottom = y + height;
+    if (drag.handle.includes('w')) left = clamp(x + dx, 0, right - MIN_SIZE);
+    if (drag.handle.includes('e')) right = clamp(right + dx, left + MIN_SIZE, 1);
+    if (drag.handle.includes('n')) top = clamp(y + dy, 0, bottom - MIN_SIZE);
+    if (drag.handle.includes('s')) bottom = clamp(bottom + dy, top + MIN_SIZE, 1);
+    setRect({ x: left, y: top, width: right - left, height: bottom - top });
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+  };
+
+  const corners: { handle: DragHandle; className: string }[] = [
+    { handle: 'nw', className: '-top-2 -left-2 cursor-nwse-resize' },
+    { handle: 'ne', className: '-top-2 -right-2 cursor-nesw-resize' },
+    { handle: 'sw', className: '-bottom-2 -left-2 cursor-nesw-resize' },
+    { handle: 'se', className: '-bottom-2 -right-2 cursor-nwse-resize' }
+  ];
+
+  return (
+    <div className="flex flex-col h-full w-full bg-black">
+      <div className="flex-1 min-h-0 flex items-center justify-center p-4">
+        {/* The frame hugs the image so crop fractions match the photo, not the letterbox */}
+        <div
+          ref={frameRef}
+          className="relative inline-block touch-none select-none"
+          onPointerMove={handlePointerMove}
+          onPointerUp={endDrag}
+          onPointerCancel={endDrag}
+        >
+          <img src={imageUrl} alt="Crop" className="block max-h-[65vh] max-w-full" draggable={false} />
+          <div
+            onPointerDown={startDrag('move')}
+            className="absolute border-2 border-white shadow-[0_0_0_9999px_rgba(0,0,0,0.6)] cursor-move"
+            style={{
+              left: `${rect.x * 100}%`,
+              top: `${rect.y * 100}%`,
+              width: `${rect.width * 100}%`,
+              height: `${rect.height * 100}%`
+            }}
+          >
+            {corners.map(({ handle, className }) => (
+              <div
+                key={handle}
+                onPointerDown={startDrag(handle)}
+                className={`absolute size-5 rounded-full bg-white border-2 border-primary shadow ${className}`}
+              ></div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex gap-3 px-4 py-6">
+        <button
+          onClick={onCancel}
+          className="flex-1 h-12 rounded-full bg-white/10 text-white text-sm font-bold hover:bg-white/20 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onApply(rect)}
+          className="flex-1 h-12 rounded-full bg-primary text-white text-sm font-bold shadow-lg shadow-primary/30 hover:bg-primary/90 transition-colors flex items-center justify-center gap-2"
+        >
+          <span className="material-symbols-outlined text-[20px]">crop</span>
+          Crop & Scan
+        </button>
+      </div>
+    </div>
+  );
+};
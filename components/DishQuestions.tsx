@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from 'react';
+import { Dish } from '../types';
+
+interface DishQuestionsProps {
+    dish: Dish;
+    onAsk: (question: string) => Promise<void>; // Asks the model and saves both messages on the dish
+}
+
+const SUGGESTED_QUESTIONS = [
+    'Can it be made vegetarian?',
+    'Is it safe with my allergies?',
+    'How is it usually eaten?'
+];
+
+// Q&A about one dish. Past questions are stored on the dish, so they can be reread offline.
+export const DishQuestions: React.FC<DishQuestionsProps> = ({ dish, onAsk }) => {
+    const [draft, setDraft] = useState('');
+    const [isAsking, setIsAsking] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [isOnline, setIsOnline] = useState(navigator.onLine);
+    const conversation = dish.conversation || [];
+
+    useEffect(() => {
+        const update = () => setIsOnline(navigator.onLine);
+        window.addEventListener('online', update);
+        window.addEventListener('offline', update);
+        return () => {
+            window.removeEventListener('online', update);
+            window.removeEventListener('offline', update);
+        };
+    }, []);
+
+    const ask = async (question: string) => {
+        const text = question.trim();
+        if (!text || isAsking) return;
+        setIsAsking(true);
+        setError(null);
+        try {
+            await onAsk(text);
+            setDraft('');
+        } catch (e) {
+            console.error('Error asking about dish:', e);
+            setDraft(text);
+            setError("Couldn't get an answer. Try again in a moment.");
+        } finally {
+            setIsAsking(false);
+        }
+    };
+
+    return (
+        <div className="flex flex-col gap-3">
+            <h4 className="text-xs font-bold text-gray-400 uppercase tracking-wider">Ask about this dish</h4>
+
+            {conversation.length > 0 && (
+                <div className="flex flex-col gap-2">
+                    {conversation.map((message, i) => (
+                        <div
+                            key={i}
+                            className={`max-w-[85%] px-3 py-2 rounded-2xl text-sm leading-relaxed whitespace-pre-line ${message.role === 'user'
+                                ? 'self-end bg-primary text-white rounded-br-md'
+                                : 'self-start bg-gray-100 dark:bg-white/5 text-gray-700 dark:text-gray-200 rounded-bl-md'}`}
+                        >
+                            {message.text}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {isAsking && (
+                <div className="self-start flex items-center gap-2 px-3 py-2 rounded-2xl bg-gray-100 dark:bg-white/5 text-xs text-gray-500">
+                    <span className="w-3 h-3 border-2 border-primary/30 border-t-primary rounded-full animate-spin"></span>
+                    Thinking…
+                </div>
+            )}
+
+            {conversation.length === 0 && !isAsking && isOnline && (
+                <div className="flex flex-wrap gap-1.5">
+                    {SUGGESTED_QUESTIONS.map(question => (
+                        <button
+                            key={question}
+                            onClick={() => ask(question)}
+                            className="px-3 py-1.5 rounded-full border border-gray-200 dark:border-gray-700 text-xs font-bold text-gray-600 dark:text-gray-300 hover:border-primary hover:text-primary transition-colors"
+                        >
+                            {question}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {error && <p className="text-xs font-bold text-red-600 dark:text-red-400">{error}</p>}
+
+            {isOnline ? (
+                <div className="flex items-center gap-2">
+                    <input
+                        type="text"
+                        value={draft}
+                        onChange={(e) => setDraft(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && ask(draft)}
+                        disabled={isAsking}
+                        placeholder="e.g. Does this usually contain fish sauce?"
+                        className="flex-1 min-w-0 bg-gray-50 dark:bg-black/20 border border-gray-200 dark:border-gray-700 rounded-full px-4 py-2 text-sm text-gray-900 dark:text-white outline-none focus:ring-1 focus:ring-primary disabled:opacity-50"
+                    />
+                    <button
+                        onClick={() => ask(draft)}
+                        disabled={isAsking || !draft.trim()}
+                        className="size-9 shrink-0 flex items-center justify-center rounded-full bg-primary text-white disabled:opacity-40 transition-opacity"
+                    >
+                        <span className="material-symbols-outlined text-[18px]">send</span>
+                    </button>
+                </div>
+            ) : (
+                <p className="flex items-center gap-1.5 text-xs text-gray-400">
+                    <span className="material-symbols-outlined text-[16px]">wifi_off</span>
+                    You're offline. Saved answers are still here; new questions need a connection.
+                </p>
+            )}
+        </div>
+    );
+};
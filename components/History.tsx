@@ -1,22 +1,77 @@
 
 import React, { useState } from 'react';
-import { Dish, SavedItem } from '../types';
+import { Dish, HistoryTab, Language, Order, SavedItem, ScanSession, ScanType } from '../types';
+import { findAllergenConflicts } from '../lib/allergens';
+import { describeConflicts, getAllergenText, isLowConfidence, isPossibleAllergen } from '../lib/confidence';
+import { localizeDish } from '../lib/translation';
+import { countOrderItems } from '../lib/orders';
+import { formatPrice } from '../lib/currency';
+import { AllergenAlertBadge, AllergenAlertBanner } from './AllergenAlert';
+import { IdentityGuessNote, LowConfidenceBadge } from './ConfidenceBadge';
+import { NutritionFacts } from './NutritionFacts';
+import { DishQuestions } from './DishQuestions';
+import { PronunciationGuide } from './PronunciationGuide';
+import { LabelAnalysis } from './LabelAnalysis';
+import { TranslateMenu } from './TranslateMenu';
+import { OrderCard } from './OrderCard';
 
 interface HistoryProps {
     historyItems: Dish[];
+    sessions: ScanSession[];
     savedItems: SavedItem[];
-    activeTab: 'scans' | 'saved';
-    onTabChange: (tab: 'scans' | 'saved') => void;
+    userAllergens: string[];
+    language: Language;
+    showNutrition: boolean;
+    activeTab: HistoryTab;
+    onTabChange: (tab: HistoryTab) => void;
     onBack: () => void;
     onToggleSave: (id: string) => void;
+    onDelete: (id: string) => void;
+    onOpenSession: (session: ScanSession) => void;
+    onDeleteSession: (id: string) => void;
+    onTranslate: (dishes: Dish[], language: Language) => Promise<void>;
+    onAskQuestion: (dish: Dish, question: string, imageUrl: string | null) => Promise<void>;
 }
 
-export const History: React.FC<HistoryProps> = ({ historyItems, savedItems, activeTab, onTabChange, onBack, onToggleSave }) => {
-    const [expandedDish, setExpandedDish] = useState<Dish | null>(null);
-    const displayItems = activeTab === 'scans' ? historyItems : savedItems;
+const SESSION_KINDS: Record<ScanType, string> = { dish: 'Dish', menu: 'Menu', receipt: 'Receipt', label: 'Label' };
+
+export const History: React.FC<HistoryProps> = ({ historyItems, sessions, savedItems, userAllergens, language, showNutrition, activeTab, onTabChange, onBack, onToggleSave, onDelete, onOpenSession, onDeleteSession, onTranslate, onAskQuestion }) => {
+    // "Translate to…": null shows dishes as scanned
+    const [displayLanguage, setDisplayLanguage] = useState<Language | null>(null);
+    const labelLanguage = displayLanguage || language;
+
+    // A past order, shown again as the card the waiter saw
+    const [viewedOrder, setViewedOrder] = useState<Order | null>(null);
+
+    const tabItems: Dish[] = activeTab === 'scans' ? historyItems : activeTab === 'saved' ? savedItems : [];
+    const displayItems = tabItems.map(dish => localizeDish(dish, displayLanguage));
+
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const expandedDish = displayItems.find(d => d.id === expandedId) || null;
+
+    // The photo a dish was scanned from: its session's page, or the dish photo itself for older dish scans
+    const getScanImage = (dish: Dish): string | null =>
+        sessions.find(s => s.id === dish.sessionId)?.images[dish.page ?? 0] || (dish.isMenu ? null : dish.image || null);
+
+    // A receipt session's own receipt; meal sessions also list the receipts linked to them
+    const getOwnReceipt = (scanSession: ScanSession) => scanSession.receipts.find(r => r.sessionId === scanSession.id);
+
+    const getSessionTitle = (scanSession: ScanSession) => {
+        const kind = SESSION_KINDS[scanSession.scanType];
+        if (scanSession.status === 'pending') return `${kind} · Not scanned yet`;
+        if (scanSession.scanType === 'receipt') {
+            const receipt = getOwnReceipt(scanSession);
+            return receipt?.total !== undefined ? `Receipt · ${formatPrice(receipt.total, receipt.currency)}` : 'Receipt';
+        }
+        if (scanSession.scanType === 'label') return 'Ingredient label';
+        return `${scanSession.isMenu ? 'Menu' : 'Dish'} · ${scanSession.dishes.length} item${scanSession.dishes.length !== 1 ? 's' : ''}`;
+    };
+
+    const getConflicts = (dish: Dish) =>
+        describeConflicts(dish, findAllergenConflicts(dish, userAllergens), labelLanguage);
 
     // Helper to render spice level (reused logic for consistency)
-    const renderSpiceLevel = (level: string) => {
+    const renderSpiceLevel = (level: string, uncertain = false) => {
         if (level === 'None' || !level) {
             return <span className="text-xs font-bold text-gray-400 bg-gray-100 dark:bg-white/10 px-2 py-1 rounded-full">Not Spicy</span>;
         }
@@ -31,6 +86,7 @@ export const History: React.FC<HistoryProps> = ({ historyItems, savedItems, acti
                 {[...Array(count)].map((_, i) => (
                     <span key={i} className="text-[16px] leading-none">🌶️</span>
                 ))}
+                {uncertain && <span className="text-sm font-bold text-amber-600" title="Spice level is a guess">?</span>}
             </div>
         );
     };
@@ -43,8 +99,18 @@ export const History: React.FC<HistoryProps> = ({ historyItems, savedItems, acti
             <header className="relative z-10 flex flex-col w-full bg-white/80 dark:bg-surface-dark/90 backdrop-blur-md shadow-sm">
                 <div className="flex items-center justify-between px-6 py-4">
                     <h1 className="text-xl font-bold text-gray-900 dark:text-white">Activity</h1>
-                    <div className="flex items-center justify-center size-8 rounded-full bg-gray-100 dark:bg-gray-800">
-                        <span className="material-symbols-outlined text-gray-500 text-sm">history</span>
+                    <div className="flex items-center gap-2">
+                        {activeTab !== 'sessions' && tabItems.length > 0 && (
+                            <TranslateMenu
+                                dishes={tabItems}
+                                value={displayLanguage}
+                                onChange={setDisplayLanguage}
+                                onTranslate={onTranslate}
+                            />
+                        )}
+                        <div className="flex items-center justify-center size-8 rounded-full bg-gray-100 dark:bg-gray-800">
+                            <span className="material-symbols-outlined text-gray-500 text-sm">history</span>
+                        </div>
                     </div>
                 </div>
 
@@ -62,6 +128,18 @@ export const History: React.FC<HistoryProps> = ({ historyItems, savedItems, acti
                             <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-primary rounded-t-full"></div>
                         )}
                     </button>
+                    <button
+                        onClick={() => onTabChange('sessions')}
+                        className={`pb-3 text-sm font-bold transition-all relative ${activeTab === 'sessions'
+                                ? 'text-primary'
+                                : 'text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200'
+                            }`}
+                    >
+                        Sessions
+                        {activeTab === 'sessions' && (
+                            <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-primary rounded-t-full"></div>
+                        )}
+                    </button>
                     <button
                         onClick={() => onTabChange('saved')}
                         className={`pb-3 text-sm font-bold transition-all relative ${activeTab === 'saved'
@@ -78,7 +156,110 @@ export const History: React.FC<HistoryProps> = ({ historyItems, savedItems, acti
             </header>
 
             <main className="relative z-10 flex-1 overflow-y-auto px-4 pt-4 pb-24 no-scrollbar">
-                {displayItems.length === 0 && (
+                {activeTab === 'sessions' && sessions.length === 0 && (
+                    <div className="flex flex-col items-center justify-center py-20 opacity-50">
+                        <span className="material-symbols-outlined text-4xl mb-2 text-gray-400">photo_library</span>
+                        <p className="text-gray-500">No scan sessions yet.</p>
+                    </div>
+                )}
+
+                {activeTab === 'sessions' && (
+                    <div className="flex flex-col gap-3">
+                        {sessions.map((scanSession) => (
+                            <article
+                                key={scanSession.id}
+                                onClick={() => onOpenSession(scanSession)}
+                                className="flex gap-4 p-3 bg-white dark:bg-surface-dark rounded-xl shadow-sm border border-gray-100 dark:border-gray-800/60 relative overflow-hidden cursor-pointer hover:bg-gray-50 dark:hover:bg-white/5 transition-colors"
+                            >
+                                <div className="w-20 h-20 rounded-lg bg-gray-200 shrink-0 overflow-hidden relative">
+                                    <div
+                                        className="absolute inset-0 bg-cover bg-center"
+                                        style={{ backgroundImage: `url('${scanSession.images[0] || 'https://via.placeholder.com/150'}')` }}
+                                    ></div>
+                                    <div className="absolute bottom-1 left-1 flex items-center justify-center size-6 rounded-md bg-black/50 backdrop-blur-sm text-white">
+                                        <span className="material-symbols-outlined text-[14px]">{scanSession.scanType === 'receipt' ? 'receipt_long' : scanSession.scanType === 'label' ? 'shopping_basket' : scanSession.isMenu ? 'menu_book' : 'lunch_dining'}</span>
+                                    </div>
+                                </div>
+
+                                <div className="flex-1 flex flex-col justify-between py-0.5 min-w-0">
+                                    <div className="flex justify-between items-start">
+                                        <h3 className="text-base font-bold text-gray-900 dark:text-white leading-tight">
+                                            {getSessionTitle(scanSession)}
+                                        </h3>
+                                        <button
+                                            onClick={(e) => {
+                                                e.stopPropagation();
+                                                if (window.confirm('Delete this scan and all of its dishes?')) onDeleteSession(scanSession.id);
+                                            }}
+                                            className="flex items-center justify-center p-1 -mt-1 -mr-1 text-gray-300 hover:text-red-500 transition-colors"
+                                        >
+                                            <span className="material-symbols-outlined text-[20px]">delete</span>
+                                        </button>
+                                    </div>
+                                    {scanSession.status === 'pending' ? (
+                                        <p className="text-xs font-bold text-primary flex items-center gap-1">
+                                            <span className="material-symbols-outlined text-[14px]">document_scanner</span>
+                                            Saved to scan later · Tap to scan
+                                        </p>
+                                    ) : (
+                                        <p className="text-xs text-gray-500 dark:text-gray-400 line-clamp-1">
+                                            {scanSession.scanType === 'receipt'
+                                                ? [getOwnReceipt(scanSession)?.merchant, ...(getOwnReceipt(scanSession)?.items || []).map(item => item.name)].filter(Boolean).join(', ')
+                                                : scanSession.dishes.map(d => d.name).join(', ')}
+                                        </p>
+                                    )}
+                                    {scanSession.scanType !== 'receipt' && scanSession.receipts.length > 0 && (
+                                        <div className="flex flex-wrap gap-1.5 mt-1">
+                                            {scanSession.receipts.map(receipt => {
+                                                const receiptSession = sessions.find(s => s.id === receipt.sessionId);
+                                                if (!receiptSession) return null;
+                                                return (
+                                                    <button
+                                                        key={receipt.id}
+                                                        onClick={(e) => { e.stopPropagation(); onOpenSession(receiptSession); }}
+                                                        className="flex items-center gap-1 px-2 py-0.5 rounded-md bg-gray-100 dark:bg-white/10 text-[10px] font-bold text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-white/20 transition-colors"
+                                                    >
+                                                        <span className="material-symbols-outlined text-[12px]">payments</span>
+                                                        Bill{receipt.total !== undefined ? ` · ${formatPrice(receipt.total, receipt.currency)}` : ''}
+                                                    </button>
+                                                );
+                                            })}
+                                        </div>
+                                    )}
+                                    {scanSession.orders.length > 0 && (
+                                        <div className="flex flex-wrap gap-1.5 mt-1">
+                                            {scanSession.orders.map(order => (
+                                                <button
+                                                    key={order.id}
+                                                    onClick={(e) => { e.stopPropagation(); setViewedOrder(order); }}
+                                                    className="flex items-center gap-1 px-2 py-0.5 rounded-md bg-primary/10 text-[10px] font-bold text-primary hover:bg-primary/20 transition-colors"
+                                                    title={order.items.map(item => `${item.quantity} × ${item.name}`).join(', ')}
+                                                >
+                                                    <span className="material-symbols-outlined text-[12px]">receipt_long</span>
+                                                    Ordered {countOrderItems(order)} item{countOrderItems(order) !== 1 ? 's' : ''}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    )}
+                                    <div className="flex items-center gap-2 mt-1 text-[10px] font-medium text-gray-400">
+                                        <span className="flex items-center gap-0.5">
+                                            <span className="material-symbols-outlined text-[12px]">translate</span>
+                                            {scanSession.language}
+                                        </span>
+                                        {scanSession.images.length > 1 && (
+                                            <span>{scanSession.images.length} pages</span>
+                                        )}
+                                        {scanSession.created_at && (
+                                            <span>{new Date(scanSession.created_at).toLocaleDateString()}</span>
+                                        )}
+                                    </div>
+                                </div>
+                            </article>
+                        ))}
+                    </div>
+                )}
+
+                {activeTab !== 'sessions' && displayItems.length === 0 && (
                     <div className="flex flex-col items-center justify-center py-20 opacity-50">
                         <span className="material-symbols-outlined text-4xl mb-2 text-gray-400">
                             {activeTab === 'scans' ? 'history_toggle_off' : 'bookmark_border'}
@@ -93,11 +274,12 @@ export const History: React.FC<HistoryProps> = ({ historyItems, savedItems, acti
                     {displayItems.map((item) => {
                         // Check if item is saved to show correct heart status
                         const isSaved = savedItems.some(s => s.id === item.id);
+                        const conflicts = getConflicts(item);
 
                         return (
                             <article
                                 key={item.id}
-                                onClick={() => setExpandedDish(item)}
+                                onClick={() => setExpandedId(item.id)}
                                 className="flex gap-4 p-3 bg-white dark:bg-surface-dark rounded-xl shadow-sm border border-gray-100 dark:border-gray-800/60 relative overflow-hidden group cursor-pointer hover:bg-gray-50 dark:hover:bg-white/5 transition-colors"
                             >
                                 {/* Image Thumb */}
@@ -127,9 +309,11 @@ export const History: React.FC<HistoryProps> = ({ historyItems, savedItems, acti
                                     </p>
 
                                     <div className="flex items-center gap-2 mt-2">
+                                        <AllergenAlertBadge conflicts={conflicts.labels} uncertain={conflicts.uncertain} />
+                                        <LowConfidenceBadge dish={item} />
                                         {item.spiceLevel && item.spiceLevel !== 'None' && (
                                             <span className="text-[10px] font-bold text-orange-600 bg-orange-50 dark:bg-orange-900/20 px-1.5 py-0.5 rounded flex items-center gap-0.5">
-                                                <span>🌶️</span> {item.spiceLevel}
+                                                <span>🌶️</span> {item.spiceLevel}{isLowConfidence(item.confidence?.spiceLevel) ? '?' : ''}
                                             </span>
                                         )}
                                         {item.tags.slice(0, 2).map(tag => (
@@ -149,7 +333,7 @@ export const History: React.FC<HistoryProps> = ({ historyItems, savedItems, acti
             {expandedDish && (
                 <div
                     className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/80 backdrop-blur-md animate-[fadeIn_0.2s_ease-out]"
-                    onClick={() => setExpandedDish(null)}
+                    onClick={() => setExpandedId(null)}
                 >
                     <div
                         className="relative w-full max-w-[340px] bg-white dark:bg-[#1a1a1a] rounded-2xl overflow-hidden shadow-2xl animate-[scaleIn_0.2s_ease-out]"
@@ -157,7 +341,7 @@ export const History: React.FC<HistoryProps> = ({ historyItems, savedItems, acti
                     >
                         {/* Close Button */}
                         <button
-                            onClick={() => setExpandedDish(null)}
+                            onClick={() => setExpandedId(null)}
                             className="absolute top-3 right-3 z-20 flex items-center justify-center size-8 rounded-full bg-black/20 backdrop-blur-md text-white hover:bg-black/40 transition-colors"
                         >
                             <span className="material-symbols-outlined text-[20px]">close</span>
@@ -175,56 +359,98 @@ export const History: React.FC<HistoryProps> = ({ historyItems, savedItems, acti
                                 <div>
                                     <h3 className="text-2xl font-bold text-[#181310] dark:text-white leading-tight">{expandedDish.name}</h3>
                                     <p className="text-sm font-medium text-primary italic mt-0.5">{expandedDish.originalName}</p>
+                                    <PronunciationGuide dish={expandedDish} />
+                                    <IdentityGuessNote dish={expandedDish} />
                                 </div>
                                 <div className="pt-1 shrink-0">
-                                    {renderSpiceLevel(expandedDish.spiceLevel)}
+                                    {renderSpiceLevel(expandedDish.spiceLevel, isLowConfidence(expandedDish.confidence?.spiceLevel))}
                                 </div>
                             </div>
 
-                            {/* Info Rows: Flavors & Allergens */}
-                            <div className="flex flex-col gap-3">
-                                {/* Flavors */}
-                                <div className="flex items-start gap-2">
-                                    <div className="mt-0.5 flex items-center justify-center size-5 rounded-full bg-orange-100 dark:bg-orange-900/30 text-orange-600 dark:text-orange-400 shrink-0">
-                                        <span className="material-symbols-outlined text-[14px]">palette</span>
-                                    </div>
-                                    <div className="flex flex-wrap gap-1.5">
-                                        {expandedDish.tags.slice(0, 3).map((tag, idx) => (
-                                            <span key={idx} className="inline-flex items-center rounded-md bg-orange-50 dark:bg-orange-900/20 px-2 py-0.5 text-xs font-bold text-orange-700 dark:text-orange-300">
-                                                {tag}
-                                            </span>
-                                        ))}
-                                    </div>
-                                </div>
+                            {/* Packaged products: the label check stands in for the dish's allergen rows */}
+                            {expandedDish.label ? (
+                                <LabelAnalysis
+                                    label={expandedDish.label}
+                                    originalLanguage={expandedDish.originalLanguage}
+                                    userAllergens={userAllergens}
+                                    language={labelLanguage}
+                                />
+                            ) : (
+                                <>
+                                    <AllergenAlertBanner conflicts={getConflicts(expandedDish).labels} uncertain={getConflicts(expandedDish).uncertain} />
 
-                                {/* Allergens */}
-                                <div className="flex items-start gap-2">
-                                    <div className="mt-0.5 flex items-center justify-center size-5 rounded-full bg-red-100 dark:bg-red-900/30 text-red-600 dark:text-red-400 shrink-0">
-                                        <span className="material-symbols-outlined text-[14px]">warning</span>
-                                    </div>
-                                    <div className="flex flex-wrap gap-1.5">
-                                        {expandedDish.allergens && expandedDish.allergens.length > 0 ? (
-                                            expandedDish.allergens.slice(0, 5).map((allergen, idx) => (
-                                                <span key={idx} className="inline-flex items-center rounded-md bg-red-50 dark:bg-red-900/20 px-2 py-0.5 text-xs font-bold text-red-700 dark:text-red-300">
-                                                    {allergen}
-                                                </span>
-                                            ))
-                                        ) : (
-                                            <span className="text-xs text-gray-400 italic py-0.5">No major allergens detected</span>
-                                        )}
+                                    {/* Info Rows: Flavors & Allergens */}
+                                    <div className="flex flex-col gap-3">
+                                        {/* Flavors */}
+                                        <div className="flex items-start gap-2">
+                                            <div className="mt-0.5 flex items-center justify-center size-5 rounded-full bg-orange-100 dark:bg-orange-900/30 text-orange-600 dark:text-orange-400 shrink-0">
+                                                <span className="material-symbols-outlined text-[14px]">palette</span>
+                                            </div>
+                                            <div className="flex flex-wrap gap-1.5">
+                                                {expandedDish.tags.slice(0, 3).map((tag, idx) => (
+                                                    <span key={idx} className="inline-flex items-center rounded-md bg-orange-50 dark:bg-orange-900/20 px-2 py-0.5 text-xs font-bold text-orange-700 dark:text-orange-300">
+                                                        {tag}
+                                                    </span>
+                                                ))}
+                                            </div>
+                                        </div>
+
+                                        {/* Allergens */}
+                                        <div className="flex items-start gap-2">
+                                            <div className="mt-0.5 flex items-center justify-center size-5 rounded-full bg-red-100 dark:bg-red-900/30 text-red-600 dark:text-red-400 shrink-0">
+                                                <span className="material-symbols-outlined text-[14px]">warning</span>
+                                            </div>
+                                            <div className="flex flex-wrap gap-1.5">
+                                                {expandedDish.allergens && expandedDish.allergens.length > 0 ? (
+                                                    expandedDish.allergens.slice(0, 5).map((allergen, idx) => (
+                                                        <span key={idx} className={`inline-flex items-center rounded-md bg-red-50 dark:bg-red-900/20 px-2 py-0.5 text-xs font-bold text-red-700 dark:text-red-300 ${isPossibleAllergen(expandedDish, allergen) ? 'border border-dashed border-red-300 dark:border-red-700' : ''}`}>
+                                                            {getAllergenText(expandedDish, allergen, labelLanguage)}
+                                                        </span>
+                                                    ))
+                                                ) : (
+                                                    <span className="text-xs text-gray-400 italic py-0.5">No major allergens detected</span>
+                                                )}
+                                            </div>
+                                        </div>
                                     </div>
-                                </div>
-                            </div>
+                                </>
+                            )}
 
                             <div className="pt-2 border-t border-gray-100 dark:border-gray-800/50">
                                 <p className="text-sm leading-relaxed text-[#6b5850] dark:text-[#a89f9b]">
                                     {expandedDish.description}
                                 </p>
                             </div>
+
+                            {showNutrition && <NutritionFacts nutrition={expandedDish.nutrition} />}
+
+                            <div className="pt-2 border-t border-gray-100 dark:border-gray-800/50">
+                                <DishQuestions dish={expandedDish} onAsk={(question) => onAskQuestion(expandedDish, question, getScanImage(expandedDish))} />
+                            </div>
+
+                            <button
+                                onClick={() => {
+                                    if (window.confirm('Delete this scan? Its photo will be removed too.')) {
+                                        onDelete(expandedDish.id);
+                                        setExpandedId(null);
+                                    }
+                                }}
+                                className="flex items-center justify-center gap-1.5 w-full py-2.5 rounded-xl bg-red-50 dark:bg-red-900/10 text-red-600 dark:text-red-400 text-sm font-bold hover:bg-red-100 dark:hover:bg-red-900/20 transition-colors"
+                            >
+                                <span className="material-symbols-outlined text-[18px]">delete</span>
+                                Delete Scan
+                            </button>
                         </div>
                     </div>
                 </div>
             )}
+            {viewedOrder && (
+                <OrderCard
+                    order={viewedOrder}
+                    userAllergens={userAllergens}
+                    onClose={() => setViewedOrder(null)}
+                />
+            )}
             <style>{`
                 @keyframes fadeIn {
                     from { opacity: 0; }
@@ -2,31 +2,54 @@
 import React, { useRef, useState } from 'react';
 import { Language, ScanType } from '../types';
 import { LANGUAGES } from '../constants';
+import { CameraViewfinder, isCameraSupported } from './CameraViewfinder';
 
 interface HomeProps {
   onImageSelect: (file: File, type: ScanType) => void;
+  pendingPages: string[]; // Menu pages captured so far (blob URLs)
+  onRemovePage: (index: number) => void;
+  onStartScan: () => void;
   targetLanguage: Language;
   setTargetLanguage: (lang: Language) => void;
 }
 
 export const Home: React.FC<HomeProps> = ({ 
     onImageSelect, 
+    pendingPages,
+    onRemovePage,
+    onStartScan,
     targetLanguage, 
     setTargetLanguage,
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [scanType, setScanType] = useState<ScanType>('dish');
+  const [showCamera, setShowCamera] = useState(false);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
+      setShowCamera(false);
       onImageSelect(e.target.files[0], scanType);
     }
+    // Allow picking the same file again (e.g. re-adding a removed page)
+    e.target.value = '';
   };
 
-  const triggerCamera = () => {
+  const triggerFilePicker = () => {
     fileInputRef.current?.click();
   };
 
+  // Live viewfinder where the browser has one; otherwise the system picker
+  const triggerCamera = () => {
+    if (isCameraSupported()) setShowCamera(true);
+    else triggerFilePicker();
+  };
+
+  // Menu pages keep the camera open for the next page; a dish photo starts the scan
+  const handleCapture = (file: File) => {
+    if (scanType !== 'menu') setShowCamera(false);
+    onImageSelect(file, scanType);
+  };
+
   return (
     <div className="relative flex h-full w-full flex-col items-center justify-between overflow-hidden bg-background-light dark:bg-background-dark pb-20">
       {/* Background Pattern */}
@@ -51,17 +74,21 @@ export const Home: React.FC<HomeProps> = ({
       <main className="relative z-10 flex-1 flex flex-col items-center justify-center px-6 w-full">
         <div className="text-center mb-6 animate-fade-in-up">
           <h2 className="text-4xl font-extrabold text-gray-900 dark:text-white mb-3 tracking-tight leading-tight">
-            {scanType === 'menu' ? 'Scan a Menu' : 'Scan a Dish'}
+            {scanType === 'menu' ? 'Scan a Menu' : scanType === 'receipt' ? 'Scan a Receipt' : scanType === 'label' ? 'Scan a Label' : 'Scan a Dish'}
           </h2>
           <p className="text-lg text-gray-500 dark:text-gray-400 font-medium max-w-[280px] mx-auto leading-relaxed">
             {scanType === 'menu' 
                 ? 'Translate entire menus instantly.' 
+                : scanType === 'receipt'
+                ? 'Check the bill and split it.'
+                : scanType === 'label'
+                ? 'Check packaged food for your allergens.'
                 : 'Identify ingredients and nutrition.'}
           </p>
         </div>
 
         {/* Scan Type Toggle */}
-        <div className="flex p-1.5 bg-gray-200/50 dark:bg-surface-dark border border-white/50 dark:border-white/5 rounded-full mb-8 backdrop-blur-md relative shadow-inner w-[200px]">
+        <div className="flex p-1.5 bg-gray-200/50 dark:bg-surface-dark border border-white/50 dark:border-white/5 rounded-full mb-8 backdrop-blur-md relative shadow-inner w-[360px] max-w-full">
              <button 
                 onClick={() => setScanType('dish')}
                 className={`flex-1 flex items-center justify-center gap-2 py-2.5 rounded-full text-sm font-bold transition-all duration-300 ${scanType === 'dish' ? 'bg-white dark:bg-gray-800 text-primary shadow-sm' : 'text-gray-500 dark:text-gray-400 hover:text-gray-700'}`}
@@ -76,6 +103,20 @@ export const Home: React.FC<HomeProps> = ({
                 <span className="material-symbols-outlined text-[18px]">menu_book</span>
                 Menu
              </button>
+             <button 
+                onClick={() => setScanType('receipt')}
+                className={`flex-1 flex items-center justify-center gap-2 py-2.5 rounded-full text-sm font-bold transition-all duration-300 ${scanType === 'receipt' ? 'bg-white dark:bg-gray-800 text-primary shadow-sm' : 'text-gray-500 dark:text-gray-400 hover:text-gray-700'}`}
+             >
+                <span className="material-symbols-outlined text-[18px]">receipt_long</span>
+                Receipt
+             </button>
+             <button 
+                onClick={() => setScanType('label')}
+                className={`flex-1 flex items-center justify-center gap-2 py-2.5 rounded-full text-sm font-bold transition-all duration-300 ${scanType === 'label' ? 'bg-white dark:bg-gray-800 text-primary shadow-sm' : 'text-gray-500 dark:text-gray-400 hover:text-gray-700'}`}
+             >
+                <span className="material-symbols-outlined text-[18px]">shopping_basket</span>
+                Label
+             </button>
         </div>
 
         {/* Language Selector */}
@@ -122,15 +163,59 @@ export const Home: React.FC<HomeProps> = ({
           />
         </div>
 
+        {/* Menu Pages Tray */}
+        {scanType === 'menu' && pendingPages.length > 0 && (
+          <div className="w-full max-w-[320px] flex flex-col gap-3 mb-2">
+            <div className="flex gap-2 overflow-x-auto no-scrollbar pb-1">
+              {pendingPages.map((page, index) => (
+                <div key={page} className="relative shrink-0 w-16 h-20 rounded-lg overflow-hidden border-2 border-white dark:border-gray-800 shadow-sm bg-gray-100">
+                  <img src={page} alt={`Page ${index + 1}`} className="w-full h-full object-cover" />
+                  <span className="absolute bottom-0.5 left-0.5 text-[10px] font-bold text-white bg-black/50 rounded px-1">{index + 1}</span>
+                  <button
+                    onClick={() => onRemovePage(index)}
+                    className="absolute top-0.5 right-0.5 flex items-center justify-center size-5 rounded-full bg-black/50 text-white hover:bg-black/70"
+                  >
+                    <span className="material-symbols-outlined text-[14px]">close</span>
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={onStartScan}
+              className="flex items-center justify-center gap-2 w-full py-3 rounded-xl bg-primary hover:bg-primary-dark text-white text-sm font-bold shadow-md active:scale-95 transition-all"
+            >
+              <span className="material-symbols-outlined text-[18px]">document_scanner</span>
+              Scan {pendingPages.length} Page{pendingPages.length !== 1 ? 's' : ''}
+            </button>
+          </div>
+        )}
+
         <div className="flex flex-col items-center gap-4 mt-2">
           <span className="text-sm font-semibold text-primary uppercase tracking-wider bg-primary/10 px-4 py-1.5 rounded-full">
-            Tap to start
+            {scanType === 'menu' && pendingPages.length > 0 ? 'Tap to add a page' : 'Tap to start'}
           </span>
+          <button
+            onClick={triggerFilePicker}
+            className="flex items-center gap-1 text-xs font-bold text-gray-500 dark:text-gray-400 hover:text-primary transition-colors"
+          >
+            <span className="material-symbols-outlined text-[16px]">photo_library</span>
+            Upload a photo instead
+          </button>
           <p className="text-xs text-gray-400 dark:text-gray-500 font-medium">
-            AI-Powered {scanType === 'menu' ? 'Menu' : 'Food'} Analysis
+            AI-Powered {scanType === 'menu' ? 'Menu' : scanType === 'receipt' ? 'Receipt' : scanType === 'label' ? 'Label' : 'Food'} Analysis
           </p>
         </div>
       </main>
+
+      {showCamera && (
+        <CameraViewfinder
+          scanType={scanType}
+          capturedPages={pendingPages}
+          onCapture={handleCapture}
+          onPickFile={triggerFilePicker}
+          onClose={() => setShowCamera(false)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
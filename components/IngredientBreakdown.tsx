@@ -0,0 +1,49 @@
+import React from 'react';
+import { AllergenCode, Ingredient, IngredientPresence } from '../types';
+
+interface IngredientBreakdownProps {
+    ingredients: Ingredient[];
+    highlightedAllergen: AllergenCode | null; // Source ingredients of this allergen are highlighted, the rest dimmed
+}
+
+const PRESENCE_GROUPS: { presence: IngredientPresence; label: string; icon: string }[] = [
+    { presence: 'visible', label: 'Visible', icon: 'visibility' },
+    { presence: 'typical', label: 'Usually in it', icon: 'menu_book' },
+    { presence: 'possible', label: 'Sometimes in it', icon: 'help' }
+];
+
+export const IngredientBreakdown: React.FC<IngredientBreakdownProps> = ({ ingredients, highlightedAllergen }) => (
+    <div className="flex flex-col gap-3">
+        <h4 className="text-xs font-bold text-gray-400 uppercase tracking-wider">Ingredients</h4>
+        {PRESENCE_GROUPS.map(({ presence, label, icon }) => {
+            const group = ingredients.filter(i => i.presence === presence);
+            if (group.length === 0) return null;
+            return (
+                <div key={presence} className="flex items-start gap-2">
+                    <span className="material-symbols-outlined text-[16px] text-gray-400 mt-1" title={label}>{icon}</span>
+                    <div className="flex-1 flex flex-col gap-1.5">
+                        <span className="text-[10px] font-bold uppercase tracking-wider text-gray-400">{label}</span>
+                        <div className="flex flex-wrap gap-1.5">
+                            {group.map((ingredient, i) => {
+                                const isSource = !!highlightedAllergen && ingredient.allergens.includes(highlightedAllergen);
+                                return (
+                                    <span
+                                        key={`${ingredient.name}-${i}`}
+                                        className={`inline-flex items-center gap-1 rounded-md px-2 py-1 text-xs font-bold transition-all ${isSource
+                                            ? 'bg-red-600 text-white shadow-md scale-105'
+                                            : `bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-200 ${highlightedAllergen ? 'opacity-40' : ''}`} ${presence === 'possible' && !isSource ? 'border border-dashed border-gray-300 dark:border-gray-600' : ''}`}
+                                    >
+                                        {ingredient.name}
+                                        {ingredient.allergens.length > 0 && !isSource && (
+                                            <span className="size-1.5 rounded-full bg-red-500" title="Allergen source"></span>
+                                        )}
+                                    </span>
+                                );
+                            })}
+                        </div>
+                    </div>
+                </div>
+            );
+        })}
+    </div>
+);
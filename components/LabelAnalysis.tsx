@@ -0,0 +1,113 @@
+import React from 'react';
+import { Language, LabelVerdict, ProductLabel } from '../types';
+import { getAllergenLabel } from '../lib/allergens';
+import { assessLabel, FlaggedIngredient, highlightLabelText, LabelFlag } from '../lib/labels';
+
+interface LabelAnalysisProps {
+    label: ProductLabel;
+    originalLanguage?: string; // BCP 47 tag of the printed text
+    userAllergens: string[];
+    language: Language; // For allergen labels
+}
+
+const VERDICT_STYLES: Record<LabelVerdict, { icon: string; title: string; className: string }> = {
+    safe: { icon: 'verified_user', title: 'No allergens from your profile', className: 'bg-green-600' },
+    unsafe: { icon: 'dangerous', title: 'Not safe for you', className: 'bg-red-600' },
+    uncertain: { icon: 'gpp_maybe', title: 'May not be safe for you', className: 'bg-amber-500' }
+};
+
+const FLAG_CLASSES: Record<LabelFlag, string> = {
+    unsafe: 'bg-red-600 text-white',
+    uncertain: 'bg-amber-200 dark:bg-amber-700/60 text-amber-900 dark:text-amber-100'
+};
+
+// Printed text with the problem words marked
+const HighlightedText: React.FC<{ text: string; flagged: FlaggedIngredient[]; lang?: string }> = ({ text, flagged, lang }) => (
+    <p lang={lang} className="text-base leading-relaxed text-gray-900 dark:text-white">
+        {highlightLabelText(text, flagged).map((segment, i) => segment.flag
+            ? <mark key={i} className={`rounded px-0.5 font-bold ${FLAG_CLASSES[segment.flag]}`}>{segment.text}</mark>
+            : <span key={i}>{segment.text}</span>)}
+    </p>
+);
+
+// Ingredient label of a packaged product checked against the user's allergens ('label' scans)
+export const LabelAnalysis: React.FC<LabelAnalysisProps> = ({ label, originalLanguage, userAllergens, language }) => {
+    const assessment = assessLabel(label, userAllergens);
+    const { verdict } = assessment;
+    const toLabels = (allergens: string[]) => allergens.map(allergen => getAllergenLabel(allergen, language)).join(', ');
+
+    const getIngredientClass = (flagged: FlaggedIngredient | undefined) => flagged
+        ? FLAG_CLASSES[flagged.flag]
+        : 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-200';
+
+    return (
+        <div className="flex flex-col gap-4">
+            {/* Verdict */}
+            {verdict ? (
+                <div className={`flex items-start gap-3 p-3 rounded-xl text-white shadow-md ${VERDICT_STYLES[verdict].className}`} role={verdict === 'safe' ? 'status' : 'alert'}>
+                    <span className="material-symbols-filled text-[22px] shrink-0">{VERDICT_STYLES[verdict].icon}</span>
+                    <div className="flex flex-col gap-0.5">
+                        <p className="text-sm font-bold leading-tight">{VERDICT_STYLES[verdict].title}</p>
+                        {assessment.unsafe.length > 0 && (
+                            <p className="text-xs font-medium text-white/90">Contains: {toLabels(assessment.unsafe)}</p>
+                        )}
+                        {assessment.uncertain.length > 0 && (
+                            <p className="text-xs font-medium text-white/90">May contain: {toLabels(assessment.uncertain)}</p>
+                        )}
+                        {verdict === 'uncertain' && label.ingredients.length === 0 && (
+                            <p className="text-xs font-medium text-white/90">The ingredients could not be told apart.</p>
+                        )}
+                        {verdict === 'safe' && (
+                            <p className="text-xs font-medium text-white/90">Checked for: {toLabels(userAllergens)}</p>
+                        )}
+                    </div>
+                </div>
+            ) : (
+                <div className="flex items-center gap-3 p-3 rounded-xl bg-gray-100 dark:bg-white/5 text-gray-600 dark:text-gray-300">
+                    <span className="material-symbols-outlined text-[22px] shrink-0">person</span>
+                    <p className="text-xs font-medium">Add your allergies in your profile to check this product against them.</p>
+                </div>
+            )}
+
+            {/* Ingredient list as printed */}
+            <div className="flex flex-col gap-2">
+                <h4 className="text-xs font-bold text-gray-400 uppercase tracking-wider">Ingredients (as printed)</h4>
+                <HighlightedText text={label.ingredientsText} flagged={assessment.ingredients} lang={originalLanguage} />
+                {label.ingredientsTranslated && (
+                    <p className="text-sm leading-relaxed text-[#6b5850] dark:text-[#a89f9b]">{label.ingredientsTranslated}</p>
+                )}
+            </div>
+
+            {label.ingredients.length > 0 && (
+                <div className="flex flex-wrap gap-1.5">
+                    {label.ingredients.map((ingredient, idx) => {
+                        const flagged = assessment.ingredients.find(f => f.ingredient === ingredient);
+                        return (
+                            <span
+                                key={idx}
+                                className={`inline-flex items-center gap-1 rounded-md px-2 py-1 text-xs font-bold ${getIngredientClass(flagged)} ${ingredient.uncertain ? 'border border-dashed border-gray-300 dark:border-gray-600' : ''}`}
+                                title={ingredient.allergens.length > 0 ? `${ingredient.uncertain ? 'May contain' : 'Contains'}: ${toLabels(ingredient.allergens)}` : undefined}
+                            >
+                                {ingredient.name}
+                                {ingredient.uncertain && <span className="material-symbols-outlined text-[14px]">help</span>}
+                            </span>
+                        );
+                    })}
+                </div>
+            )}
+
+            {/* "May contain" statement */}
+            {label.mayContainText && (
+                <div className="flex flex-col gap-2 pt-3 border-t border-gray-100 dark:border-gray-800/50">
+                    <h4 className="text-xs font-bold text-gray-400 uppercase tracking-wider">May contain</h4>
+                    <HighlightedText text={label.mayContainText} flagged={assessment.mayContain} lang={originalLanguage} />
+                    {label.mayContainTranslated && (
+                        <p className="text-sm leading-relaxed text-[#6b5850] dark:text-[#a89f9b]">{label.mayContainTranslated}</p>
+                    )}
+                </div>
+            )}
+
+            <p className="text-[10px] text-gray-400">Recipes change. Check the package again if in doubt.</p>
+        </div>
+    );
+};
@@ -0,0 +1,30 @@
+import React from 'react';
+import { Nutrition } from '../types';
+import { NUTRIENTS, formatNutritionRange } from '../lib/nutrition';
+
+interface NutritionFactsProps {
+    nutrition?: Nutrition;
+}
+
+// Estimated ranges per typical portion; renders nothing for dishes scanned without nutrition
+export const NutritionFacts: React.FC<NutritionFactsProps> = ({ nutrition }) => {
+    const rows = NUTRIENTS.filter(({ key }) => nutrition?.[key]);
+    if (rows.length === 0) return null;
+
+    return (
+        <div className="flex flex-col gap-2">
+            <div className="flex items-baseline justify-between">
+                <h4 className="text-xs font-bold text-gray-400 uppercase tracking-wider">Nutrition</h4>
+                <span className="text-[10px] text-gray-400">Estimate per portion</span>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+                {rows.map(({ key, label, unit }) => (
+                    <div key={key} className="flex flex-col rounded-xl bg-gray-50 dark:bg-white/5 px-3 py-2">
+                        <span className="text-[10px] font-bold uppercase tracking-wider text-gray-400">{label}</span>
+                        <span className="text-sm font-bold text-gray-900 dark:text-white">{formatNutritionRange(nutrition![key]!, unit)}</span>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,141 @@
+import React from 'react';
+import { createPortal } from 'react-dom';
+import { Language, Order } from '../types';
+import { CHEF_CARD_DATA, LANGUAGES, ORDER_CARD_DATA } from '../constants';
+import { getAllergenLabel } from '../lib/allergens';
+import { formatPrice } from '../lib/currency';
+import { countOrderItems, getOrderTotal } from '../lib/orders';
+
+interface OrderCardProps {
+    order: Order;
+    userAllergens: string[];
+    isTranslating?: boolean;
+    onLanguageChange?: (language: Language) => void; // Omitted for past orders, which are shown as they were
+    onClose: () => void;
+}
+
+// Full-screen card to hand to the waiter: the diner's summary on top, the order in the restaurant's language below
+export const OrderCard: React.FC<OrderCardProps> = ({ order, userAllergens, isTranslating = false, onLanguageChange, onClose }) => {
+    const cardLanguage = order.language;
+    const total = getOrderTotal(order.items);
+    const itemCount = countOrderItems(order);
+
+    return createPortal(
+        <div className="fixed inset-0 z-[9999] flex flex-col bg-white dark:bg-[#1a1a1a] animate-[fadeIn_0.2s_ease-out] font-display">
+
+            {/* Close Button */}
+            <button
+                onClick={onClose}
+                className="absolute top-3 right-3 z-50 size-8 rounded-full bg-gray-100/80 dark:bg-white/10 backdrop-blur-sm flex items-center justify-center text-gray-600 dark:text-white hover:bg-gray-200 dark:hover:bg-white/20 transition-colors shadow-sm"
+            >
+                <span className="material-symbols-outlined text-[20px]">close</span>
+            </button>
+
+            <div className="overflow-y-auto no-scrollbar flex-1 flex flex-col">
+
+                {/* 1. DINER'S SUMMARY (Top) */}
+                <div className="p-6 pt-5 bg-white dark:bg-[#1a1a1a] shadow-sm relative z-10">
+                    <div className="flex items-center gap-2 mb-3 opacity-50">
+                        <span className="material-symbols-outlined text-[16px]">receipt_long</span>
+                        <span className="text-xs font-bold uppercase tracking-wider">Your order · {itemCount} item{itemCount !== 1 ? 's' : ''}</span>
+                    </div>
+                    <ul className="flex flex-col gap-1">
+                        {order.items.map(item => (
+                            <li key={item.dishId} className="flex justify-between gap-3 text-sm text-gray-700 dark:text-gray-300">
+                                <span className="truncate">{item.quantity} × {item.name}</span>
+                                {item.price !== undefined && (
+                                    <span className="shrink-0 font-medium">{formatPrice(item.price * item.quantity, item.currency)}</span>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                    {total && (
+                        <div className="flex justify-between mt-2 pt-2 border-t border-gray-100 dark:border-white/10 text-sm font-bold text-gray-900 dark:text-white">
+                            <span>Total</span>
+                            <span>{formatPrice(total.amount, total.currency)}</span>
+                        </div>
+                    )}
+                    {onLanguageChange && (
+                        <label className="flex items-center justify-between gap-3 mt-4 text-xs font-bold text-gray-500 dark:text-gray-400">
+                            <span className="flex items-center gap-1">
+                                <span className="material-symbols-outlined text-[16px]">translate</span>
+                                Card language
+                            </span>
+                            <select
+                                value={cardLanguage}
+                                onChange={(e) => onLanguageChange(e.target.value as Language)}
+                                className="bg-gray-50 dark:bg-black/30 border border-gray-200 dark:border-gray-700 rounded-lg py-1 pl-2 pr-7 text-xs font-bold text-gray-900 dark:text-white"
+                            >
+                                {LANGUAGES.map(lang => <option key={lang} value={lang}>{lang}</option>)}
+                            </select>
+                        </label>
+                    )}
+                </div>
+
+                {/* 2. FOR THE WAITER (Restaurant's language) */}
+                <div className="p-6 pt-8 text-white bg-primary flex-1">
+                    <div className="text-center mb-6">
+                        <span className="material-symbols-outlined text-[40px] mb-2 text-white/90">room_service</span>
+                        <h1 className="text-2xl font-black uppercase tracking-wide text-white">
+                            {ORDER_CARD_DATA[cardLanguage].title}
+                        </h1>
+                    </div>
+
+                    <div className="flex flex-col gap-6">
+                        <ul className="flex flex-col gap-3">
+                            {order.items.map(item => (
+                                <li key={item.dishId} className="bg-white/10 p-4 rounded-xl border border-white/20">
+                                    <div className="flex items-baseline gap-3">
+                                        <span className="text-2xl font-black shrink-0">{item.quantity} ×</span>
+                                        <span className="text-2xl font-bold leading-tight">{item.originalName}</span>
+                                    </div>
+                                    {(item.requests.length > 0 || item.note) && (
+                                        <div className="flex flex-wrap gap-2 mt-3">
+                                            {item.requests.map(request => (
+                                                <span key={request} className="bg-white text-primary px-3 py-1 rounded-lg font-bold text-base shadow-sm">
+                                                    {ORDER_CARD_DATA[cardLanguage].requests[request]}
+                                                </span>
+                                            ))}
+                                            {item.note && (
+                                                isTranslating ? (
+                                                    <span className="size-5 border-2 border-white border-t-transparent rounded-full animate-spin"></span>
+                                                ) : (
+                                                    <span className="bg-white text-primary px-3 py-1 rounded-lg font-bold text-base shadow-sm">
+                                                        {item.noteTranslated || item.note}
+                                                    </span>
+                                                )
+                                            )}
+                                        </div>
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+
+                        {userAllergens.length > 0 && (
+                            <div>
+                                <p className="text-sm font-bold text-white/70 mb-2 uppercase tracking-wide">
+                                    {CHEF_CARD_DATA[cardLanguage].allergyWarning}
+                                </p>
+                                <div className="flex flex-wrap gap-2">
+                                    {userAllergens.map(allergen => (
+                                        <div key={allergen} className="bg-white text-red-600 px-3 py-1.5 rounded-lg font-bold text-lg shadow-sm">
+                                            {/* Translate allergen codes, custom entries as typed */}
+                                            {getAllergenLabel(allergen, cardLanguage)}
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
+                        <div className="text-center pt-4 border-t border-white/20">
+                            <p className="text-lg font-bold text-white">
+                                {CHEF_CARD_DATA[cardLanguage].thankYou}
+                            </p>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>,
+        document.body
+    );
+};
@@ -0,0 +1,135 @@
+import React from 'react';
+import { createPortal } from 'react-dom';
+import { OrderItem, OrderRequest } from '../types';
+import { ORDER_CARD_DATA, ORDER_REQUESTS } from '../constants';
+import { formatPrice } from '../lib/currency';
+import { countOrderItems, getOrderTotal } from '../lib/orders';
+
+interface OrderSheetProps {
+    items: OrderItem[];
+    isPreparing: boolean; // Translating notes and saving before the card opens
+    onChange: (items: OrderItem[]) => void;
+    onShowCard: () => void;
+    onClose: () => void;
+}
+
+// Bottom sheet to adjust quantities and per-item requests before showing the order to the waiter
+export const OrderSheet: React.FC<OrderSheetProps> = ({ items, isPreparing, onChange, onShowCard, onClose }) => {
+    const total = getOrderTotal(items);
+    const itemCount = countOrderItems({ items });
+
+    const updateItem = (dishId: string, update: (item: OrderItem) => OrderItem | null) => {
+        onChange(items.flatMap(item => {
+            if (item.dishId !== dishId) return [item];
+            const updated = update(item);
+            return updated ? [updated] : [];
+        }));
+    };
+
+    const changeQuantity = (dishId: string, delta: number) =>
+        updateItem(dishId, item => (item.quantity + delta > 0 ? { ...item, quantity: item.quantity + delta } : null));
+
+    const toggleRequest = (dishId: string, request: OrderRequest) =>
+        updateItem(dishId, item => ({
+            ...item,
+            requests: item.requests.includes(request) ? item.requests.filter(r => r !== request) : [...item.requests, request]
+        }));
+
+    const changeNote = (dishId: string, note: string) =>
+        updateItem(dishId, ({ noteTranslated, ...item }) => ({ ...item, note: note || undefined }));
+
+    return createPortal(
+        <div className="fixed inset-0 z-[9998] flex items-end sm:items-center justify-center font-display">
+            <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose}></div>
+
+            <div className="relative w-full max-w-md bg-white dark:bg-[#1a1a1a] rounded-t-3xl sm:rounded-3xl shadow-2xl animate-[slideUp_0.3s_ease-out] max-h-[90vh] flex flex-col">
+                <div className="flex items-center justify-between p-5 pb-3 border-b border-gray-100 dark:border-white/10">
+                    <div>
+                        <h3 className="text-lg font-bold text-gray-900 dark:text-white">Your Order</h3>
+                        <p className="text-xs text-gray-500">{itemCount} item{itemCount !== 1 ? 's' : ''}</p>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="size-8 rounded-full bg-gray-100 dark:bg-white/10 flex items-center justify-center text-gray-600 dark:text-white"
+                    >
+                        <span className="material-symbols-outlined text-[20px]">close</span>
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto no-scrollbar p-5 flex flex-col gap-5">
+                    {items.map(item => (
+                        <div key={item.dishId} className="flex flex-col gap-2">
+                            <div className="flex items-center gap-3">
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-sm font-bold text-gray-900 dark:text-white truncate">{item.name}</p>
+                                    <p className="text-xs font-medium text-primary truncate">{item.originalName}</p>
+                                </div>
+                                {item.price !== undefined && (
+                                    <span className="text-xs font-bold text-gray-500 shrink-0">{formatPrice(item.price * item.quantity, item.currency)}</span>
+                                )}
+                                <div className="flex items-center gap-1 shrink-0 bg-gray-100 dark:bg-white/10 rounded-full p-0.5">
+                                    <button
+                                        onClick={() => changeQuantity(item.dishId, -1)}
+                                        className="size-7 rounded-full flex items-center justify-center text-gray-600 dark:text-gray-300 hover:bg-white dark:hover:bg-white/10"
+                                        aria-label={item.quantity === 1 ? 'Remove' : 'One less'}
+                                    >
+                                        <span className="material-symbols-outlined text-[18px]">{item.quantity === 1 ? 'delete' : 'remove'}</span>
+                                    </button>
+                                    <span className="w-5 text-center text-sm font-bold text-gray-900 dark:text-white">{item.quantity}</span>
+                                    <button
+                                        onClick={() => changeQuantity(item.dishId, 1)}
+                                        className="size-7 rounded-full flex items-center justify-center text-gray-600 dark:text-gray-300 hover:bg-white dark:hover:bg-white/10"
+                                        aria-label="One more"
+                                    >
+                                        <span className="material-symbols-outlined text-[18px]">add</span>
+                                    </button>
+                                </div>
+                            </div>
+                            <div className="flex flex-wrap gap-1.5">
+                                {ORDER_REQUESTS.map(request => {
+                                    const isActive = item.requests.includes(request);
+                                    return (
+                                        <button
+                                            key={request}
+                                            onClick={() => toggleRequest(item.dishId, request)}
+                                            className={`px-2.5 py-1 rounded-full text-xs font-bold border transition-colors ${isActive ? 'bg-primary border-primary text-white' : 'border-gray-200 dark:border-gray-700 text-gray-500 dark:text-gray-400'}`}
+                                        >
+                                            {ORDER_CARD_DATA['English'].requests[request]}
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                            <input
+                                type="text"
+                                value={item.note || ''}
+                                onChange={(e) => changeNote(item.dishId, e.target.value)}
+                                placeholder="Other request (e.g. no peanuts on top)"
+                                className="w-full px-3 py-2 rounded-lg bg-gray-50 dark:bg-black/30 border border-gray-200 dark:border-gray-700 text-sm text-gray-900 dark:text-white focus:ring-2 focus:ring-primary/50 outline-none"
+                            />
+                        </div>
+                    ))}
+                </div>
+
+                <div className="p-5 pt-3 border-t border-gray-100 dark:border-white/10">
+                    {total && (
+                        <div className="flex justify-between mb-3 text-sm font-bold text-gray-900 dark:text-white">
+                            <span>Total</span>
+                            <span>{formatPrice(total.amount, total.currency)}</span>
+                        </div>
+                    )}
+                    <button
+                        onClick={onShowCard}
+                        disabled={items.length === 0 || isPreparing}
+                        className="w-full flex items-center justify-center gap-2 bg-primary text-white py-3 rounded-xl font-bold shadow-lg hover:bg-primary-dark transition-colors disabled:opacity-60"
+                    >
+                        {isPreparing
+                            ? <span className="size-5 border-2 border-white/30 border-t-white rounded-full animate-spin"></span>
+                            : <span className="material-symbols-outlined text-[20px]">room_service</span>}
+                        Show to Waiter
+                    </button>
+                </div>
+            </div>
+        </div>,
+        document.body
+    );
+};
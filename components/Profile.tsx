@@ -2,8 +2,9 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { createPortal } from 'react-dom';
 import { GoogleGenAI } from "@google/genai";
-import { Language } from '../types';
-import { LANGUAGES, COMMON_ALLERGENS, CHEF_CARD_DATA } from '../constants';
+import { ExchangeRates, Language } from '../types';
+import { LANGUAGES, COMMON_ALLERGENS, CHEF_CARD_DATA, CURRENCIES, DEFAULT_HOME_CURRENCY } from '../constants';
+import { getAllergenLabel } from '../lib/allergens';
 
 
 interface ProfileProps {
@@ -49,6 +50,14 @@ export const Profile: React.FC<ProfileProps> = ({
     const [translatedNotes, setTranslatedNotes] = useState("");
     const [isTranslating, setIsTranslating] = useState(false);
 
+    // Currency State: rates are home-currency units per 1 foreign unit
+    const [homeCurrency, setHomeCurrency] = useState(DEFAULT_HOME_CURRENCY);
+    const [exchangeRates, setExchangeRates] = useState<ExchangeRates>({});
+    const [newRateCurrency, setNewRateCurrency] = useState("");
+    const [newRateValue, setNewRateValue] = useState("");
+
+    const [hideNutrition, setHideNutrition] = useState(false);
+
     // Sync from props
     useEffect(() => {
         if (userProfile) {
@@ -56,6 +65,9 @@ export const Profile: React.FC<ProfileProps> = ({
             if (userProfile.allergens) setSelectedAllergens(userProfile.allergens);
             if (userProfile.dietary_notes) setDietaryNotes(userProfile.dietary_notes);
             if (userProfile.avatar_url) setAvatar(userProfile.avatar_url);
+            if (userProfile.home_currency) setHomeCurrency(userProfile.home_currency);
+            if (userProfile.exchange_rates) setExchangeRates(userProfile.exchange_rates);
+            setHideNutrition(!!userProfile.hide_nutrition);
         }
     }, [userProfile]);
 
@@ -130,6 +142,40 @@ export const Profile: React.FC<ProfileProps> = ({
         onUpdateProfile({ dietary_notes: dietaryNotes });
     };
 
+    const handleToggleNutrition = () => {
+        setHideNutrition(!hideNutrition);
+        onUpdateProfile({ hide_nutrition: !hideNutrition });
+    };
+
+    const handleHomeCurrencyChange = (currency: string) => {
+        setHomeCurrency(currency);
+        onUpdateProfile({ home_currency: currency });
+    };
+
+    const saveExchangeRates = (rates: ExchangeRates) => {
+        setExchangeRates(rates);
+        onUpdateProfile({ exchange_rates: rates });
+    };
+
+    const handleRateChange = (currency: string, value: string) => {
+        const rate = parseFloat(value);
+        if (!Number.isFinite(rate) || rate <= 0 || rate === exchangeRates[currency]) return;
+        saveExchangeRates({ ...exchangeRates, [currency]: rate });
+    };
+
+    const handleRemoveRate = (currency: string) => {
+        const { [currency]: _removed, ...rest } = exchangeRates;
+        saveExchangeRates(rest);
+    };
+
+    const handleAddRate = () => {
+        const rate = parseFloat(newRateValue);
+        if (!newRateCurrency || !Number.isFinite(rate) || rate <= 0) return;
+        saveExchangeRates({ ...exchangeRates, [newRateCurrency]: rate });
+        setNewRateCurrency("");
+        setNewRateValue("");
+    };
+
     const handleShowCard = async () => {
         setShowChefCard(true);
 
@@ -269,7 +315,7 @@ export const Profile: React.FC<ProfileProps> = ({
                                     >
                                         <option value="">Select common allergen...</option>
                                         {COMMON_ALLERGENS.map(a => (
-                                            <option key={a} value={a} disabled={selectedAllergens.includes(a)}>{a}</option>
+                                            <option key={a} value={a} disabled={selectedAllergens.includes(a)}>{getAllergenLabel(a, 'English')}</option>
                                         ))}
                                         <option value="custom">Custom / Other...</option>
                                     </select>
@@ -312,7 +358,7 @@ export const Profile: React.FC<ProfileProps> = ({
                                     <div className="flex flex-wrap gap-2 pt-2">
                                         {selectedAllergens.map(allergen => (
                                             <span key={allergen} className="inline-flex items-center px-2.5 py-1 rounded-full text-xs font-bold bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 border border-red-100 dark:border-red-900/30">
-                                                {allergen}
+                                                {getAllergenLabel(allergen, 'English')}
                                                 <button onClick={() => handleAllergenToggle(allergen)} className="ml-1.5 hover:text-red-900 dark:hover:text-white">
                                                     <span className="material-symbols-outlined text-[14px]">close</span>
                                                 </button>
@@ -344,7 +390,28 @@ export const Profile: React.FC<ProfileProps> = ({
                                 </button>
                             </div>
 
-                            {/* Row 3: Chef Card Trigger with Merged Language */}
+                            {/* Row 3: Nutrition Toggle */}
+                            <div className="p-4 flex items-center justify-between">
+                                <div className="flex items-center gap-2">
+                                    <div className="bg-green-100 dark:bg-green-900/30 text-green-600 dark:text-green-400 p-2 rounded-lg">
+                                        <span className="material-symbols-outlined text-[18px]">nutrition</span>
+                                    </div>
+                                    <div>
+                                        <span className="block text-sm font-semibold text-gray-900 dark:text-white">Show Nutrition</span>
+                                        <span className="block text-xs text-gray-400">Calorie and macro estimates</span>
+                                    </div>
+                                </div>
+                                <button
+                                    role="switch"
+                                    aria-checked={!hideNutrition}
+                                    onClick={handleToggleNutrition}
+                                    className={`relative w-11 h-6 rounded-full transition-colors ${hideNutrition ? 'bg-gray-200 dark:bg-gray-700' : 'bg-primary'}`}
+                                >
+                                    <span className={`absolute top-0.5 left-0.5 size-5 rounded-full bg-white shadow transition-transform ${hideNutrition ? '' : 'translate-x-5'}`}></span>
+                                </button>
+                            </div>
+
+                            {/* Row 4: Chef Card Trigger with Merged Language */}
                             <div className="p-4 bg-primary/5 dark:bg-primary/10 flex items-center justify-between">
                                 <div>
                                     <label className="block text-[10px] font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">
@@ -397,6 +464,96 @@ export const Profile: React.FC<ProfileProps> = ({
                         </div>
                     </div>
 
+                    <div className="px-6">
+                        <h3 className="text-xs font-bold text-gray-400 dark:text-gray-500 uppercase tracking-wider mb-3 px-2">Currency</h3>
+                        <div className="bg-surface-light dark:bg-surface-dark rounded-3xl shadow-sm border border-gray-100 dark:border-gray-800 overflow-hidden p-2">
+                            <div className="w-full flex items-center justify-between p-2">
+                                <div className="flex items-center gap-3">
+                                    <div className="bg-green-100 dark:bg-green-900/30 text-green-600 dark:text-green-400 p-2.5 rounded-xl">
+                                        <span className="material-symbols-outlined text-[20px]">payments</span>
+                                    </div>
+                                    <span className="text-sm font-semibold text-gray-900 dark:text-white">Home Currency</span>
+                                </div>
+
+                                <div className="relative">
+                                    <select
+                                        value={homeCurrency}
+                                        onChange={(e) => handleHomeCurrencyChange(e.target.value)}
+                                        className="appearance-none bg-none bg-gray-100 dark:bg-black/20 border border-transparent hover:border-gray-200 dark:hover:border-white/10 text-sm font-bold text-gray-700 dark:text-gray-200 py-2.5 pl-4 pr-8 rounded-xl cursor-pointer transition-all outline-none focus:ring-2 focus:ring-primary/50 w-[120px]"
+                                    >
+                                        {CURRENCIES.map(code => (
+                                            <option key={code} value={code}>{code}</option>
+                                        ))}
+                                    </select>
+                                    <div className="absolute inset-y-0 right-0 flex items-center pr-2 pointer-events-none">
+                                        <span className="material-symbols-outlined text-gray-500 text-[20px]">expand_more</span>
+                                    </div>
+                                </div>
+                            </div>
+
+                            {/* Exchange rate table, used offline to convert menu prices */}
+                            <div className="px-2 pb-2 pt-1 border-t border-gray-50 dark:border-gray-800/50 mt-1">
+                                <p className="text-xs text-gray-400 dark:text-gray-500 py-2">
+                                    Exchange rates (1 unit = ? {homeCurrency}). Prices in other currencies are shown unconverted.
+                                </p>
+                                <div className="flex flex-col gap-2">
+                                    {Object.entries(exchangeRates).filter(([code]) => code !== homeCurrency).map(([code, rate]) => (
+                                        <div key={code} className="flex items-center gap-2">
+                                            <span className="w-14 text-sm font-bold text-gray-700 dark:text-gray-200">1 {code}</span>
+                                            <span className="text-gray-400 text-sm">=</span>
+                                            <input
+                                                type="number"
+                                                inputMode="decimal"
+                                                min="0"
+                                                step="any"
+                                                defaultValue={rate}
+                                                onBlur={(e) => handleRateChange(code, e.target.value)}
+                                                className="flex-1 min-w-0 bg-gray-100 dark:bg-black/20 border-none rounded-xl px-3 py-2 text-sm font-medium text-gray-900 dark:text-white outline-none focus:ring-2 focus:ring-primary/50"
+                                            />
+                                            <span className="text-xs font-bold text-gray-400">{homeCurrency}</span>
+                                            <button
+                                                onClick={() => handleRemoveRate(code)}
+                                                className="size-8 flex items-center justify-center rounded-full text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                                            >
+                                                <span className="material-symbols-outlined text-[18px]">delete</span>
+                                            </button>
+                                        </div>
+                                    ))}
+                                    <div className="flex items-center gap-2">
+                                        <select
+                                            value={newRateCurrency}
+                                            onChange={(e) => setNewRateCurrency(e.target.value)}
+                                            className="w-20 appearance-none bg-gray-100 dark:bg-black/20 border-none rounded-xl px-3 py-2 text-sm font-bold text-gray-700 dark:text-gray-200 outline-none focus:ring-2 focus:ring-primary/50"
+                                        >
+                                            <option value="">Add…</option>
+                                            {CURRENCIES.filter(code => code !== homeCurrency && !(code in exchangeRates)).map(code => (
+                                                <option key={code} value={code}>{code}</option>
+                                            ))}
+                                        </select>
+                                        <input
+                                            type="number"
+                                            inputMode="decimal"
+                                            min="0"
+                                            step="any"
+                                            value={newRateValue}
+                                            onChange={(e) => setNewRateValue(e.target.value)}
+                                            onKeyDown={(e) => e.key === 'Enter' && handleAddRate()}
+                                            placeholder={`Rate in ${homeCurrency}`}
+                                            className="flex-1 min-w-0 bg-gray-100 dark:bg-black/20 border-none rounded-xl px-3 py-2 text-sm font-medium text-gray-900 dark:text-white outline-none focus:ring-2 focus:ring-primary/50"
+                                        />
+                                        <button
+                                            onClick={handleAddRate}
+                                            disabled={!newRateCurrency || !newRateValue}
+                                            className="size-8 flex items-center justify-center rounded-full bg-primary text-white disabled:opacity-40 transition-opacity"
+                                        >
+                                            <span className="material-symbols-outlined text-[18px]">add</span>
+                                        </button>
+                                    </div>
+                                </div>
+                            </div>
+                        </div>
+                    </div>
+
                     <div className="px-6 pb-6">
                         <h3 className="text-xs font-bold text-gray-400 dark:text-gray-500 uppercase tracking-wider mb-3 px-2">History & Data</h3>
                         <div className="bg-surface-light dark:bg-surface-dark rounded-3xl shadow-sm border border-gray-100 dark:border-gray-800 overflow-hidden">
@@ -501,8 +658,8 @@ export const Profile: React.FC<ProfileProps> = ({
                                                     <div className="flex flex-wrap gap-1.5">
                                                         {selectedAllergens.map(allergen => (
                                                             <div key={allergen} className="bg-red-50 dark:bg-red-900/10 text-red-700 dark:text-red-300 border border-red-100 dark:border-red-900/30 px-2.5 py-1 rounded-lg font-bold text-sm">
-                                                                {/* Display original allergen name if it's common, else just string */}
-                                                                {COMMON_ALLERGENS.includes(allergen) ? CHEF_CARD_DATA['English'].allergens[allergen] : allergen}
+                                                                {/* Display English label for allergen codes, custom entries as typed */}
+                                                                {getAllergenLabel(allergen, 'English')}
                                                             </div>
                                                         ))}
                                                     </div>
@@ -544,8 +701,8 @@ export const Profile: React.FC<ProfileProps> = ({
                                                     <div className="flex flex-wrap gap-2">
                                                         {selectedAllergens.map(allergen => (
                                                             <div key={allergen} className="bg-white text-red-600 px-3 py-1.5 rounded-lg font-bold text-lg shadow-sm">
-                                                                {/* Try to translate allergen, fallback to English/Original */}
-                                                                {CHEF_CARD_DATA[defaultLanguage].allergens[allergen] || allergen}
+                                                                {/* Translate allergen codes, custom entries as typed */}
+                                                                {getAllergenLabel(allergen, defaultLanguage)}
                                                             </div>
                                                         ))}
                                                     </div>
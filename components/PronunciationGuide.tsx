@@ -0,0 +1,80 @@
+import React, { useEffect, useState } from 'react';
+import { Dish } from '../types';
+import { getSpeechLanguage, hasVoiceFor, speak, stopSpeaking } from '../lib/speech';
+
+interface PronunciationGuideProps {
+    dish: Dish;
+}
+
+type Playback = 'normal' | 'slow';
+
+// Romanized name plus buttons that read the original name aloud, for ordering out loud
+export const PronunciationGuide: React.FC<PronunciationGuideProps> = ({ dish }) => {
+    const lang = getSpeechLanguage(dish);
+    const [canSpeak, setCanSpeak] = useState(false);
+    const [playing, setPlaying] = useState<Playback | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        setCanSpeak(false);
+        setError(null);
+        if (lang) hasVoiceFor(lang).then(ok => { if (!cancelled) setCanSpeak(ok); });
+        return () => {
+            cancelled = true;
+            stopSpeaking();
+        };
+    }, [lang, dish.id]);
+
+    const handleSpeak = async (playback: Playback) => {
+        if (!lang) return;
+        if (playing === playback) {
+            stopSpeaking();
+            return;
+        }
+        setError(null);
+        setPlaying(playback);
+        try {
+            await speak(dish.originalName, lang, { slow: playback === 'slow' });
+        } catch (err) {
+            console.error('Error reading dish name aloud:', err);
+            setError("Couldn't play the name on this device");
+        } finally {
+            setPlaying(current => (current === playback ? null : current));
+        }
+    };
+
+    if (!dish.pronunciation && !canSpeak) return null;
+
+    return (
+        <div className="flex flex-col gap-1 mt-1">
+            <div className="flex items-center gap-2">
+                {dish.pronunciation && (
+                    <p className="text-sm text-gray-500 dark:text-gray-400 tracking-wide">{dish.pronunciation}</p>
+                )}
+                {canSpeak && (
+                    <div className="flex items-center gap-1 shrink-0">
+                        <button
+                            onClick={() => handleSpeak('normal')}
+                            className={`size-8 flex items-center justify-center rounded-full transition-colors ${playing === 'normal' ? 'bg-primary text-white' : 'bg-primary/10 text-primary hover:bg-primary/20'}`}
+                            aria-label="Say the name"
+                            title="Say the name"
+                        >
+                            <span className="material-symbols-outlined text-[18px]">{playing === 'normal' ? 'stop' : 'volume_up'}</span>
+                        </button>
+                        <button
+                            onClick={() => handleSpeak('slow')}
+                            className={`h-8 px-2.5 flex items-center gap-1 rounded-full text-xs font-bold transition-colors ${playing === 'slow' ? 'bg-primary text-white' : 'bg-primary/10 text-primary hover:bg-primary/20'}`}
+                            aria-label="Say the name slowly"
+                            title="Say the name slowly"
+                        >
+                            <span className="material-symbols-outlined text-[16px]">{playing === 'slow' ? 'stop' : 'slow_motion_video'}</span>
+                            Slow
+                        </button>
+                    </div>
+                )}
+            </div>
+            {error && <p className="text-xs text-red-500">{error}</p>}
+        </div>
+    );
+};
@@ -0,0 +1,339 @@
+import React, { useState } from 'react';
+import { Diner, ExchangeRates, Receipt, ReceiptItem } from '../types';
+import { convertPrice, formatPrice, parsePrice } from '../lib/currency';
+import { checkReceiptTotal, splitReceipt } from '../lib/receipts';
+import { ReceiptRecognitionResult } from '../lib/recognition';
+
+interface ReceiptViewProps {
+    receipt: Receipt;
+    droppedLines?: ReceiptRecognitionResult['dropped']; // Lines of a fresh scan that couldn't be read
+    homeCurrency: string;
+    exchangeRates: ExchangeRates;
+    onBack: () => void;
+    onChange: (receipt: Receipt) => void; // Diners, items and their assignments; saved by the parent
+}
+
+// Receipt line items, the check against the printed total, and the split between diners
+export const ReceiptView: React.FC<ReceiptViewProps> = ({ receipt, droppedLines = [], homeCurrency, exchangeRates, onBack, onChange }) => {
+    const [newDinerName, setNewDinerName] = useState('');
+    // Lines typed in by hand, e.g. one that couldn't be read; fillingLine is the dropped line being retyped
+    const [newItemName, setNewItemName] = useState('');
+    const [newItemAmount, setNewItemAmount] = useState('');
+    const [fillingLine, setFillingLine] = useState<number | null>(null);
+    const [addedLines, setAddedLines] = useState<number[]>([]);
+    const pendingLines = droppedLines.map((line, index) => ({ line, index })).filter(({ index }) => !addedLines.includes(index));
+    const newItemPrice = parsePrice(newItemAmount, receipt.currency);
+    // Tapping an item assigns it to (or takes it from) this diner
+    const [activeDinerId, setActiveDinerId] = useState<string | null>(receipt.diners[0]?.id || null);
+
+    const check = checkReceiptTotal(receipt);
+    const split = splitReceipt(receipt);
+    const activeDiner = receipt.diners.find(d => d.id === activeDinerId) || null;
+
+    const money = (amount: number) => formatPrice(amount, receipt.currency);
+
+    // Amount in the home currency, when the user has a rate for the receipt's currency
+    const renderConverted = (amount: number) => {
+        if (!receipt.currency || receipt.currency === homeCurrency) return null;
+        const converted = convertPrice(amount, receipt.currency, homeCurrency, exchangeRates);
+        return converted !== null ? <span className="text-xs text-gray-400 font-medium">≈ {formatPrice(converted, homeCurrency)}</span> : null;
+    };
+
+    const updateItem = (itemId: string, update: (item: ReceiptItem) => ReceiptItem) =>
+        onChange({ ...receipt, items: receipt.items.map(item => item.id === itemId ? update(item) : item) });
+
+    const handleAddDiner = () => {
+        const name = newDinerName.trim();
+        if (!name) return;
+        const diner: Diner = { id: `diner-${Date.now()}`, name };
+        onChange({ ...receipt, diners: [...receipt.diners, diner] });
+        setActiveDinerId(diner.id);
+        setNewDinerName('');
+    };
+
+    const handleAddItem = () => {
+        const name = newItemName.trim();
+        if (!name || newItemPrice === undefined) return;
+        const item: ReceiptItem = { id: `item-${Date.now()}`, name, originalName: name, quantity: 1, amount: newItemPrice, dinerIds: [] };
+        onChange({ ...receipt, items: [...receipt.items, item] });
+        if (fillingLine !== null) setAddedLines(prev => [...prev, fillingLine]);
+        setFillingLine(null);
+        setNewItemName('');
+        setNewItemAmount('');
+    };
+
+    // Unnamed lines are listed as "#3"; their name has to be typed
+    const fillFromLine = (index: number) => {
+        const { item } = droppedLines[index];
+        setFillingLine(index);
+        setNewItemName(item.startsWith('#') ? '' : item);
+        setNewItemAmount('');
+    };
+
+    const handleRemoveDiner = (dinerId: string) => {
+        onChange({
+            ...receipt,
+            diners: receipt.diners.filter(d => d.id !== dinerId),
+            items: receipt.items.map(item => ({ ...item, dinerIds: item.dinerIds.filter(id => id !== dinerId) }))
+        });
+        if (activeDinerId === dinerId) setActiveDinerId(null);
+    };
+
+    const toggleAssignment = (item: ReceiptItem) => {
+        if (!activeDiner) return;
+        updateItem(item.id, i => ({
+            ...i,
+            dinerIds: i.dinerIds.includes(activeDiner.id) ? i.dinerIds.filter(id => id !== activeDiner.id) : [...i.dinerIds, activeDiner.id]
+        }));
+    };
+
+    const shareWithEveryone = (item: ReceiptItem) =>
+        updateItem(item.id, i => ({ ...i, dinerIds: receipt.diners.map(d => d.id) }));
+
+    const renderTotalsRow = (label: string, amount: number | undefined, options: { bold?: boolean; negative?: boolean } = {}) => {
+        if (amount === undefined) return null;
+        return (
+            <div className={`flex justify-between text-sm ${options.bold ? 'font-bold text-gray-900 dark:text-white' : 'text-gray-600 dark:text-gray-300'}`}>
+                <span>{label}</span>
+                <span>{options.negative ? '−' : ''}{money(amount)}</span>
+            </div>
+        );
+    };
+
+    return (
+        <div className="relative flex h-full w-full flex-col bg-background-light dark:bg-background-dark overflow-hidden">
+            <div className="absolute inset-0 opacity-5 pointer-events-none z-0" style={{ backgroundImage: 'radial-gradient(#e65000 1px, transparent 1px)', backgroundSize: '24px 24px' }}></div>
+
+            {/* Header */}
+            <header className="sticky top-0 z-40 flex items-center justify-between bg-white/80 dark:bg-[#1a1a1a]/80 backdrop-blur-md p-4 shadow-sm transition-colors border-b border-gray-200/20">
+                <button
+                    onClick={onBack}
+                    className="flex size-10 shrink-0 items-center justify-center rounded-full hover:bg-black/5 dark:hover:bg-white/10 active:scale-95 transition-all text-[#181310] dark:text-white"
+                >
+                    <span className="material-symbols-outlined">arrow_back</span>
+                </button>
+                <div className="text-center min-w-0">
+                    <h2 className="text-[#181310] dark:text-white text-lg font-bold leading-tight tracking-[-0.015em] truncate">
+                        {receipt.merchant || 'Receipt'}
+                    </h2>
+                    <p className="text-[10px] text-gray-500 font-bold uppercase tracking-wider">
+                        {receipt.items.length} Item{receipt.items.length !== 1 ? 's' : ''}{receipt.total !== undefined ? ` · ${money(receipt.total)}` : ''}
+                    </p>
+                </div>
+                <div className="size-10 shrink-0"></div>
+            </header>
+
+            <main className="relative z-10 flex-1 overflow-y-auto p-4 pb-24 no-scrollbar flex flex-col gap-4">
+
+                {/* Total check */}
+                {check.matches === true && (
+                    <div className="flex items-center gap-2 p-3 rounded-xl bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-900/40 text-sm font-bold text-green-700 dark:text-green-300">
+                        <span className="material-symbols-outlined text-[20px]">check_circle</span>
+                        Items add up to the printed total
+                    </div>
+                )}
+                {check.matches === false && (
+                    <div className="flex items-start gap-2 p-3 rounded-xl bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-900/40 text-sm text-amber-800 dark:text-amber-200">
+                        <span className="material-symbols-outlined text-[20px] shrink-0">warning</span>
+                        <div>
+                            <p className="font-bold">Items don't add up to the total</p>
+                            <p className="text-xs mt-0.5">
+                                Items and charges come to {money(check.expectedTotal)}, the receipt says {money(check.printedTotal!)} ({check.difference > 0 ? '+' : '−'}{money(Math.abs(check.difference))}). Check the receipt for a misread or missing line.
+                            </p>
+                        </div>
+                    </div>
+                )}
+
+                {/* Lines the scan couldn't read */}
+                {pendingLines.length > 0 && (
+                    <div className="flex items-start gap-2 p-3 rounded-xl bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-900/40 text-sm text-amber-800 dark:text-amber-200">
+                        <span className="material-symbols-outlined text-[20px] shrink-0">warning</span>
+                        <div className="flex-1 min-w-0">
+                            <p className="font-bold">{pendingLines.length} line{pendingLines.length !== 1 ? 's' : ''} couldn't be read</p>
+                            <p className="text-xs mt-0.5">Check them against the receipt and add the ones you had.</p>
+                            <ul className="flex flex-col gap-1.5 mt-2">
+                                {pendingLines.map(({ line, index }) => (
+                                    <li key={index} className="flex items-center gap-2">
+                                        <span className="flex-1 min-w-0 text-xs font-medium truncate">{line.text || line.item}</span>
+                                        <button
+                                            onClick={() => fillFromLine(index)}
+                                            className={`px-2 py-0.5 rounded-md text-[10px] font-bold border ${fillingLine === index ? 'bg-amber-600 border-amber-600 text-white' : 'border-amber-300 dark:border-amber-700'}`}
+                                        >
+                                            Add
+                                        </button>
+                                        <button
+                                            onClick={() => setAddedLines(prev => [...prev, index])}
+                                            className="size-5 flex items-center justify-center rounded-full hover:bg-black/10"
+                                            aria-label={`Dismiss ${line.item}`}
+                                        >
+                                            <span className="material-symbols-outlined text-[14px]">close</span>
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    </div>
+                )}
+
+                {/* Diners */}
+                <section className="flex flex-col gap-2 p-4 bg-white dark:bg-[#1a1a1a] rounded-xl shadow-sm border border-gray-100 dark:border-gray-800">
+                    <h3 className="text-sm font-bold uppercase tracking-wider text-gray-700 dark:text-gray-200">Who's paying</h3>
+                    {receipt.diners.length > 0 ? (
+                        <div className="flex flex-wrap gap-1.5">
+                            {receipt.diners.map(diner => (
+                                <span
+                                    key={diner.id}
+                                    className={`flex items-center gap-1 pl-3 pr-1 py-1 rounded-full text-xs font-bold border transition-colors ${activeDinerId === diner.id ? 'bg-primary border-primary text-white' : 'border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300'}`}
+                                >
+                                    <button onClick={() => setActiveDinerId(diner.id)}>{diner.name}</button>
+                                    <button
+                                        onClick={() => handleRemoveDiner(diner.id)}
+                                        className="size-5 flex items-center justify-center rounded-full hover:bg-black/10"
+                                        aria-label={`Remove ${diner.name}`}
+                                    >
+                                        <span className="material-symbols-outlined text-[14px]">close</span>
+                                    </button>
+                                </span>
+                            ))}
+                        </div>
+                    ) : (
+                        <p className="text-xs text-gray-500">Add the people at the table, then tap items to assign them.</p>
+                    )}
+                    <div className="flex gap-2">
+                        <input
+                            type="text"
+                            value={newDinerName}
+                            onChange={(e) => setNewDinerName(e.target.value)}
+                            onKeyDown={(e) => { if (e.key === 'Enter') handleAddDiner(); }}
+                            placeholder="Name"
+                            className="flex-1 min-w-0 px-3 py-2 rounded-lg bg-gray-50 dark:bg-black/30 border border-gray-200 dark:border-gray-700 text-sm text-gray-900 dark:text-white focus:ring-2 focus:ring-primary/50 outline-none"
+                        />
+                        <button
+                            onClick={handleAddDiner}
+                            disabled={!newDinerName.trim()}
+                            className="px-4 rounded-lg bg-primary text-white text-sm font-bold disabled:opacity-50"
+                        >
+                            Add
+                        </button>
+                    </div>
+                    {activeDiner && (
+                        <p className="text-xs font-bold text-primary">Tap items {activeDiner.name} had</p>
+                    )}
+                </section>
+
+                {/* Line items */}
+                <section className="flex flex-col gap-2">
+                    {receipt.items.map(item => {
+                        const isAssignedToActive = !!activeDiner && item.dinerIds.includes(activeDiner.id);
+                        const assigned = receipt.diners.filter(d => item.dinerIds.includes(d.id));
+                        return (
+                            <div
+                                key={item.id}
+                                onClick={() => toggleAssignment(item)}
+                                className={`flex flex-col gap-1.5 p-3 bg-white dark:bg-[#1a1a1a] rounded-xl shadow-sm border transition-colors ${activeDiner ? 'cursor-pointer' : ''} ${isAssignedToActive ? 'border-primary ring-1 ring-primary/30' : 'border-gray-100 dark:border-gray-800'}`}
+                            >
+                                <div className="flex items-start gap-3">
+                                    <span className="text-sm font-bold text-gray-400 shrink-0 w-7">{item.quantity}×</span>
+                                    <div className="flex-1 min-w-0">
+                                        <p className="text-sm font-bold text-gray-900 dark:text-white">{item.name}</p>
+                                        {item.originalName !== item.name && (
+                                            <p className="text-xs font-medium text-primary">{item.originalName}</p>
+                                        )}
+                                    </div>
+                                    <span className="text-sm font-bold text-gray-900 dark:text-white shrink-0">{money(item.amount)}</span>
+                                </div>
+                                {receipt.diners.length > 0 && (
+                                    <div className="flex items-center gap-1.5 pl-10">
+                                        {assigned.length > 0 ? assigned.map(diner => (
+                                            <span key={diner.id} className="px-2 py-0.5 rounded-md bg-primary/10 text-[10px] font-bold text-primary">{diner.name}</span>
+                                        )) : (
+                                            <span className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">Unassigned</span>
+                                        )}
+                                        {receipt.diners.length > 1 && assigned.length < receipt.diners.length && (
+                                            <button
+                                                onClick={(e) => { e.stopPropagation(); shareWithEveryone(item); }}
+                                                className="ml-auto text-[10px] font-bold text-gray-500 hover:text-primary"
+                                            >
+                                                Share with everyone
+                                            </button>
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                    <div className="flex gap-2">
+                        <input
+                            type="text"
+                            value={newItemName}
+                            onChange={(e) => setNewItemName(e.target.value)}
+                            placeholder="Missing item"
+                            className="flex-1 min-w-0 px-3 py-2 rounded-lg bg-gray-50 dark:bg-black/30 border border-gray-200 dark:border-gray-700 text-sm text-gray-900 dark:text-white focus:ring-2 focus:ring-primary/50 outline-none"
+                        />
+                        <input
+                            type="text"
+                            inputMode="decimal"
+                            value={newItemAmount}
+                            onChange={(e) => setNewItemAmount(e.target.value)}
+                            onKeyDown={(e) => { if (e.key === 'Enter') handleAddItem(); }}
+                            placeholder="Amount"
+                            className="w-24 px-3 py-2 rounded-lg bg-gray-50 dark:bg-black/30 border border-gray-200 dark:border-gray-700 text-sm text-gray-900 dark:text-white focus:ring-2 focus:ring-primary/50 outline-none"
+                        />
+                        <button
+                            onClick={handleAddItem}
+                            disabled={!newItemName.trim() || newItemPrice === undefined}
+                            className="px-4 rounded-lg bg-primary text-white text-sm font-bold disabled:opacity-50"
+                        >
+                            Add
+                        </button>
+                    </div>
+                </section>
+
+                {/* Totals */}
+                <section className="flex flex-col gap-1.5 p-4 bg-white dark:bg-[#1a1a1a] rounded-xl shadow-sm border border-gray-100 dark:border-gray-800">
+                    {renderTotalsRow('Items', check.itemsSum)}
+                    {receipt.subtotal !== undefined && receipt.subtotal !== check.itemsSum && renderTotalsRow('Subtotal (printed)', receipt.subtotal)}
+                    {renderTotalsRow(receipt.taxIncluded ? 'Tax (included)' : 'Tax', receipt.tax)}
+                    {renderTotalsRow('Service charge', receipt.serviceCharge)}
+                    {renderTotalsRow('Discount', receipt.discount, { negative: true })}
+                    <div className="pt-1.5 mt-1 border-t border-gray-100 dark:border-white/10">
+                        {renderTotalsRow('Total', receipt.total ?? check.expectedTotal, { bold: true })}
+                        <div className="flex justify-end">{renderConverted(receipt.total ?? check.expectedTotal)}</div>
+                    </div>
+                </section>
+
+                {/* Split */}
+                {split.shares.length > 0 && (
+                    <section className="flex flex-col gap-2 p-4 bg-white dark:bg-[#1a1a1a] rounded-xl shadow-sm border border-gray-100 dark:border-gray-800">
+                        <h3 className="text-sm font-bold uppercase tracking-wider text-gray-700 dark:text-gray-200">Split</h3>
+                        {split.shares.map(share => (
+                            <div key={share.diner.id} className="flex items-start justify-between gap-3">
+                                <div className="min-w-0">
+                                    <p className="text-sm font-bold text-gray-900 dark:text-white">{share.diner.name}</p>
+                                    <p className="text-xs text-gray-500 truncate">
+                                        {share.items.length > 0
+                                            ? share.items.map(({ item }) => item.dinerIds.length > 1 ? `${item.name} (shared)` : item.name).join(', ')
+                                            : 'Nothing assigned yet'}
+                                    </p>
+                                </div>
+                                <div className="flex flex-col items-end shrink-0">
+                                    <span className="text-sm font-bold text-gray-900 dark:text-white">{money(share.total)}</span>
+                                    {share.extras !== 0 && (
+                                        <span className="text-[10px] text-gray-400">incl. {money(share.extras)} charges</span>
+                                    )}
+                                    {renderConverted(share.total)}
+                                </div>
+                            </div>
+                        ))}
+                        {split.unassigned.length > 0 && (
+                            <div className="flex justify-between pt-2 border-t border-gray-100 dark:border-white/10 text-xs font-bold text-amber-600 dark:text-amber-400">
+                                <span>{split.unassigned.length} item{split.unassigned.length !== 1 ? 's' : ''} not assigned</span>
+                                <span>{money(split.unassignedAmount)}</span>
+                            </div>
+                        )}
+                    </section>
+                )}
+            </main>
+        </div>
+    );
+};
@@ -1,29 +1,185 @@
 
-import React, { useState } from 'react';
-import { Dish } from '../types';
+import React, { useEffect, useState } from 'react';
+import { AllergenCode, Dish, DishImageSource, ExchangeRates, Language, Order, OrderItem } from '../types';
+import { findAllergenConflicts, getAllergenLabel } from '../lib/allergens';
+import { describeConflicts, getAllergenText, isLowConfidence, isPossibleAllergen } from '../lib/confidence';
+import { convertPrice, formatPrice } from '../lib/currency';
+import { localizeDish } from '../lib/translation';
+import { groupBySection, hasMenuSections } from '../lib/menuSections';
+import { getPlaceholderImage } from '../lib/dishImages';
+import { countOrderItems, getRestaurantLanguage, toOrderItem, translateOrderNotes } from '../lib/orders';
+import { AllergenAlertBadge, AllergenAlertBanner } from './AllergenAlert';
+import { IdentityGuessNote, LowConfidenceBadge } from './ConfidenceBadge';
+import { NutritionFacts } from './NutritionFacts';
+import { IngredientBreakdown } from './IngredientBreakdown';
+import { DishQuestions } from './DishQuestions';
+import { PronunciationGuide } from './PronunciationGuide';
+import { TranslateMenu } from './TranslateMenu';
+import { OrderSheet } from './OrderSheet';
+import { OrderCard } from './OrderCard';
+import { LabelAnalysis } from './LabelAnalysis';
+import { ValidationReport } from '../lib/recognition';
 
 interface ResultsProps {
-    uploadedImage: string | null;
+    uploadedImages: string[]; // Source photos, one per page
     results: Dish[];
     savedIds: string[];
+    userAllergens: string[];
+    language: Language;
+    homeCurrency: string;
+    exchangeRates: ExchangeRates;
+    showNutrition: boolean;
     onBack: () => void;
     onSave: (id: string) => void;
+    onTranslate: (dishes: Dish[], language: Language) => Promise<void>;
+    onAskQuestion: (dish: Dish, question: string, imageUrl: string | null) => Promise<void>;
+    onRejectImage: (dish: Dish) => Promise<void>; // Marks the picture as wrong and resolves the next one
+    onSaveOrder: (order: Order) => Promise<Order>; // Inserts (or updates, when it has an id) and returns the stored order
+    isSaving?: boolean; // The scan is still being stored: dishes have local ids and no session yet
+    validationReport?: ValidationReport | null; // Dishes recognition repaired or left out, for a fresh scan
+    swappedDishIds?: Map<string, string>; // Local -> stored id of each dish, once the scan is stored
 }
 
-export const Results: React.FC<ResultsProps> = ({ uploadedImage, results, savedIds, onBack, onSave }) => {
+const IMAGE_SOURCE_LABELS: Record<DishImageSource, string> = {
+    scan: 'Your scan',
+    history: 'Your earlier photo',
+    search: 'Web image',
+    placeholder: 'No picture found'
+};
+
+export const Results: React.FC<ResultsProps> = ({ uploadedImages, results: scannedResults, savedIds, userAllergens, language, homeCurrency, exchangeRates, showNutrition, onBack, onSave, onTranslate, onAskQuestion, onRejectImage, onSaveOrder, isSaving = false, validationReport = null, swappedDishIds }) => {
+    // "Translate to…": null shows dishes as scanned
+    const [displayLanguage, setDisplayLanguage] = useState<Language | null>(null);
+    const results = scannedResults.map(dish => localizeDish(dish, displayLanguage));
+    const labelLanguage = displayLanguage || language;
+
     const isMenuScan = results.length > 0 && results[0].isMenu;
+    const isLabelScan = results.length > 0 && !!results[0].label;
 
     // Rule: If we have multiple results, use List View. If single result, use Expanded Card (Feed/Detail) View.
     const isListView = results.length > 1;
 
+    // Multi-page menus: null shows every page
+    const pageCount = uploadedImages.length;
+    const [activePage, setActivePage] = useState<number | null>(null);
+    const pageResults = activePage === null ? results : results.filter(d => (d.page ?? 0) === activePage);
+
+    // Price sort compares prices in the home currency. Prices in a currency without a rate can't be
+    // compared with those, so they follow (sorted among themselves); unpriced dishes stay last, in menu order
+    const [sortOrder, setSortOrder] = useState<'menu' | 'priceAsc' | 'priceDesc'>('menu');
+    const hasPrices = results.some(d => d.price !== undefined);
+    const getSortKey = (dish: Dish): { tier: number; price: number } => {
+        if (dish.price === undefined) return { tier: 2, price: 0 };
+        if (!dish.currency) return { tier: 0, price: dish.price };
+        const converted = convertPrice(dish.price, dish.currency, homeCurrency, exchangeRates);
+        return converted === null ? { tier: 1, price: dish.price } : { tier: 0, price: converted };
+    };
+    const visibleResults = sortOrder === 'menu' ? pageResults : [...pageResults].sort((a, b) => {
+        const ka = getSortKey(a);
+        const kb = getSortKey(b);
+        if (ka.tier !== kb.tier) return ka.tier - kb.tier;
+        return sortOrder === 'priceAsc' ? ka.price - kb.price : kb.price - ka.price;
+    });
+
+    // Menu sections, grouped in printed order; only while the list is in menu order
+    const showSections = sortOrder === 'menu' && hasMenuSections(visibleResults);
+    const [collapsedSections, setCollapsedSections] = useState<string[]>([]);
+    const toggleSection = (key: string) => setCollapsedSections(prev =>
+        prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]
+    );
+
     // State for Detail Modal
-    const [selectedItem, setSelectedItem] = useState<Dish | null>(null);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    // Opened before the scan was stored, the dish is found again under its stored id
+    const storedSelectedId = selectedId && swappedDishIds?.get(selectedId);
+    const selectedItem = results.find(d => d.id === selectedId || d.id === storedSelectedId) || null;
     // State for Detail Modal Toggle (Only relevant for Menu Mode)
     const [modalViewMode, setModalViewMode] = useState<'food' | 'scan'>('food');
+    // Allergen tapped in the detail modal; its source ingredients are highlighted
+    const [highlightedAllergen, setHighlightedAllergen] = useState<AllergenCode | null>(null);
+    useEffect(() => { setHighlightedAllergen(null); }, [selectedId]);
+    const [isRejectingImage, setIsRejectingImage] = useState(false);
+
+    const handleRejectImage = async (dish: Dish) => {
+        setIsRejectingImage(true);
+        try {
+            await onRejectImage(dish);
+        } catch (error) {
+            console.error('Error replacing dish picture:', error);
+        } finally {
+            setIsRejectingImage(false);
+        }
+    };
+
+    // Order builder (menu scans): dishes picked here become a card for the waiter
+    const [orderItems, setOrderItems] = useState<OrderItem[]>([]);
+    const [showOrderSheet, setShowOrderSheet] = useState(false);
+    const [activeOrder, setActiveOrder] = useState<Order | null>(null);
+    const [savedOrder, setSavedOrder] = useState<Order | null>(null); // Showing the card again updates it
+    const [isPreparingOrder, setIsPreparingOrder] = useState(false);
+    const orderCount = countOrderItems({ items: orderItems });
+
+    const getOrderQuantity = (dishId: string) => orderItems.find(item => item.dishId === dishId)?.quantity || 0;
+
+    const addToOrder = (dish: Dish) => {
+        setOrderItems(prev => prev.some(item => item.dishId === dish.id)
+            ? prev.map(item => item.dishId === dish.id ? { ...item, quantity: item.quantity + 1 } : item)
+            : [...prev, toOrderItem(dish)]);
+    };
+
+    // Translate free-text requests into the card language, save, then show the card
+    const handleShowOrderCard = async (language: Language = savedOrder?.language || getRestaurantLanguage(scannedResults, 'English')) => {
+        setIsPreparingOrder(true);
+        setActiveOrder(prev => prev && { ...prev, language });
+        try {
+            const items = await translateOrderNotes(orderItems, language);
+            const order = await onSaveOrder({
+                id: savedOrder?.id || '',
+                sessionId: scannedResults[0]?.sessionId,
+                language,
+                items,
+                created_at: savedOrder?.created_at
+            });
+            setOrderItems(items);
+            setSavedOrder(order);
+            setActiveOrder(order);
+            setShowOrderSheet(false);
+        } catch (error) {
+            console.error('Error preparing order card:', error);
+        } finally {
+            setIsPreparingOrder(false);
+        }
+    };
 
     // --- Helpers ---
 
-    const renderSpiceLevel = (level: string) => {
+    // The photo a dish was found on (bounding boxes are relative to it)
+    const getPageImage = (dish: Dish): string | null => uploadedImages[dish.page ?? 0] || uploadedImages[0] || null;
+
+    const getConflicts = (dish: Dish) =>
+        describeConflicts(dish, findAllergenConflicts(dish, userAllergens), labelLanguage);
+
+    // Allergen chip; allergens the model was unsure about get a dashed outline and "possible"
+    const getAllergenChipClass = (dish: Dish, allergen: AllergenCode) =>
+        isPossibleAllergen(dish, allergen) ? 'border border-dashed border-red-300 dark:border-red-700' : '';
+
+    // Printed price plus an approximate home-currency amount when the rate table has one
+    const renderPrice = (dish: Dish, size: 'sm' | 'lg' = 'sm') => {
+        if (dish.price === undefined) return null;
+        const converted = dish.currency && dish.currency !== homeCurrency
+            ? convertPrice(dish.price, dish.currency, homeCurrency, exchangeRates)
+            : null;
+        return (
+            <div className={`flex items-baseline gap-1.5 ${size === 'lg' ? 'text-base' : 'text-xs'}`}>
+                <span className="font-bold text-gray-900 dark:text-white">{formatPrice(dish.price, dish.currency)}</span>
+                {converted !== null && (
+                    <span className="text-gray-400 font-medium">≈ {formatPrice(converted, homeCurrency)}</span>
+                )}
+            </div>
+        );
+    };
+
+    const renderSpiceLevel = (level: string, uncertain = false) => {
         if (level === 'None' || !level) return null;
         let count = 0;
         if (level === 'Mild') count = 1;
@@ -35,17 +191,19 @@ export const Results: React.FC<ResultsProps> = ({ uploadedImage, results, savedI
                 {[...Array(count)].map((_, i) => (
                     <span key={i} className="text-[14px] leading-none">🌶️</span>
                 ))}
+                {uncertain && <span className="text-xs font-bold text-amber-600" title="Spice level is a guess">?</span>}
             </div>
         );
     };
 
-    const renderAllergenIcons = (allergens: string[]) => {
+    const renderAllergenIcons = (dish: Dish) => {
+        const allergens = dish.allergens;
         if (!allergens || allergens.length === 0) return null;
         return (
             <div className="flex items-center gap-1">
                 {allergens.slice(0, 3).map((a, i) => (
-                    <div key={i} className="size-4 rounded-full bg-red-100 dark:bg-red-900/40 text-red-600 dark:text-red-400 flex items-center justify-center text-[10px] font-bold" title={a}>
-                        {a.charAt(0)}
+                    <div key={i} className={`size-4 rounded-full bg-red-100 dark:bg-red-900/40 text-red-600 dark:text-red-400 flex items-center justify-center text-[10px] font-bold ${getAllergenChipClass(dish, a)}`} title={getAllergenText(dish, a, labelLanguage)}>
+                        {getAllergenLabel(a, labelLanguage).charAt(0)}
                     </div>
                 ))}
                 {allergens.length > 3 && (
@@ -55,8 +213,14 @@ export const Results: React.FC<ResultsProps> = ({ uploadedImage, results, savedI
         );
     };
 
+    // A picture that fails to load (e.g. offline) falls back to the generated placeholder
+    const handleImageError = (dish: Dish) => (e: React.SyntheticEvent<HTMLImageElement>) => {
+        const placeholder = getPlaceholderImage(dish);
+        if (e.currentTarget.src !== placeholder) e.currentTarget.src = placeholder;
+    };
+
     const getThumbnailStyle = (dish: Dish): React.CSSProperties => {
-        // For Menu Scan: Image is a Bing URL (Square crop usually). Just cover.
+        // For Menu Scan: Image comes from the resolver chain (square photo or placeholder). Just cover.
         if (dish.isMenu) return { objectFit: 'cover' };
 
         // For Dish Scan: Image is the full Uploaded Image. We need to focus on the bbox.
@@ -90,77 +254,153 @@ export const Results: React.FC<ResultsProps> = ({ uploadedImage, results, savedI
 
     // --- Sub-Components ---
 
-    // 1. Unified List Layout
-    const ListLayout = () => (
-        <div className="flex flex-col gap-3 pb-24">
-            {results.map((dish) => {
-                const isSaved = savedIds.includes(dish.id);
-                return (
-                    <div
-                        key={dish.id}
-                        onClick={() => {
-                            setSelectedItem(dish);
-                            // Default View Mode: 
-                            // Menu -> 'food' (Bing Image)
-                            // Dish -> 'scan' (Uploaded Image) because that IS the food image for Dish mode.
-                            setModalViewMode(dish.isMenu ? 'food' : 'scan');
-                        }}
-                        className="flex items-center gap-3 p-3 bg-white dark:bg-[#1a1a1a] rounded-xl shadow-sm border border-gray-100 dark:border-gray-800 active:scale-[0.98] transition-transform cursor-pointer group"
-                    >
-                        {/* Thumbnail */}
-                        <div className="size-20 shrink-0 rounded-lg bg-gray-100 overflow-hidden relative border border-gray-100 dark:border-white/5">
-                            <img
-                                src={dish.image}
-                                alt={dish.name}
-                                className="size-full transition-transform duration-700"
-                                style={getThumbnailStyle(dish)}
-                                loading="lazy"
-                            />
-                            {dish.spiceLevel && dish.spiceLevel !== 'None' && (
-                                <div className="absolute bottom-1 right-1 bg-white/90 dark:bg-black/80 backdrop-blur-sm rounded-md px-1 py-0.5 text-[10px] shadow-sm">
-                                    {renderSpiceLevel(dish.spiceLevel)}
-                                </div>
-                            )}
-                        </div>
+    // Adds one more of the dish to the order; shows how many are in it already. Off while the scan is
+    // being stored, since order items keep the dish id and the order needs the session
+    const renderAddToOrder = (dish: Dish, size: 'sm' | 'lg' = 'sm') => {
+        const quantity = getOrderQuantity(dish.id);
+        return (
+            <button
+                onClick={(e) => { e.stopPropagation(); addToOrder(dish); }}
+                disabled={isSaving}
+                className={`${size === 'lg' ? 'size-10' : 'size-8'} shrink-0 flex items-center justify-center rounded-full font-bold transition-colors disabled:opacity-40 ${quantity > 0 ? 'bg-primary text-white' : 'bg-primary/10 text-primary hover:bg-primary/20'}`}
+                aria-label={isSaving ? 'Add to order (available once the scan is saved)' : 'Add to order'}
+            >
+                {quantity > 0
+                    ? <span className="text-sm">{quantity}</span>
+                    : <span className="material-symbols-outlined text-[20px]">add</span>}
+            </button>
+        );
+    };
 
-                        {/* Text Info */}
-                        <div className="flex-1 min-w-0 flex flex-col justify-center gap-1">
-                            <h3 className="text-base font-bold text-gray-900 dark:text-white truncate leading-tight group-hover:text-primary transition-colors">
-                                {dish.name}
-                            </h3>
-                            <p className="text-sm font-medium text-primary truncate">
-                                {dish.originalName}
-                            </p>
-                            <div className="flex items-center gap-2 mt-1">
-                                {renderAllergenIcons(dish.allergens)}
-                                <p className="text-xs text-gray-400 truncate flex-1 capitalize">
-                                    {dish.category}
-                                </p>
-                            </div>
+    // One dish in the list view
+    const renderDishRow = (dish: Dish) => {
+        const isSaved = savedIds.includes(dish.id);
+        const conflicts = getConflicts(dish);
+        return (
+            <div
+                key={dish.id}
+                onClick={() => {
+                    setSelectedId(dish.id);
+                    // Default View Mode: 
+                    // Menu -> 'food' (Bing Image)
+                    // Dish -> 'scan' (Uploaded Image) because that IS the food image for Dish mode.
+                    setModalViewMode(dish.isMenu ? 'food' : 'scan');
+                }}
+                className={`flex items-center gap-3 p-3 bg-white dark:bg-[#1a1a1a] rounded-xl shadow-sm border active:scale-[0.98] transition-transform cursor-pointer group ${conflicts.labels.length > 0 ? (conflicts.uncertain ? 'border-amber-300 dark:border-amber-800 ring-1 ring-amber-200 dark:ring-amber-900/50' : 'border-red-300 dark:border-red-800 ring-1 ring-red-200 dark:ring-red-900/50') : 'border-gray-100 dark:border-gray-800'}`}
+            >
+                {/* Thumbnail */}
+                <div className="size-20 shrink-0 rounded-lg bg-gray-100 overflow-hidden relative border border-gray-100 dark:border-white/5">
+                    <img
+                        src={dish.image}
+                        alt={dish.name}
+                        className="size-full transition-transform duration-700"
+                        style={getThumbnailStyle(dish)}
+                        loading="lazy"
+                        onError={handleImageError(dish)}
+                    />
+                    {dish.spiceLevel && dish.spiceLevel !== 'None' && (
+                        <div className="absolute bottom-1 right-1 bg-white/90 dark:bg-black/80 backdrop-blur-sm rounded-md px-1 py-0.5 text-[10px] shadow-sm">
+                            {renderSpiceLevel(dish.spiceLevel, isLowConfidence(dish.confidence?.spiceLevel))}
                         </div>
+                    )}
+                </div>
 
-                        {/* Action */}
-                        <div className="flex flex-col items-center gap-2">
-                            <button
-                                onClick={(e) => { e.stopPropagation(); onSave(dish.id); }}
-                                className={`size-8 flex items-center justify-center rounded-full transition-colors ${isSaved ? 'text-primary' : 'text-gray-300 hover:text-gray-400'}`}
-                            >
-                                <span className={`material-symbols-outlined text-[20px] ${isSaved ? 'material-symbols-filled' : ''}`}>favorite</span>
-                            </button>
-                            <span className="material-symbols-outlined text-gray-300 text-[20px]">chevron_right</span>
-                        </div>
+                {/* Text Info */}
+                <div className="flex-1 min-w-0 flex flex-col justify-center gap-1">
+                    <h3 className="text-base font-bold text-gray-900 dark:text-white truncate leading-tight group-hover:text-primary transition-colors">
+                        {dish.name}
+                    </h3>
+                    <p className="text-sm font-medium text-primary truncate">
+                        {dish.originalName}
+                    </p>
+                    {renderPrice(dish)}
+                    <div className="flex items-center gap-2 mt-1">
+                        <AllergenAlertBadge conflicts={conflicts.labels} uncertain={conflicts.uncertain} />
+                        <LowConfidenceBadge dish={dish} />
+                        {renderAllergenIcons(dish)}
+                        <p className="text-xs text-gray-400 truncate flex-1 capitalize">
+                            {dish.category}
+                        </p>
                     </div>
+                </div>
+
+                {/* Action */}
+                <div className="flex flex-col items-center gap-2">
+                    <button
+                        onClick={(e) => { e.stopPropagation(); onSave(dish.id); }}
+                        className={`size-8 flex items-center justify-center rounded-full transition-colors ${isSaved ? 'text-primary' : 'text-gray-300 hover:text-gray-400'}`}
+                    >
+                        <span className={`material-symbols-outlined text-[20px] ${isSaved ? 'material-symbols-filled' : ''}`}>favorite</span>
+                    </button>
+                    {dish.isMenu ? renderAddToOrder(dish) : (
+                        <span className="material-symbols-outlined text-gray-300 text-[20px]">chevron_right</span>
+                    )}
+                </div>
+            </div>
+        );
+    };
+
+    // 1. Unified List Layout
+    const renderListLayout = () => (
+        <div className="flex flex-col gap-3 pb-24">
+            {pageCount > 1 && (
+                <div className="flex gap-2 overflow-x-auto no-scrollbar -mx-1 px-1 pb-1">
+                    {[null, ...uploadedImages.map((_, i) => i)].map(page => (
+                        <button
+                            key={page ?? 'all'}
+                            onClick={() => setActivePage(page)}
+                            className={`shrink-0 px-3 py-1.5 rounded-full text-xs font-bold transition-colors ${activePage === page ? 'bg-primary text-white shadow-sm' : 'bg-white dark:bg-[#1a1a1a] text-gray-500 dark:text-gray-400 border border-gray-100 dark:border-gray-800'}`}
+                        >
+                            {page === null ? `All Pages` : `Page ${page + 1}`}
+                        </button>
+                    ))}
+                </div>
+            )}
+            {hasPrices && (
+                <div className="flex items-center justify-end gap-1 text-xs">
+                    <span className="material-symbols-outlined text-[16px] text-gray-400">sort</span>
+                    <select
+                        value={sortOrder}
+                        onChange={(e) => setSortOrder(e.target.value as typeof sortOrder)}
+                        className="bg-transparent border-none p-0 pr-6 text-xs font-bold text-gray-500 dark:text-gray-400 focus:ring-0"
+                    >
+                        <option value="menu">Menu order</option>
+                        <option value="priceAsc">Price: low to high</option>
+                        <option value="priceDesc">Price: high to low</option>
+                    </select>
+                </div>
+            )}
+            {showSections ? groupBySection(visibleResults).map(section => {
+                const isCollapsed = collapsedSections.includes(section.key);
+                return (
+                    <section key={section.key || 'other'} className="flex flex-col gap-3">
+                        <button
+                            onClick={() => toggleSection(section.key)}
+                            className="flex items-center gap-2 px-1 pt-2 text-left"
+                        >
+                            <span className={`material-symbols-outlined text-[20px] text-gray-400 transition-transform ${isCollapsed ? '-rotate-90' : ''}`}>expand_more</span>
+                            <h3 className="flex-1 min-w-0 truncate text-sm font-bold uppercase tracking-wider text-gray-700 dark:text-gray-200">
+                                {section.title || 'Other'}
+                                {section.originalTitle && section.originalTitle !== section.title && (
+                                    <span className="ml-2 normal-case tracking-normal font-medium text-primary">{section.originalTitle}</span>
+                                )}
+                            </h3>
+                            <span className="text-xs font-bold text-gray-400">{section.dishes.length}</span>
+                        </button>
+                        {!isCollapsed && section.dishes.map(renderDishRow)}
+                    </section>
                 );
-            })}
+            }) : visibleResults.map(renderDishRow)}
         </div>
     );
 
     // 2. Single Item Layout (Big Card)
-    const SingleItemLayout = () => {
+    const renderSingleItemLayout = () => {
         const dish = results[0];
         const isSaved = savedIds.includes(dish.id);
+        const conflicts = getConflicts(dish);
         const bbox = dish.boundingBox;
-        const displayImage = (dish.isMenu) ? dish.image : (uploadedImage || dish.image);
+        const displayImage = (dish.isMenu) ? dish.image : (getPageImage(dish) || dish.image);
 
         return (
             <article className="group relative flex flex-col overflow-hidden rounded-2xl bg-white dark:bg-[#1a1a1a] shadow-card ring-1 ring-gray-900/5 dark:ring-white/10 shrink-0 pb-24">
@@ -169,6 +409,7 @@ export const Results: React.FC<ResultsProps> = ({ uploadedImage, results, savedI
                         src={displayImage}
                         alt={dish.name}
                         className="w-full h-auto object-contain max-h-[500px] block mx-auto"
+                        onError={dish.isMenu ? handleImageError(dish) : undefined}
                     />
 
                     {/* Spotlight for single Dish Scan */}
@@ -208,11 +449,15 @@ export const Results: React.FC<ResultsProps> = ({ uploadedImage, results, savedI
                         <div className="flex-1">
                             <h3 className="text-xl font-bold text-[#181310] dark:text-white leading-tight">{dish.name}</h3>
                             <p className="text-sm font-medium text-primary italic mt-0.5">{dish.originalName}</p>
+                            <PronunciationGuide dish={dish} />
+                            <IdentityGuessNote dish={dish} />
+                            {dish.price !== undefined && <div className="mt-1.5">{renderPrice(dish, 'lg')}</div>}
                         </div>
                         <div className="flex-shrink-0 pt-1">
-                            {renderSpiceLevel(dish.spiceLevel)}
+                            {renderSpiceLevel(dish.spiceLevel, isLowConfidence(dish.confidence?.spiceLevel))}
                         </div>
                     </div>
+                    <AllergenAlertBanner conflicts={conflicts.labels} uncertain={conflicts.uncertain} />
                     {/* Details... */}
                     <div className="flex flex-col gap-3">
                         <div className="flex items-start gap-2">
@@ -235,8 +480,8 @@ export const Results: React.FC<ResultsProps> = ({ uploadedImage, results, savedI
                             <div className="flex flex-wrap gap-1.5">
                                 {dish.allergens && dish.allergens.length > 0 ? (
                                     dish.allergens.map((allergen, idx) => (
-                                        <span key={idx} className="inline-flex items-center rounded-md bg-red-50 dark:bg-red-900/20 px-2 py-0.5 text-xs font-bold text-red-700 dark:text-red-300">
-                                            {allergen}
+                                        <span key={idx} className={`inline-flex items-center rounded-md bg-red-50 dark:bg-red-900/20 px-2 py-0.5 text-xs font-bold text-red-700 dark:text-red-300 ${getAllergenChipClass(dish, allergen)}`}>
+                                            {getAllergenText(dish, allergen, labelLanguage)}
                                         </span>
                                     ))
                                 ) : (
@@ -250,6 +495,55 @@ export const Results: React.FC<ResultsProps> = ({ uploadedImage, results, savedI
                             {dish.description}
                         </p>
                     </div>
+                    {showNutrition && <NutritionFacts nutrition={dish.nutrition} />}
+                    <div className="pt-2 border-t border-gray-100 dark:border-gray-800/50">
+                        <DishQuestions dish={dish} onAsk={(question) => onAskQuestion(dish, question, getPageImage(dish))} />
+                    </div>
+                </div>
+            </article>
+        );
+    };
+
+    // 3. Label Layout: a packaged product's ingredient list checked against the profile
+    const renderLabelLayout = () => {
+        const dish = results[0];
+        const isSaved = savedIds.includes(dish.id);
+
+        return (
+            <article className="relative flex flex-col overflow-hidden rounded-2xl bg-white dark:bg-[#1a1a1a] shadow-card ring-1 ring-gray-900/5 dark:ring-white/10 shrink-0 pb-24">
+                <div className="relative w-full bg-black/5 dark:bg-black/50 overflow-hidden">
+                    <img
+                        src={getPageImage(dish) || dish.image}
+                        alt={dish.name}
+                        className="w-full h-auto object-contain max-h-[280px] block mx-auto"
+                    />
+                    <div className="absolute right-3 top-3 z-20">
+                        <button
+                            onClick={() => onSave(dish.id)}
+                            className={`flex size-10 items-center justify-center rounded-full backdrop-blur-md transition-colors active:scale-90 shadow-sm border border-white/20 ${isSaved ? 'bg-primary text-white' : 'bg-black/30 text-white hover:bg-black/50'}`}
+                        >
+                            <span className={`material-symbols-outlined text-[20px] ${isSaved ? 'material-symbols-filled' : ''}`}>favorite</span>
+                        </button>
+                    </div>
+                </div>
+
+                <div className="flex flex-col gap-4 p-5">
+                    <div>
+                        <h3 className="text-xl font-bold text-[#181310] dark:text-white leading-tight">{dish.name}</h3>
+                        <p className="text-sm font-medium text-primary italic mt-0.5">{dish.originalName}</p>
+                        {dish.description && (
+                            <p className="text-sm leading-relaxed text-[#6b5850] dark:text-[#a89f9b] mt-2">{dish.description}</p>
+                        )}
+                    </div>
+                    <LabelAnalysis
+                        label={dish.label!}
+                        originalLanguage={dish.originalLanguage}
+                        userAllergens={userAllergens}
+                        language={labelLanguage}
+                    />
+                    <div className="pt-2 border-t border-gray-100 dark:border-gray-800/50">
+                        <DishQuestions dish={dish} onAsk={(question) => onAskQuestion(dish, question, getPageImage(dish))} />
+                    </div>
                 </div>
             </article>
         );
@@ -267,7 +561,7 @@ export const Results: React.FC<ResultsProps> = ({ uploadedImage, results, savedI
                         <div
                             className="absolute inset-0 bg-cover bg-center blur-3xl"
                             style={{
-                                backgroundImage: `url('${uploadedImage || "https://images.unsplash.com/photo-1550547660-d9450f859349?q=80&w=1000&auto=format&fit=crop"}')`,
+                                backgroundImage: `url('${uploadedImages[0] || "https://images.unsplash.com/photo-1550547660-d9450f859349?q=80&w=1000&auto=format&fit=crop"}')`,
                             }}
                         />
                     </div>
@@ -285,13 +579,20 @@ export const Results: React.FC<ResultsProps> = ({ uploadedImage, results, savedI
                     </button>
                     <div className="text-center">
                         <h2 className="text-[#181310] dark:text-white text-lg font-bold leading-tight tracking-[-0.015em]">
-                            {isMenuScan ? 'Menu Translation' : 'Dish Analysis'}
+                            {isLabelScan ? 'Label Check' : isMenuScan ? 'Menu Translation' : 'Dish Analysis'}
                         </h2>
                         <p className="text-[10px] text-gray-500 font-bold uppercase tracking-wider">
-                            Found {results.length} Item{results.length !== 1 ? 's' : ''}
+                            {isLabelScan
+                                ? `${results[0].label!.ingredients.length} Ingredient${results[0].label!.ingredients.length !== 1 ? 's' : ''}`
+                                : `Found ${results.length} Item${results.length !== 1 ? 's' : ''}${pageCount > 1 ? ` · ${pageCount} Pages` : ''}`}
                         </p>
                     </div>
-                    <div className="size-10"></div>
+                    <TranslateMenu
+                        dishes={scannedResults}
+                        value={displayLanguage}
+                        onChange={setDisplayLanguage}
+                        onTranslate={onTranslate}
+                    />
                 </header>
 
                 {/* Main Content */}
@@ -303,16 +604,53 @@ export const Results: React.FC<ResultsProps> = ({ uploadedImage, results, savedI
                         </div>
                     )}
 
+                    {validationReport && (validationReport.dropped.length > 0 || validationReport.repaired.length > 0) && (
+                        <div className="flex items-start gap-2 p-3 mb-4 rounded-xl bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-900/40 text-sm text-amber-800 dark:text-amber-200">
+                            <span className="material-symbols-outlined text-[20px] shrink-0">warning</span>
+                            <div>
+                                {validationReport.dropped.length > 0 && (
+                                    <p className="font-bold">
+                                        {validationReport.dropped.length} dish{validationReport.dropped.length !== 1 ? 'es' : ''} couldn't be read and {validationReport.dropped.length !== 1 ? 'were' : 'was'} left out
+                                    </p>
+                                )}
+                                {validationReport.repaired.length > 0 && (
+                                    <p className="text-xs mt-0.5">
+                                        {validationReport.repaired.length} dish{validationReport.repaired.length !== 1 ? 'es' : ''} had incomplete details that were filled in or removed: {validationReport.repaired.map(r => r.dish).join(', ')}. Check them against the menu.
+                                    </p>
+                                )}
+                            </div>
+                        </div>
+                    )}
+
                     {results.length > 0 && (
-                        isListView ? <ListLayout /> : <SingleItemLayout />
+                        isLabelScan ? renderLabelLayout() : isListView ? renderListLayout() : renderSingleItemLayout()
                     )}
                 </main>
+
+                {/* Order bar */}
+                {orderCount > 0 && (
+                    <div className="relative z-20 p-3 bg-white/80 dark:bg-[#1a1a1a]/80 backdrop-blur-md border-t border-gray-200/20">
+                        <button
+                            onClick={() => setShowOrderSheet(true)}
+                            className="w-full flex items-center justify-between gap-3 bg-primary text-white px-4 py-3 rounded-xl font-bold shadow-lg hover:bg-primary-dark transition-colors"
+                        >
+                            <span className="flex items-center gap-2">
+                                <span className="material-symbols-outlined text-[20px]">receipt_long</span>
+                                {orderCount} item{orderCount !== 1 ? 's' : ''}
+                            </span>
+                            <span className="flex items-center gap-1 text-sm">
+                                Review Order
+                                <span className="material-symbols-outlined text-[18px]">chevron_right</span>
+                            </span>
+                        </button>
+                    </div>
+                )}
             </div>
 
             {/* Detail Modal (Used for items in ListView) */}
             {selectedItem && (
                 <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center pointer-events-none">
-                    <div className="absolute inset-0 bg-black/60 backdrop-blur-sm pointer-events-auto transition-opacity" onClick={() => setSelectedItem(null)}></div>
+                    <div className="absolute inset-0 bg-black/60 backdrop-blur-sm pointer-events-auto transition-opacity" onClick={() => setSelectedId(null)}></div>
 
                     <div className="relative w-full max-w-md bg-white dark:bg-[#1a1a1a] rounded-t-3xl sm:rounded-3xl overflow-hidden shadow-2xl pointer-events-auto animate-[slideUp_0.3s_ease-out] sm:animate-[scaleIn_0.2s_ease-out] max-h-[90vh] flex flex-col">
 
@@ -341,7 +679,7 @@ export const Results: React.FC<ResultsProps> = ({ uploadedImage, results, savedI
                             </div>
 
                             <button
-                                onClick={() => setSelectedItem(null)}
+                                onClick={() => setSelectedId(null)}
                                 className="pointer-events-auto size-9 flex items-center justify-center rounded-full bg-black/40 text-white backdrop-blur-md hover:bg-black/60 border border-white/10 shadow-lg active:scale-90 transition-all"
                             >
                                 <span className="material-symbols-outlined text-[22px]">close</span>
@@ -355,6 +693,7 @@ export const Results: React.FC<ResultsProps> = ({ uploadedImage, results, savedI
                                     src={selectedItem.image}
                                     alt={selectedItem.name}
                                     className="w-full h-full object-cover animate-[fadeIn_0.3s_ease-in]"
+                                    onError={handleImageError(selectedItem)}
                                 />
                             ) : (
                                 // Scan/Menu Mode with Smart Zoom
@@ -363,7 +702,7 @@ export const Results: React.FC<ResultsProps> = ({ uploadedImage, results, savedI
                                     style={getSmartZoomStyle(selectedItem)}
                                 >
                                     <img
-                                        src={uploadedImage || ''}
+                                        src={getPageImage(selectedItem) || ''}
                                         alt="Scan Context"
                                         className="w-full h-full object-contain bg-black/50"
                                     />
@@ -386,6 +725,27 @@ export const Results: React.FC<ResultsProps> = ({ uploadedImage, results, savedI
                             )}
                             {/* Gradient Overlay for Text Readability at Bottom of Image */}
                             <div className="absolute inset-x-0 bottom-0 h-20 bg-gradient-to-t from-black/80 via-black/40 to-transparent pointer-events-none"></div>
+
+                            {/* Picture source, and a way out of a wrong picture */}
+                            {modalViewMode === 'food' && selectedItem.isMenu && selectedItem.imageSource && (
+                                <div className="absolute inset-x-0 bottom-0 flex items-center justify-between gap-2 p-3 z-20">
+                                    <span className="text-[10px] font-bold uppercase tracking-wider text-white/80">
+                                        {IMAGE_SOURCE_LABELS[selectedItem.imageSource]}
+                                    </span>
+                                    {selectedItem.imageSource !== 'placeholder' && (
+                                        <button
+                                            onClick={() => handleRejectImage(selectedItem)}
+                                            disabled={isRejectingImage}
+                                            className="flex items-center gap-1 px-3 py-1.5 rounded-full bg-black/40 backdrop-blur-md border border-white/10 text-xs font-bold text-white hover:bg-black/60 disabled:opacity-60"
+                                        >
+                                            {isRejectingImage
+                                                ? <span className="w-3 h-3 border-2 border-white/30 border-t-white rounded-full animate-spin"></span>
+                                                : <span className="material-symbols-outlined text-[16px]">hide_image</span>}
+                                            Wrong picture
+                                        </button>
+                                    )}
+                                </div>
+                            )}
                         </div>
 
                         {/* Content Scrollable */}
@@ -399,15 +759,27 @@ export const Results: React.FC<ResultsProps> = ({ uploadedImage, results, savedI
                                         <p className="text-lg text-primary font-medium italic mt-1">
                                             {selectedItem.originalName}
                                         </p>
+                                        <PronunciationGuide dish={selectedItem} />
+                                        <IdentityGuessNote dish={selectedItem} />
+                                        {selectedItem.price !== undefined && <div className="mt-2">{renderPrice(selectedItem, 'lg')}</div>}
+                                    </div>
+                                    <div className="flex items-center gap-2 shrink-0">
+                                        {selectedItem.isMenu && renderAddToOrder(selectedItem, 'lg')}
+                                        <button
+                                            onClick={() => onSave(selectedItem.id)}
+                                            className={`shrink-0 size-10 flex items-center justify-center rounded-full border border-gray-100 dark:border-gray-700 ${savedIds.includes(selectedItem.id) ? 'bg-primary text-white' : 'text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800'}`}
+                                        >
+                                            <span className={`material-symbols-outlined ${savedIds.includes(selectedItem.id) ? 'material-symbols-filled' : ''}`}>favorite</span>
+                                        </button>
                                     </div>
-                                    <button
-                                        onClick={() => onSave(selectedItem.id)}
-                                        className={`shrink-0 size-10 flex items-center justify-center rounded-full border border-gray-100 dark:border-gray-700 ${savedIds.includes(selectedItem.id) ? 'bg-primary text-white' : 'text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800'}`}
-                                    >
-                                        <span className={`material-symbols-outlined ${savedIds.includes(selectedItem.id) ? 'material-symbols-filled' : ''}`}>favorite</span>
-                                    </button>
                                 </div>
 
+                                {getConflicts(selectedItem).labels.length > 0 && (
+                                    <div className="mb-4">
+                                        <AllergenAlertBanner conflicts={getConflicts(selectedItem).labels} uncertain={getConflicts(selectedItem).uncertain} />
+                                    </div>
+                                )}
+
                                 {/* Badges */}
                                 <div className="flex flex-wrap gap-2 mb-6">
                                     {selectedItem.category && (
@@ -417,7 +789,7 @@ export const Results: React.FC<ResultsProps> = ({ uploadedImage, results, savedI
                                     )}
                                     {selectedItem.spiceLevel && selectedItem.spiceLevel !== 'None' && (
                                         <span className="px-3 py-1 rounded-full bg-orange-50 dark:bg-orange-900/20 text-xs font-bold text-orange-700 dark:text-orange-300 flex items-center gap-1">
-                                            <span>🌶️</span> {selectedItem.spiceLevel}
+                                            <span>🌶️</span> {selectedItem.spiceLevel}{isLowConfidence(selectedItem.confidence?.spiceLevel) ? '?' : ''}
                                         </span>
                                     )}
                                     {selectedItem.tags.map(tag => (
@@ -435,7 +807,13 @@ export const Results: React.FC<ResultsProps> = ({ uploadedImage, results, savedI
                                     </p>
                                 </div>
 
-                                {/* Allergens Warning */}
+                                {showNutrition && selectedItem.nutrition && (
+                                    <div className="mt-6">
+                                        <NutritionFacts nutrition={selectedItem.nutrition} />
+                                    </div>
+                                )}
+
+                                {/* Allergens Warning; with an ingredient breakdown, tapping an allergen shows its sources */}
                                 {selectedItem.allergens && selectedItem.allergens.length > 0 && (
                                     <div className="mt-6 p-4 rounded-xl bg-red-50 dark:bg-red-900/10 border border-red-100 dark:border-red-900/30">
                                         <div className="flex items-center gap-2 mb-2 text-red-700 dark:text-red-400">
@@ -443,20 +821,65 @@ export const Results: React.FC<ResultsProps> = ({ uploadedImage, results, savedI
                                             <h4 className="text-xs font-bold uppercase tracking-wider">Contains Allergens</h4>
                                         </div>
                                         <div className="flex flex-wrap gap-2">
-                                            {selectedItem.allergens.map(a => (
-                                                <span key={a} className="text-xs font-bold text-red-600 dark:text-red-300 bg-white dark:bg-red-900/20 px-2 py-1 rounded-md shadow-sm">
-                                                    {a}
+                                            {selectedItem.allergens.map(a => selectedItem.ingredients ? (
+                                                <button
+                                                    key={a}
+                                                    onClick={() => setHighlightedAllergen(highlightedAllergen === a ? null : a)}
+                                                    className={`text-xs font-bold px-2 py-1 rounded-md shadow-sm transition-colors ${highlightedAllergen === a ? 'bg-red-600 text-white' : `text-red-600 dark:text-red-300 bg-white dark:bg-red-900/20 ${getAllergenChipClass(selectedItem, a)}`}`}
+                                                >
+                                                    {getAllergenText(selectedItem, a, labelLanguage)}
+                                                </button>
+                                            ) : (
+                                                <span key={a} className={`text-xs font-bold text-red-600 dark:text-red-300 bg-white dark:bg-red-900/20 px-2 py-1 rounded-md shadow-sm ${getAllergenChipClass(selectedItem, a)}`}>
+                                                    {getAllergenText(selectedItem, a, labelLanguage)}
                                                 </span>
                                             ))}
                                         </div>
+                                        {selectedItem.ingredients && (
+                                            <p className="mt-2 text-[11px] text-red-700/70 dark:text-red-300/70">
+                                                {highlightedAllergen && !selectedItem.ingredients.some(i => i.allergens.includes(highlightedAllergen))
+                                                    ? 'No specific ingredient was named for this allergen.'
+                                                    : 'Tap an allergen to see which ingredients it comes from.'}
+                                            </p>
+                                        )}
                                     </div>
                                 )}
+
+                                {selectedItem.ingredients && (
+                                    <div className="mt-6">
+                                        <IngredientBreakdown ingredients={selectedItem.ingredients} highlightedAllergen={highlightedAllergen} />
+                                    </div>
+                                )}
+
+                                <div className="mt-6 pt-6 border-t border-gray-100 dark:border-gray-800">
+                                    <DishQuestions dish={selectedItem} onAsk={(question) => onAskQuestion(selectedItem, question, getPageImage(selectedItem))} />
+                                </div>
                             </div>
                         </div>
                     </div>
                 </div>
             )}
 
+            {showOrderSheet && (
+                <OrderSheet
+                    items={orderItems}
+                    isPreparing={isPreparingOrder}
+                    onChange={setOrderItems}
+                    onShowCard={() => handleShowOrderCard()}
+                    onClose={() => setShowOrderSheet(false)}
+                />
+            )}
+
+            {activeOrder && (
+                <OrderCard
+                    order={activeOrder}
+                    userAllergens={userAllergens}
+                    isTranslating={isPreparingOrder}
+                    onLanguageChange={handleShowOrderCard}
+                    onClose={() => setActiveOrder(null)}
+                />
+            )}
+
             <style>{`
         @keyframes slideUp {
             from { transform: translateY(100%); opacity: 0; }
@@ -0,0 +1,234 @@
+import React, { useEffect, useState } from 'react';
+import { ScanErrorKind, ScanType } from '../types';
+import { ScanError, isTransientScanError } from '../lib/recognition';
+import { CropRect } from '../lib/image';
+import { CropEditor } from './CropEditor';
+
+interface ScanFailedProps {
+  error: ScanError;
+  scanType: ScanType;
+  attempt: number; // Failed attempts so far for this photo, drives the retry backoff
+  uploadedImages: string[];
+  onRetry: () => void;
+  onRescanAs: (type: ScanType) => void;
+  onCropRetry: (page: number, rect: CropRect) => void;
+  onSaveForLater: () => Promise<void>;
+  onCancel: () => void;
+}
+
+type RecoveryAction = 'retry' | 'rescan' | 'crop' | 'save';
+
+interface ErrorCopy {
+  icon: string;
+  title: string;
+  message: string;
+  actions: RecoveryAction[]; // First one is the primary button
+}
+
+const ERROR_COPY: Record<ScanErrorKind, ErrorCopy> = {
+  network: {
+    icon: 'wifi_off',
+    title: "You're offline",
+    message: "We couldn't reach the scanner. We'll try again as soon as you're back online.",
+    actions: ['retry', 'save']
+  },
+  quota: {
+    icon: 'hourglass_top',
+    title: 'Scanner is busy',
+    message: "Too many scans right now. We'll try again in a moment.",
+    actions: ['retry', 'save']
+  },
+  api_key: {
+    icon: 'key_off',
+    title: 'Scanner unavailable',
+    message: 'The scanning service refused the request. Keep the photo and scan it once this is fixed.',
+    actions: ['save']
+  },
+  safety: {
+    icon: 'gpp_maybe',
+    title: "Photo couldn't be analysed",
+    message: 'The scanner declined this photo. Cropping it down to just the food or menu usually helps.',
+    actions: ['crop', 'rescan', 'save']
+  },
+  invalid_json: {
+    icon: 'data_object',
+    title: 'Unreadable answer',
+    message: "The scanner replied with something we couldn't read. Trying again usually fixes it.",
+    actions: ['retry', 'rescan']
+  },
+  no_dishes: {
+    icon: 'search_off',
+    title: 'No dishes found',
+    message: "We couldn't find any food in this photo.",
+    actions: ['rescan', 'crop', 'save']
+  },
+  unknown: {
+    icon: 'error',
+    title: 'Something went wrong',
+    message: 'The scan failed unexpectedly.',
+    actions: ['retry', 'save']
+  }
+};
+
+// What a scan that found nothing may have been instead; matches the "Scan as" button (OTHER_TYPE)
+const NO_DISHES_MESSAGES: Record<ScanType, string> = {
+  dish: `${ERROR_COPY.no_dishes.message} If it is a menu, scan it as a menu instead.`,
+  menu: `${ERROR_COPY.no_dishes.message} If it is a photo of a dish, scan it as a dish instead.`,
+  receipt: "We couldn't read any line items on this receipt. If it is a menu, scan it as a menu instead.",
+  label: "We couldn't find an ingredient list in this photo. Photograph the side of the package where the ingredients are printed, or scan it as a dish instead."
+};
+
+// The "Scan as" alternative offered when nothing was found
+const OTHER_TYPE: Record<ScanType, ScanType> = { dish: 'menu', menu: 'dish', receipt: 'menu', label: 'dish' };
+
+// Automatic retries for transient errors wait 2s, 4s, 8s... up to this cap
+const RETRY_BASE_DELAY_MS = 2000;
+const RETRY_MAX_DELAY_MS = 30000;
+
+const getRetryDelay = (attempt: number) => Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempt - 1));
+
+export const ScanFailed: React.FC<ScanFailedProps> = ({ error, scanType, attempt, uploadedImages, onRetry, onRescanAs, onCropRetry, onSaveForLater, onCancel }) => {
+  const copy = ERROR_COPY[error.kind];
+  const otherType = OTHER_TYPE[scanType];
+  const cropPage = error.page ?? 0;
+  const autoRetry = isTransientScanError(error.kind);
+
+  const [isCropping, setIsCropping] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [retryAt] = useState(() => Date.now() + getRetryDelay(attempt));
+  const [secondsLeft, setSecondsLeft] = useState(() => Math.ceil(getRetryDelay(attempt) / 1000));
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  // Count down to the automatic retry; an offline device waits for the connection first
+  useEffect(() => {
+    if (!autoRetry || isCropping || isSaving || !isOnline) return;
+    const timer = setInterval(() => {
+      const remaining = Math.max(0, Math.ceil((retryAt - Date.now()) / 1000));
+      setSecondsLeft(remaining);
+      if (remaining === 0) {
+        clearInterval(timer);
+        onRetry();
+      }
+    }, 250);
+    return () => clearInterval(timer);
+  }, [autoRetry, isCropping, isSaving, isOnline, retryAt, onRetry]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSaveForLater();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isCropping && uploadedImages[cropPage]) {
+    return (
+      <CropEditor
+        imageUrl={uploadedImages[cropPage]}
+        onCancel={() => setIsCropping(false)}
+        onApply={(rect) => onCropRetry(cropPage, rect)}
+      />
+    );
+  }
+
+  const message = error.kind === 'no_dishes'
+    ? NO_DISHES_MESSAGES[scanType]
+    : copy.message;
+
+  const retryLabel = autoRetry
+    ? (isOnline ? `Retry now (${secondsLeft}s)` : 'Waiting for connection…')
+    : 'Try Again';
+
+  const renderAction = (action: RecoveryAction, primary: boolean) => {
+    const className = primary
+      ? 'w-full h-12 rounded-full bg-primary text-white text-sm font-bold shadow-lg shadow-primary/30 hover:bg-primary/90 transition-colors flex items-center justify-center gap-2 disabled:opacity-50'
+      : 'w-full h-12 rounded-full bg-[#e7dfda] dark:bg-[#3a261c] text-[#181310] dark:text-white text-sm font-bold hover:bg-[#dcd3ce] dark:hover:bg-[#4a3225] transition-colors flex items-center justify-center gap-2 disabled:opacity-50';
+
+    switch (action) {
+      case 'retry':
+        return (
+          <button key={action} onClick={onRetry} disabled={!isOnline} className={className}>
+            <span className="material-symbols-outlined text-[20px]">refresh</span>
+            {retryLabel}
+          </button>
+        );
+      case 'rescan':
+        return (
+          <button key={action} onClick={() => onRescanAs(otherType)} className={className}>
+            <span className="material-symbols-outlined text-[20px]">{otherType === 'menu' ? 'menu_book' : 'lunch_dining'}</span>
+            Scan as {otherType === 'menu' ? 'Menu' : 'Dish'}
+          </button>
+        );
+      case 'crop':
+        return uploadedImages[cropPage] ? (
+          <button key={action} onClick={() => setIsCropping(true)} className={className}>
+            <span className="material-symbols-outlined text-[20px]">crop</span>
+            Crop & Retry
+          </button>
+        ) : null;
+      case 'save':
+        return (
+          <button key={action} onClick={handleSave} disabled={isSaving} className={className}>
+            {isSaving
+              ? <span className="w-5 h-5 border-2 border-primary/30 border-t-primary rounded-full animate-spin"></span>
+              : <span className="material-symbols-outlined text-[20px]">bookmark_add</span>}
+            Save Photo to Scan Later
+          </button>
+        );
+    }
+  };
+
+  return (
+    <div className="relative flex h-full w-full flex-col justify-between overflow-hidden bg-background-light dark:bg-background-dark">
+      <div className="flex flex-col items-center justify-center flex-grow px-6 w-full mx-auto text-center">
+        <div className="relative mb-8">
+          <div className="w-40 h-40 rounded-full overflow-hidden border-8 border-white dark:border-[#3a261c] shadow-2xl bg-gray-100 dark:bg-gray-800">
+            {uploadedImages[cropPage] && (
+              <img src={uploadedImages[cropPage]} alt="Scanned photo" className="size-full object-cover opacity-60 grayscale" />
+            )}
+          </div>
+          <div className="absolute -bottom-2 -right-2 flex items-center justify-center size-14 rounded-full bg-red-500 text-white shadow-lg border-4 border-background-light dark:border-background-dark">
+            <span className="material-symbols-outlined text-[28px]">{copy.icon}</span>
+          </div>
+        </div>
+
+        <h2 className="text-[#181310] dark:text-white tracking-tight text-[28px] font-bold leading-tight mb-3">
+          {error.kind === 'no_dishes' && scanType === 'receipt' ? 'No line items found'
+            : error.kind === 'no_dishes' && scanType === 'label' ? 'No ingredient list found'
+            : copy.title}
+        </h2>
+        <p className="text-[#181310]/60 dark:text-[#f8f6f5]/60 text-base font-normal leading-normal max-w-[300px]">
+          {message}
+        </p>
+        {error.page !== undefined && uploadedImages.length > 1 && (
+          <p className="mt-2 text-xs font-bold text-primary uppercase tracking-wide">Page {error.page + 1} of {uploadedImages.length}</p>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-3 px-6 pb-4 w-full max-w-[400px] mx-auto">
+        {copy.actions.map((action, i) => renderAction(action, i === 0))}
+      </div>
+
+      <div className="flex px-4 pb-8 pt-2 justify-center w-full">
+        <button
+          onClick={onCancel}
+          className="flex items-center justify-center gap-2 h-10 px-6 text-sm font-bold text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors"
+        >
+          <span className="material-symbols-outlined text-[20px]">close</span>
+          Discard
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,227 +1,305 @@
 
-import React, { useEffect, useState } from 'react';
-import { GoogleGenAI, Type } from "@google/genai";
+import React, { useEffect, useRef, useState } from 'react';
 import { Dish, Language, ScanType } from '../types';
+import { getRecognitionProvider, mergePageResults, ReceiptRecognitionResult, RecognitionResult, RecognizedReceipt, ScanError, toScanError, validateDish, validateDishes, hasValidationChanges, ValidationReport } from '../lib/recognition';
+import { preprocessImage, PreprocessedImage } from '../lib/image';
+import { findCachedScan, saveCachedScan, ScanCacheKey } from '../lib/scanCache';
+import { getPlaceholderImage, resolveDishImage, ResolvedDishImage } from '../lib/dishImages';
 
 interface ScanningProps {
-  uploadedImage: string | null;
+  uploadedImages: string[]; // One blob URL per page
+  historyDishes: Dish[]; // Earlier scans, a source of pictures for menu dishes
   targetLanguage: Language;
   scanType: ScanType;
   onCancel: () => void;
-  onComplete: (results: Dish[]) => void;
+  onComplete: (results: Dish[], report?: ValidationReport) => void; // report: dishes repaired or dropped on the way
+  onReceiptComplete: (receipt: RecognizedReceipt, dropped: ReceiptRecognitionResult['dropped']) => void; // dropped: lines that couldn't be read
+  onError: (error: ScanError) => void;
 }
 
-export const Scanning: React.FC<ScanningProps> = ({ uploadedImage, targetLanguage, scanType, onCancel, onComplete }) => {
+const START_STATUS: Record<ScanType, string> = {
+  dish: "Analyzing Dish...",
+  menu: "Scanning Menu...",
+  receipt: "Reading Receipt...",
+  label: "Reading Label..."
+};
+
+export const Scanning: React.FC<ScanningProps> = ({ uploadedImages, historyDishes, targetLanguage, scanType, onCancel, onComplete, onReceiptComplete, onError }) => {
   const [progress, setProgress] = useState(0);
   // Initialize status text based on scan type
-  const [statusText, setStatusText] = useState(
-    scanType === 'menu' ? "Scanning Menu..." : "Analyzing Dish..."
-  );
+  const [statusText, setStatusText] = useState(START_STATUS[scanType]);
 
-  // Helper to convert blob URL to Base64
-  const urlToBase64 = async (url: string): Promise<string> => {
-    const response = await fetch(url);
-    const blob = await response.blob();
-    return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onloadend = () => {
-            const base64String = reader.result as string;
-            // Remove the data URL prefix (e.g., "data:image/jpeg;base64,")
-            const base64Data = base64String.split(',')[1];
-            resolve(base64Data);
-        };
-        reader.onerror = reject;
-        reader.readAsDataURL(blob);
-    });
-  };
+  // Dishes received so far, rendered live under the progress bar
+  const [liveDishes, setLiveDishes] = useState<Dish[]>([]);
+  const hasLiveDishes = liveDishes.length > 0;
+
+  // Results of an earlier scan of the same photos, waiting for the user to accept or re-analyse
+  const [cachedResults, setCachedResults] = useState<Dish[] | null>(null);
+  const [bypassCache, setBypassCache] = useState(false);
+
+  // The scan runs once per set of inputs; callbacks are read through refs so a parent re-render
+  // does not restart (and re-bill) it
+  const onCompleteRef = useRef(onComplete);
+  const onReceiptCompleteRef = useRef(onReceiptComplete);
+  const onErrorRef = useRef(onError);
+  onCompleteRef.current = onComplete;
+  onReceiptCompleteRef.current = onReceiptComplete;
+  onErrorRef.current = onError;
+  const historyRef = useRef(historyDishes);
+  historyRef.current = historyDishes;
+  const controllerRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
-    let isMounted = true;
-    let progressInterval: ReturnType<typeof setInterval>;
+    const controller = new AbortController();
+    const { signal } = controller;
+    controllerRef.current = controller;
+    let completeTimer: ReturnType<typeof setTimeout> | undefined;
+
+    // Menu dishes get a picture from the resolver chain (lib/dishImages), started as each dish streams
+    // in and reused for the final list; dish scans show the page photo itself
+    const imageResolutions = new Map<string, Promise<ResolvedDishImage>>();
+    const resolveImage = (dish: Dish): Promise<ResolvedDishImage> => {
+      let resolution = imageResolutions.get(dish.id);
+      if (!resolution) {
+        resolution = resolveDishImage(dish, { history: historyRef.current, signal });
+        imageResolutions.set(dish.id, resolution);
+      }
+      return resolution;
+    };
 
     const analyzeImage = async () => {
-        if (!uploadedImage) return;
+        if (uploadedImages.length === 0) return;
+        const pageCount = uploadedImages.length;
 
         try {
-            // Start visual progress
-            // We'll cap it at 80% during analysis, then jump to 90% for image loading, then 100%
-            progressInterval = setInterval(() => {
-                setProgress(prev => {
-                    if (prev >= 80) return prev; 
-                    if (prev < 30) return prev + 3; 
-                    if (prev < 70) return prev + 1; 
-                    return prev + 0.3; 
-                });
-            }, 100);
-
-            // 1. Prepare Image
-            const base64Image = await urlToBase64(uploadedImage);
-
-            // 2. Initialize Gemini
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-            // 3. Define Schema (Updated for Root Object with isMenu)
-            const responseSchema = {
-                type: Type.OBJECT,
-                properties: {
-                    isMenu: { type: Type.BOOLEAN, description: "True if the image is a menu (text list), False if it is a photo of real food." },
-                    dishes: {
-                        type: Type.ARRAY,
-                        items: {
-                            type: Type.OBJECT,
-                            properties: {
-                                name: { type: Type.STRING, description: `Name of the dish translated to ${targetLanguage}` },
-                                originalName: { type: Type.STRING, description: "Original name of the dish in its native language" },
-                                englishName: { type: Type.STRING, description: "Name of the dish in English (for image search purposes)" },
-                                description: { type: Type.STRING, description: `Description of ingredients and taste profile in ${targetLanguage}` },
-                                tags: { type: Type.ARRAY, items: { type: Type.STRING }, description: `Top 3 dominant flavor profile words (e.g. Sweet, Salty, Umami) in ${targetLanguage}` },
-                                allergens: { type: Type.ARRAY, items: { type: Type.STRING }, description: `List 1 to 5 potential allergens (e.g. Peanuts, Gluten, Dairy, Shellfish) in ${targetLanguage}` },
-                                spiceLevel: { type: Type.STRING, enum: ["None", "Mild", "Medium", "Hot"], description: "None=Not Spicy, Mild=1 chili, Medium=2 chilies, Hot=3 chilies" },
-                                category: { type: Type.STRING, description: "Broad category like Soup, Main, Dessert" },
-                                boundingBox: { type: Type.ARRAY, items: { type: Type.NUMBER }, description: "Bounding box of the dish [ymin, xmin, ymax, xmax] in 0-1000 scale." }
-                            },
-                            required: ["name", "originalName", "englishName", "description", "tags", "allergens", "spiceLevel", "category", "boundingBox"]
-                        }
-                    }
-                },
-                required: ["isMenu", "dishes"]
-            };
-
-            // 4. Update Status based on Type
-            if (isMounted) {
-                setStatusText(
-                    scanType === 'menu' 
-                        ? "Extracting menu items..." 
-                        : "Identifying ingredients..."
-                );
+            setProgress(5);
+            setLiveDishes([]);
+            setCachedResults(null);
+            setStatusText(START_STATUS[scanType]);
+
+            // 1. Orientation-corrected, downscaled and re-encoded copy of each page
+            const images: PreprocessedImage[] = [];
+            for (let page = 0; page < pageCount; page++) {
+                try {
+                    const sourceBlob = await (await fetch(uploadedImages[page], { signal })).blob();
+                    images.push(await preprocessImage(sourceBlob, { signal }));
+                } catch (error) {
+                    throw toScanError(error, page);
+                }
             }
 
-            // 5. Construct Prompt with Accuracy Optimization
-            // Critical optimization: Tell AI to use Knowledge Base for menus, and Visuals for dishes.
-            const accuracyPrompt = scanType === 'menu'
-                ? "ACCURACY RULE: Since this is a menu (text), you CANNOT see the food. You MUST infer 'spiceLevel', 'allergens', and 'tags' solely based on your CULINARY KNOWLEDGE of the dish name and traditional preparation methods. Do not guess based on visual text features."
-                : "ACCURACY RULE: Infer 'spiceLevel' and 'allergens' based on VISUAL INSPECTION of the food (e.g., redness, visible chilies, ingredients) combined with dish identification.";
-
-            const response = await ai.models.generateContent({
-                model: 'gemini-3-flash-preview', 
-                contents: {
-                    parts: [
-                        { inlineData: { mimeType: 'image/jpeg', data: base64Image } },
-                        { text: `Analyze this image. The user indicated this is a "${scanType}".
-                                 First, confirm if it is a "Menu" (mostly text) or "Food" (photo of dishes).
-                                 Identify all distinct dishes. 
-                                 Translate details to ${targetLanguage}.
-                                 Return accurate bounding boxes (0-1000 scale) for where each dish is located in the image.
-                                 If it is a menu, identify the text location of the dish name.
-
-                                 ${accuracyPrompt}
-                                 
-                                 IMPORTANT: Return PURE JSON adhering to the schema.` }
-                    ]
-                },
-                config: {
-                    responseMimeType: "application/json",
-                    responseSchema: responseSchema,
-                    systemInstruction: "You are an expert food critic and nutritionist."
+            // Receipts are read in one call (from the first page) and are not cached: the user
+            // assigns diners to this copy, and a re-scan should start fresh
+            if (scanType === 'receipt') {
+                setStatusText("Reading line items...");
+                setProgress(30);
+                let result: ReceiptRecognitionResult;
+                try {
+                    result = await getRecognitionProvider().recognizeReceipt({
+                        image: { mimeType: images[0].mimeType, data: images[0].data },
+                        targetLanguage,
+                        signal
+                    });
+                } catch (error) {
+                    throw toScanError(error, 0);
+                }
+                signal.throwIfAborted();
+                const { receipt, dropped } = result;
+                if (receipt.items.length === 0) {
+                    throw new ScanError('no_dishes', 'No line items found', { page: 0 });
                 }
-            });
+                setProgress(100);
+                setStatusText("Receipt read!");
+                completeTimer = setTimeout(() => {
+                    if (!signal.aborted) onReceiptCompleteRef.current(receipt, dropped);
+                }, 300);
+                return;
+            }
 
-            // 6. Parse Result
-            let jsonText = response.text || "{}";
-            if (jsonText.startsWith('```')) {
-                jsonText = jsonText.replace(/^```json\s?/, '').replace(/^```\s?/, '').replace(/```$/, '');
+            // 2. Reuse an earlier analysis of (nearly) the same photos unless the user asked for a fresh one
+            const hashes = images.map(image => image.hash);
+            const cacheKey: ScanCacheKey | null = hashes.every(Boolean)
+                ? { hashes: hashes as string[], targetLanguage, scanType }
+                : null;
+            if (cacheKey && !bypassCache) {
+                const cached = await findCachedScan(cacheKey);
+                signal.throwIfAborted();
+                if (cached) {
+                    // Same ids as the first time, so conversations kept on the device under them (asked signed out,
+                    // or after storing the scan failed) match up again; otherwise they are kept under the stored dish id
+                    const dishes = cached.dishes.map(d => ({
+                        ...d,
+                        image: cached.isMenu ? d.image : uploadedImages[d.page ?? 0],
+                        imageSource: cached.isMenu ? d.imageSource : 'scan' as const
+                    }));
+                    setLiveDishes(dishes);
+                    setCachedResults(dishes);
+                    setProgress(100);
+                    setStatusText("Scanned before");
+                    return;
+                }
             }
-            
-            const parsedData = JSON.parse(jsonText);
-            const isMenu = parsedData.isMenu || false;
-            const dishesList = parsedData.dishes || [];
-
-            // 7. Process dishes & Preload Images
-            if (isMounted) {
-                setProgress(85);
-                setStatusText(isMenu ? "Finding food photos..." : "Finalizing details...");
+
+            // Labels are read in one call from the first page: one product, nothing to stream
+            if (scanType === 'label') {
+                setStatusText("Checking ingredients...");
+                setProgress(30);
+                let product: Dish | null;
+                try {
+                    product = await getRecognitionProvider().recognizeLabel({
+                        image: { mimeType: images[0].mimeType, data: images[0].data },
+                        targetLanguage,
+                        signal
+                    });
+                } catch (error) {
+                    throw toScanError(error, 0);
+                }
+                signal.throwIfAborted();
+                const labelDish = product && validateDish({ ...product, page: 0, image: uploadedImages[0], imageSource: 'scan' });
+                if (!labelDish?.label) {
+                    throw new ScanError('no_dishes', 'No ingredient list found', { page: 0 });
+                }
+                setLiveDishes([labelDish]);
+                setProgress(100);
+                setStatusText("Label read!");
+                if (cacheKey) {
+                    saveCachedScan(cacheKey, false, [{ ...labelDish, image: undefined }]);
+                }
+                completeTimer = setTimeout(() => {
+                    if (!signal.aborted) onCompleteRef.current([labelDish]);
+                }, 300);
+                return;
             }
 
-            const processedDishes: Dish[] = dishesList.map((d: any, index: number) => {
-                // SWITCH TO SEARCH: Use Bing Thumbnail API (Hotlinking)
-                // This searches the internet for real photos which is faster (instant) and more realistic than AI generation.
-                // We combine Original Name + English Name + "Food" for best accuracy.
-                const searchQuery = `${d.originalName || ''} ${d.englishName || d.name} food dish`.trim();
-                
-                // c=7 is smart crop, w/h sets dimensions, rs=1 resizes
-                const imageUrl = isMenu 
-                    ? `https://tse2.mm.bing.net/th?q=${encodeURIComponent(searchQuery)}&w=400&h=400&c=7&rs=1&p=0`
-                    : uploadedImage;
-
-                return {
-                    ...d,
-                    id: Date.now().toString() + index,
-                    image: imageUrl, 
-                    isMenu: isMenu
-                };
-            });
-
-            // IMPORTANT: Preload images before completing to avoid "pop-in" on results page
-            // Only necessary if we generated new URLs (Menu mode)
-            if (isMenu && processedDishes.length > 0) {
-                const imagePromises = processedDishes.map(dish => {
-                    return new Promise<void>((resolve) => {
-                        if (!dish.image) {
-                            resolve(); 
-                            return;
+            // 3. Analyse each page in turn, streaming dishes into the live list
+            const provider = getRecognitionProvider();
+            const pageResults: RecognitionResult[] = [];
+            const seen = new Set<string>();
+
+            for (let page = 0; page < pageCount; page++) {
+                try {
+                    const image = images[page];
+
+                    if (!signal.aborted) {
+                        const pageLabel = pageCount > 1 ? ` (page ${page + 1} of ${pageCount})` : '';
+                        setStatusText(
+                            (scanType === 'menu' 
+                                ? "Extracting menu items..." 
+                                : "Identifying ingredients...") + pageLabel
+                        );
+                    }
+
+                    let pageDishCount = 0;
+                    // Gemini or offline fixture, see lib/recognition
+                    pageResults.push(await provider.recognize({
+                        image: { mimeType: image.mimeType, data: image.data },
+                        scanType,
+                        targetLanguage,
+                        signal,
+                        onDish: (dish, detectedMenu) => {
+                            if (signal.aborted) return;
+                            pageDishCount++;
+                            // The total is unknown up front, so each dish closes part of the remaining gap for this page
+                            const pageFraction = pageDishCount / (pageDishCount + 3);
+                            setProgress(5 + ((page + pageFraction) / pageCount) * 90);
+
+                            // Same de-duplication as mergePageResults, so the live list matches the final one
+                            const key = (dish.originalName || dish.name || '').trim().toLowerCase();
+                            if (key && seen.has(key)) return;
+                            if (key) seen.add(key);
+
+                            const isMenu = detectedMenu ?? scanType === 'menu';
+                            const rawDish = { ...dish, id: `${dish.id}-${page}`, page };
+                            const liveDish = validateDish(isMenu
+                                ? { ...rawDish, image: getPlaceholderImage(rawDish), imageSource: 'placeholder' }
+                                : { ...rawDish, image: uploadedImages[page], imageSource: 'scan' });
+                            if (!liveDish) return;
+                            setLiveDishes(prev => [...prev, liveDish]);
+                            if (isMenu) {
+                                // Resolve from the raw dish: the validator strips englishName, which search uses
+                                resolveImage(rawDish).then(({ url, source }) => {
+                                    if (signal.aborted) return;
+                                    setLiveDishes(prev => prev.map(d => d.id === liveDish.id ? { ...d, image: url, imageSource: source } : d));
+                                });
+                            }
                         }
-                        const img = new Image();
-                        img.onload = () => resolve();
-                        img.onerror = () => resolve(); // Resolve anyway so we don't block
-                        img.src = dish.image;
-                    });
-                });
+                    }));
+                } catch (error) {
+                    throw toScanError(error, page);
+                }
+            }
 
-                // Wait for all images to load OR a max timeout of 3 seconds (Search is faster than AI, so we lower timeout)
-                const timeoutPromise = new Promise<void>(resolve => setTimeout(resolve, 3000));
-                await Promise.race([Promise.all(imagePromises), timeoutPromise]);
+            // Tag each dish with its page and drop repeats across pages
+            const { isMenu, dishes } = mergePageResults(pageResults);
+            if (dishes.length === 0) {
+                throw new ScanError('no_dishes', 'No dishes found', { page: pageCount === 1 ? 0 : undefined });
+            }
+
+            // 4. Attach pictures (mostly resolved while dishes streamed in), then
+            // repair or drop malformed model output and strip helper fields such as englishName
+            setStatusText("Finding pictures...");
+            const withImages = await Promise.all(dishes.map(async d => {
+                if (!isMenu) return { ...d, image: uploadedImages[d.page ?? 0], imageSource: 'scan' as const };
+                const { url, source } = await resolveImage(d);
+                return { ...d, image: url, imageSource: source };
+            }));
+            signal.throwIfAborted();
+            const { dishes: processedDishes, report } = validateDishes(withImages);
+            if (hasValidationChanges(report)) {
+                console.warn('Recognition output repaired:', report);
+            }
+            if (processedDishes.length === 0) {
+                throw new ScanError('invalid_json', `All ${dishes.length} dishes were malformed`);
             }
 
-            clearInterval(progressInterval);
-            if (isMounted) setProgress(100);
+            signal.throwIfAborted();
+            setLiveDishes(processedDishes);
+            setProgress(100);
+            setStatusText(isMenu ? "Menu translated!" : "Analysis complete!");
 
-            // 8. Complete
-            setTimeout(() => {
-                if (isMounted) onComplete(processedDishes);
+            // Dish scans point at the page photo, which is re-attached on a cache hit
+            if (cacheKey) {
+                saveCachedScan(cacheKey, isMenu, processedDishes.map(d => isMenu ? d : { ...d, image: undefined }));
+            }
+
+            // 5. Complete (never for a cancelled scan, so nothing reaches the database)
+            completeTimer = setTimeout(() => {
+                if (!signal.aborted) onCompleteRef.current(processedDishes, report);
             }, 300);
 
         } catch (error) {
+            if (signal.aborted) return;
             console.error("AI Error:", error);
-            if (progressInterval) clearInterval(progressInterval);
-            if (isMounted) {
-                setStatusText("Error scanning. Try again.");
-                setProgress(0);
-                setTimeout(onCancel, 3000);
-            }
+            onErrorRef.current(toScanError(error));
         }
     };
 
     analyzeImage();
 
     return () => { 
-        isMounted = false; 
-        if (progressInterval) clearInterval(progressInterval);
+        clearTimeout(completeTimer);
+        controller.abort();
     };
-  }, [uploadedImage, targetLanguage, scanType, onComplete, onCancel]);
+  }, [uploadedImages, targetLanguage, scanType, bypassCache]);
+
+  const handleCancel = () => {
+    controllerRef.current?.abort();
+    onCancel();
+  };
 
   return (
     <div className="relative flex h-full w-full flex-col justify-between overflow-hidden bg-background-light dark:bg-background-dark">
-      <div className="flex flex-col items-center justify-center flex-grow px-6 w-full mx-auto">
+      <div className={`flex flex-col items-center flex-grow px-6 w-full mx-auto min-h-0 ${hasLiveDishes ? 'justify-start pt-8' : 'justify-center'}`}>
         
-        {/* Visual Scanner */}
-        <div className="relative flex items-center justify-center mb-10">
-          <div className="absolute w-72 h-72 rounded-full border border-primary/10 animate-ping" style={{ animationDuration: '3s' }}></div>
-          <div className="absolute w-80 h-80 rounded-full border border-primary/5 animate-pulse"></div>
+        {/* Visual Scanner (shrinks once dishes start arriving to make room for the live list) */}
+        <div className={`relative flex items-center justify-center transition-all duration-500 ${hasLiveDishes ? 'mb-6' : 'mb-10'}`}>
+          <div className={`absolute rounded-full border border-primary/10 animate-ping ${hasLiveDishes ? 'w-36 h-36' : 'w-72 h-72'}`} style={{ animationDuration: '3s' }}></div>
+          <div className={`absolute rounded-full border border-primary/5 animate-pulse ${hasLiveDishes ? 'w-40 h-40' : 'w-80 h-80'}`}></div>
           
-          <div className="relative w-64 h-64 rounded-full overflow-hidden shadow-2xl shadow-primary/20 border-8 border-white dark:border-[#3a261c] bg-gray-100 dark:bg-gray-800 z-10">
+          <div className={`relative rounded-full transition-all duration-500 ${hasLiveDishes ? 'w-32 h-32 border-4' : 'w-64 h-64 border-8'} overflow-hidden shadow-2xl shadow-primary/20 border-white dark:border-[#3a261c] bg-gray-100 dark:bg-gray-800 z-10`}>
             <div 
                 className="absolute inset-0 bg-cover bg-center opacity-90"
-                style={{ backgroundImage: `url('${uploadedImage || "https://picsum.photos/400/400"}')` }}
+                style={{ backgroundImage: `url('${uploadedImages[0] || "https://picsum.photos/400/400"}')` }}
             ></div>
             <div className="absolute inset-0 bg-primary/20 mix-blend-overlay"></div>
             <div className="absolute top-0 left-0 w-full h-1 bg-white/80 shadow-[0_0_20px_rgba(255,255,255,0.9)] z-20 animate-[scan_2s_ease-in-out_infinite]" style={{ top: '50%' }}></div>
@@ -229,13 +307,19 @@ export const Scanning: React.FC<ScanningProps> = ({ uploadedImage, targetLanguag
         </div>
 
         {/* Text */}
-        <div className="flex flex-col items-center gap-3 text-center mb-10">
+        <div className={`flex flex-col items-center gap-3 text-center ${hasLiveDishes ? 'mb-6' : 'mb-10'}`}>
           <h2 className="text-[#181310] dark:text-white tracking-tight text-[28px] font-bold leading-tight px-4 animate-[pulse_2s_infinite]">
             {statusText}
           </h2>
           <p className="text-[#181310]/60 dark:text-[#f8f6f5]/60 text-base font-normal leading-normal max-w-[280px]">
-             {scanType === 'menu' 
+             {cachedResults
+                ? `You scanned this photo before. Showing the earlier ${targetLanguage} analysis.`
+                : scanType === 'menu' 
                 ? `Reading menu text and translating to ${targetLanguage}.`
+                : scanType === 'receipt'
+                ? `Reading line items and totals, translated to ${targetLanguage}.`
+                : scanType === 'label'
+                ? `Reading the ingredient list and checking it against your allergies.`
                 : `Identifying flavors and allergens in ${targetLanguage}.`
              }
           </p>
@@ -244,22 +328,61 @@ export const Scanning: React.FC<ScanningProps> = ({ uploadedImage, targetLanguag
         {/* Progress */}
         <div className="w-full max-w-[300px] flex flex-col gap-3">
           <div className="flex justify-between items-center px-1">
-            <span className="text-xs font-bold text-primary tracking-wide uppercase">Processing</span>
+            <span className="text-xs font-bold text-primary tracking-wide uppercase">
+              {hasLiveDishes ? `${liveDishes.length} Dish${liveDishes.length !== 1 ? 'es' : ''} Found` : 'Processing'}
+            </span>
             <span className="text-xs font-bold text-[#181310]/40 dark:text-white/40">{Math.min(100, Math.round(progress))}%</span>
           </div>
           <div className="h-3 w-full bg-[#e7dfda] dark:bg-[#3a261c] rounded-full overflow-hidden">
             <div 
-                className="h-full bg-primary rounded-full transition-all duration-100 ease-linear" 
+                className="h-full bg-primary rounded-full transition-all duration-300 ease-out" 
                 style={{ width: `${progress}%` }}
             ></div>
           </div>
         </div>
+
+        {/* Live Results */}
+        {hasLiveDishes && (
+          <div className="w-full max-w-[340px] flex-1 min-h-0 overflow-y-auto no-scrollbar mt-6 flex flex-col gap-2 pb-2">
+            {liveDishes.map(dish => (
+              <div key={dish.id} className="flex items-center gap-3 p-2 bg-white dark:bg-[#1a1a1a] rounded-xl shadow-sm border border-gray-100 dark:border-gray-800 animate-[fadeIn_0.3s_ease-out]">
+                <div className="size-12 shrink-0 rounded-lg bg-gray-100 dark:bg-gray-800 overflow-hidden">
+                  {dish.image && <img src={dish.image} alt={dish.name} className="size-full object-cover" />}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-bold text-gray-900 dark:text-white truncate">{dish.name}</p>
+                  <p className="text-xs font-medium text-primary truncate">{dish.originalName}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
 
+      {/* Cache hit: use the earlier analysis or pay for a fresh one */}
+      {cachedResults && (
+        <div className="flex gap-3 px-4 pt-6 justify-center w-full bg-background-light dark:bg-background-dark">
+          <button
+              onClick={() => setBypassCache(true)}
+              className="flex flex-1 max-w-[200px] items-center justify-center rounded-full h-12 px-4 bg-white dark:bg-[#1a1a1a] border border-gray-200 dark:border-gray-700 text-[#181310] dark:text-white text-sm font-bold transition-colors gap-2 hover:bg-gray-50 dark:hover:bg-white/5"
+          >
+            <span className="material-symbols-outlined text-[20px]">refresh</span>
+            <span className="truncate">Re-analyse anyway</span>
+          </button>
+          <button
+              onClick={() => onComplete(cachedResults)}
+              className="flex flex-1 max-w-[200px] items-center justify-center rounded-full h-12 px-4 bg-primary text-white text-sm font-bold shadow-lg shadow-primary/30 hover:bg-primary/90 transition-colors gap-2"
+          >
+            <span className="material-symbols-outlined text-[20px]">check</span>
+            <span className="truncate">View Results</span>
+          </button>
+        </div>
+      )}
+
       {/* Cancel Button */}
       <div className="flex px-4 py-8 justify-center w-full bg-background-light dark:bg-background-dark">
         <button 
-            onClick={onCancel}
+            onClick={handleCancel}
             className="flex min-w-[120px] max-w-[480px] cursor-pointer items-center justify-center overflow-hidden rounded-full h-12 px-6 bg-[#e7dfda] dark:bg-[#3a261c] hover:bg-[#dcd3ce] dark:hover:bg-[#4a3225] text-[#181310] dark:text-white text-sm font-bold leading-normal tracking-[0.015em] transition-colors gap-2"
         >
           <span className="material-symbols-outlined text-[20px]">close</span>
@@ -268,6 +391,10 @@ export const Scanning: React.FC<ScanningProps> = ({ uploadedImage, targetLanguag
       </div>
 
       <style>{`
+        @keyframes fadeIn {
+            from { opacity: 0; transform: translateY(4px); }
+            to { opacity: 1; transform: translateY(0); }
+        }
         @keyframes scan {
             0% { top: 10%; opacity: 0; }
             50% { opacity: 1; }
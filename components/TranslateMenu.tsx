@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { Dish, Language } from '../types';
+import { LANGUAGES } from '../constants';
+import { getAvailableLanguages, hasTranslation } from '../lib/translation';
+
+interface TranslateMenuProps {
+  dishes: Dish[]; // Dishes on screen; missing translations are requested for all of them at once
+  value: Language | null; // null = as scanned
+  onChange: (language: Language | null) => void;
+  onTranslate: (dishes: Dish[], language: Language) => Promise<void>;
+}
+
+// "Translate to…" dropdown: switches between stored translations or requests the missing ones
+export const TranslateMenu: React.FC<TranslateMenuProps> = ({ dishes, value, onChange, onTranslate }) => {
+  const [open, setOpen] = useState(false);
+  const [translating, setTranslating] = useState<Language | null>(null);
+  const available = getAvailableLanguages(dishes, LANGUAGES);
+
+  const select = async (language: Language | null) => {
+    setOpen(false);
+    if (!language) return onChange(null);
+
+    const missing = dishes.filter(dish => !hasTranslation(dish, language));
+    if (missing.length > 0) {
+      setTranslating(language);
+      try {
+        await onTranslate(missing, language);
+      } catch (error) {
+        console.error('Error translating dishes:', error);
+        window.alert('Translation failed. Check your connection and try again.');
+        return;
+      } finally {
+        setTranslating(null);
+      }
+    }
+    onChange(language);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className={`flex size-10 shrink-0 items-center justify-center rounded-full transition-all active:scale-95 ${value ? 'bg-primary/10 text-primary' : 'text-[#181310] dark:text-white hover:bg-black/5 dark:hover:bg-white/10'}`}
+        title="Translate to…"
+      >
+        {translating
+          ? <span className="w-5 h-5 border-2 border-primary/30 border-t-primary rounded-full animate-spin"></span>
+          : <span className="material-symbols-outlined">translate</span>}
+      </button>
+
+      {open && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setOpen(false)}></div>
+          <div className="absolute right-0 top-12 z-50 w-56 max-h-80 overflow-y-auto no-scrollbar rounded-xl bg-white dark:bg-[#1a1a1a] shadow-xl border border-gray-100 dark:border-gray-800 py-1">
+            <p className="px-4 pt-2 pb-1 text-[10px] font-bold uppercase tracking-wider text-gray-400">Translate to…</p>
+            <button
+              onClick={() => select(null)}
+              className="flex w-full items-center justify-between px-4 py-2 text-sm font-bold text-gray-900 dark:text-white hover:bg-gray-50 dark:hover:bg-white/5"
+            >
+              As scanned
+              {value === null && <span className="material-symbols-outlined text-[18px] text-primary">check</span>}
+            </button>
+            {LANGUAGES.map(language => (
+              <button
+                key={language}
+                onClick={() => select(language)}
+                disabled={!!translating}
+                className="flex w-full items-center justify-between px-4 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-white/5 disabled:opacity-50"
+              >
+                <span className={value === language ? 'font-bold text-primary' : ''}>{language}</span>
+                {value === language
+                  ? <span className="material-symbols-outlined text-[18px] text-primary">check</span>
+                  : available.includes(language)
+                    ? <span className="material-symbols-outlined text-[16px] text-gray-400" title="Already translated">download_done</span>
+                    : null}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
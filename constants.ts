@@ -1,5 +1,5 @@
 
-import { Dish, Language } from './types';
+import { AllergenCode, Dish, Language, OrderRequest } from './types';
 
 export const LANGUAGES: Language[] = [
   'English',
@@ -15,6 +15,18 @@ export const LANGUAGES: Language[] = [
   'Italian'
 ];
 
+// Scan photos are downscaled to this longest edge (px) and re-encoded before they are sent to the model
+export const SCAN_IMAGE_MAX_DIMENSION = Number(import.meta.env.VITE_SCAN_MAX_DIMENSION) || 1600;
+export const SCAN_IMAGE_QUALITY = 0.85;
+
+// Local cache of past scan results, keyed by perceptual hash (see lib/scanCache.ts)
+export const SCAN_CACHE_MAX_ENTRIES = 50;
+export const SCAN_CACHE_MAX_BYTES = 2 * 1024 * 1024;
+export const SCAN_CACHE_MAX_DISTANCE = 8; // Differing hash bits (of 64) still counted as the same photo
+
+// Confidence scores below this are shown as a guess ("possible peanuts")
+export const LOW_CONFIDENCE_THRESHOLD = 0.7;
+
 export const MOCK_RESULTS: Dish[] = [
   {
     id: '1',
@@ -23,7 +35,7 @@ export const MOCK_RESULTS: Dish[] = [
     description: 'A famous Thai soup with river prawns, mushrooms, and lemongrass. Distinct hot and sour flavor with a creamy coconut milk base.',
     image: 'https://images.unsplash.com/photo-1548943487-a2e4e43b485c?auto=format&fit=crop&q=80&w=800',
     tags: ['Sour', 'Spicy', 'Creamy'],
-    allergens: ['Shellfish', 'Dairy'],
+    allergens: ['crustaceans', 'milk'],
     spiceLevel: 'Hot',
     category: 'Soup'
   }
@@ -31,9 +43,19 @@ export const MOCK_RESULTS: Dish[] = [
 
 export const MOCK_SAVED: Dish[] = [];
 
-export const COMMON_ALLERGENS = [
-    'Peanuts', 'Tree Nuts', 'Dairy', 'Eggs', 'Shellfish', 'Fish', 'Soy', 'Wheat/Gluten', 'Sesame'
+// Canonical allergen taxonomy: the 14 EU allergens, most common first.
+// Dish allergens are stored as these codes; labels come from CHEF_CARD_DATA[language].allergens.
+export const COMMON_ALLERGENS: AllergenCode[] = [
+    'peanuts', 'tree_nuts', 'milk', 'eggs', 'crustaceans', 'molluscs', 'fish', 'soy', 'gluten', 'sesame',
+    'celery', 'mustard', 'sulphites', 'lupin'
+];
+
+// Currencies offered for the home currency and the exchange-rate table (ISO 4217)
+export const CURRENCIES: string[] = [
+    'USD', 'EUR', 'GBP', 'JPY', 'CNY', 'TWD', 'HKD', 'KRW', 'THB', 'VND', 'SGD', 'MYR', 'IDR', 'PHP',
+    'INR', 'AUD', 'NZD', 'CAD', 'CHF', 'SEK', 'NOK', 'DKK', 'MXN', 'BRL'
 ];
+export const DEFAULT_HOME_CURRENCY = 'USD';
 
 // Translations for the Chef Card
 export const CHEF_CARD_DATA: Record<Language, { 
@@ -41,83 +63,137 @@ export const CHEF_CARD_DATA: Record<Language, {
     allergyWarning: string; 
     avoidText: string; 
     thankYou: string;
-    allergens: Record<string, string>;
+    allergens: Record<AllergenCode, string>;
 }> = {
     'English': {
         title: 'Dietary Restrictions',
         allergyWarning: 'I have a severe allergy to:',
         avoidText: 'Please also avoid:',
         thankYou: 'Thank you for your help.',
-        allergens: { 'Peanuts': 'Peanuts', 'Tree Nuts': 'Tree Nuts', 'Dairy': 'Dairy', 'Eggs': 'Eggs', 'Shellfish': 'Shellfish', 'Fish': 'Fish', 'Soy': 'Soy', 'Wheat/Gluten': 'Wheat/Gluten', 'Sesame': 'Sesame' }
+        allergens: { 'gluten': 'Wheat/Gluten', 'crustaceans': 'Crustaceans', 'molluscs': 'Molluscs', 'eggs': 'Eggs', 'fish': 'Fish', 'peanuts': 'Peanuts', 'soy': 'Soy', 'milk': 'Dairy', 'tree_nuts': 'Tree Nuts', 'celery': 'Celery', 'mustard': 'Mustard', 'sesame': 'Sesame', 'sulphites': 'Sulphites', 'lupin': 'Lupin' }
     },
     'Chinese (Simplified)': {
         title: '饮食限制',
         allergyWarning: '我对以下食物严重过敏：',
         avoidText: '也请避免：',
         thankYou: '谢谢您的配合。',
-        allergens: { 'Peanuts': '花生', 'Tree Nuts': '坚果', 'Dairy': '乳制品', 'Eggs': '蛋类', 'Shellfish': '甲壳类/贝类', 'Fish': '鱼类', 'Soy': '大豆', 'Wheat/Gluten': '小麦/麸质', 'Sesame': '芝麻' }
+        allergens: { 'gluten': '小麦/麸质', 'crustaceans': '甲壳类', 'molluscs': '软体动物/贝类', 'eggs': '蛋类', 'fish': '鱼类', 'peanuts': '花生', 'soy': '大豆', 'milk': '乳制品', 'tree_nuts': '坚果', 'celery': '芹菜', 'mustard': '芥末', 'sesame': '芝麻', 'sulphites': '亚硫酸盐', 'lupin': '羽扇豆' }
     },
     'Chinese (Traditional)': {
         title: '飲食限制',
         allergyWarning: '我對以下食物嚴重過敏：',
         avoidText: '也請避免：',
         thankYou: '謝謝您的配合。',
-        allergens: { 'Peanuts': '花生', 'Tree Nuts': '堅果', 'Dairy': '乳製品', 'Eggs': '蛋類', 'Shellfish': '甲殼類/貝類', 'Fish': '魚類', 'Soy': '大豆', 'Wheat/Gluten': '小麥/麩質', 'Sesame': '芝麻' }
+        allergens: { 'gluten': '小麥/麩質', 'crustaceans': '甲殼類', 'molluscs': '軟體動物/貝類', 'eggs': '蛋類', 'fish': '魚類', 'peanuts': '花生', 'soy': '大豆', 'milk': '乳製品', 'tree_nuts': '堅果', 'celery': '芹菜', 'mustard': '芥末', 'sesame': '芝麻', 'sulphites': '亞硫酸鹽', 'lupin': '羽扇豆' }
     },
     'Japanese': {
         title: '食事制限',
         allergyWarning: '私は以下の食品に重度のアレルギーがあります：',
         avoidText: '以下も避けてください：',
         thankYou: 'ご協力ありがとうございます。',
-        allergens: { 'Peanuts': 'ピーナッツ', 'Tree Nuts': 'ナッツ類', 'Dairy': '乳製品', 'Eggs': '卵', 'Shellfish': '甲殻類・貝類', 'Fish': '魚介類', 'Soy': '大豆', 'Wheat/Gluten': '小麦・グルテン', 'Sesame': 'ゴマ' }
+        allergens: { 'gluten': '小麦・グルテン', 'crustaceans': '甲殻類', 'molluscs': '軟体動物・貝類', 'eggs': '卵', 'fish': '魚', 'peanuts': 'ピーナッツ', 'soy': '大豆', 'milk': '乳製品', 'tree_nuts': 'ナッツ類', 'celery': 'セロリ', 'mustard': 'マスタード', 'sesame': 'ゴマ', 'sulphites': '亜硫酸塩', 'lupin': 'ルピナス' }
     },
     'Korean': {
         title: '식이 제한',
         allergyWarning: '저는 다음 음식에 심한 알레르기가 있습니다:',
         avoidText: '또한 다음을 피해주세요:',
         thankYou: '협조해 주셔서 감사합니다.',
-        allergens: { 'Peanuts': '땅콩', 'Tree Nuts': '견과류', 'Dairy': '유제품', 'Eggs': '달걀', 'Shellfish': '갑각류/조개', 'Fish': '생선', 'Soy': '콩/대두', 'Wheat/Gluten': '밀/글루텐', 'Sesame': '참깨' }
+        allergens: { 'gluten': '밀/글루텐', 'crustaceans': '갑각류', 'molluscs': '연체동물/조개류', 'eggs': '달걀', 'fish': '생선', 'peanuts': '땅콩', 'soy': '콩/대두', 'milk': '유제품', 'tree_nuts': '견과류', 'celery': '셀러리', 'mustard': '겨자', 'sesame': '참깨', 'sulphites': '아황산염', 'lupin': '루핀' }
     },
     'Spanish': {
         title: 'Restricciones Dietéticas',
         allergyWarning: 'Tengo una alergia grave a:',
         avoidText: 'Por favor evite también:',
         thankYou: 'Gracias por su ayuda.',
-        allergens: { 'Peanuts': 'Cacahuetes', 'Tree Nuts': 'Frutos secos', 'Dairy': 'Lácteos', 'Eggs': 'Huevos', 'Shellfish': 'Mariscos', 'Fish': 'Pescado', 'Soy': 'Soja', 'Wheat/Gluten': 'Trigo/Gluten', 'Sesame': 'Sésamo' }
+        allergens: { 'gluten': 'Trigo/Gluten', 'crustaceans': 'Crustáceos', 'molluscs': 'Moluscos', 'eggs': 'Huevos', 'fish': 'Pescado', 'peanuts': 'Cacahuetes', 'soy': 'Soja', 'milk': 'Lácteos', 'tree_nuts': 'Frutos secos', 'celery': 'Apio', 'mustard': 'Mostaza', 'sesame': 'Sésamo', 'sulphites': 'Sulfitos', 'lupin': 'Altramuces' }
     },
     'French': {
         title: 'Restrictions Alimentaires',
         allergyWarning: 'J\'ai une allergie sévère à :',
         avoidText: 'Veuillez également éviter :',
         thankYou: 'Merci de votre aide.',
-        allergens: { 'Peanuts': 'Arachides', 'Tree Nuts': 'Fruits à coque', 'Dairy': 'Produits laitiers', 'Eggs': 'Œufs', 'Shellfish': 'Crustacés/Coquillages', 'Fish': 'Poisson', 'Soy': 'Soja', 'Wheat/Gluten': 'Blé/Gluten', 'Sesame': 'Sésame' }
+        allergens: { 'gluten': 'Blé/Gluten', 'crustaceans': 'Crustacés', 'molluscs': 'Mollusques', 'eggs': 'Œufs', 'fish': 'Poisson', 'peanuts': 'Arachides', 'soy': 'Soja', 'milk': 'Produits laitiers', 'tree_nuts': 'Fruits à coque', 'celery': 'Céleri', 'mustard': 'Moutarde', 'sesame': 'Sésame', 'sulphites': 'Sulfites', 'lupin': 'Lupin' }
     },
     'Thai': {
         title: 'ข้อจำกัดทางอาหาร',
         allergyWarning: 'ฉันแพ้อาหารต่อไปนี้อย่างรุนแรง:',
         avoidText: 'โปรดหลีกเลี่ยง:',
         thankYou: 'ขอบคุณสำหรับความช่วยเหลือ',
-        allergens: { 'Peanuts': 'ถั่วลิสง', 'Tree Nuts': 'ถั่วเปลือกแข็ง', 'Dairy': 'นม/ผลิตภัณฑ์นม', 'Eggs': 'ไข่', 'Shellfish': 'สัตว์มีเปลือก/อาหารทะเล', 'Fish': 'ปลา', 'Soy': 'ถั่วเหลือง', 'Wheat/Gluten': 'ข้าวสาลี/กลูเตน', 'Sesame': 'งา' }
+        allergens: { 'gluten': 'ข้าวสาลี/กลูเตน', 'crustaceans': 'กุ้ง/ปู (สัตว์มีเปลือก)', 'molluscs': 'หอย/ปลาหมึก', 'eggs': 'ไข่', 'fish': 'ปลา', 'peanuts': 'ถั่วลิสง', 'soy': 'ถั่วเหลือง', 'milk': 'นม/ผลิตภัณฑ์นม', 'tree_nuts': 'ถั่วเปลือกแข็ง', 'celery': 'ขึ้นฉ่าย', 'mustard': 'มัสตาร์ด', 'sesame': 'งา', 'sulphites': 'ซัลไฟต์', 'lupin': 'ลูปิน' }
     },
     'Vietnamese': {
         title: 'Hạn chế ăn uống',
         allergyWarning: 'Tôi bị dị ứng nghiêm trọng với:',
         avoidText: 'Vui lòng tránh:',
         thankYou: 'Cảm ơn sự giúp đỡ của bạn.',
-        allergens: { 'Peanuts': 'Đậu phộng', 'Tree Nuts': 'Các loại hạt', 'Dairy': 'Sản phẩm từ sữa', 'Eggs': 'Trứng', 'Shellfish': 'Động vật có vỏ', 'Fish': 'Cá', 'Soy': 'Đậu nành', 'Wheat/Gluten': 'Lúa mì/Gluten', 'Sesame': 'Mè' }
+        allergens: { 'gluten': 'Lúa mì/Gluten', 'crustaceans': 'Giáp xác', 'molluscs': 'Động vật thân mềm', 'eggs': 'Trứng', 'fish': 'Cá', 'peanuts': 'Đậu phộng', 'soy': 'Đậu nành', 'milk': 'Sản phẩm từ sữa', 'tree_nuts': 'Các loại hạt', 'celery': 'Cần tây', 'mustard': 'Mù tạt', 'sesame': 'Mè', 'sulphites': 'Sulfit', 'lupin': 'Đậu lupin' }
     },
     'German': {
         title: 'Ernährungseinschränkungen',
         allergyWarning: 'Ich habe eine schwere Allergie gegen:',
         avoidText: 'Bitte vermeiden Sie auch:',
         thankYou: 'Vielen Dank für Ihre Hilfe.',
-        allergens: { 'Peanuts': 'Erdnüsse', 'Tree Nuts': 'Schalenfrüchte', 'Dairy': 'Milchprodukte', 'Eggs': 'Eier', 'Shellfish': 'Krebstiere/Muscheln', 'Fish': 'Fisch', 'Soy': 'Soja', 'Wheat/Gluten': 'Weizen/Gluten', 'Sesame': 'Sesam' }
+        allergens: { 'gluten': 'Weizen/Gluten', 'crustaceans': 'Krebstiere', 'molluscs': 'Weichtiere', 'eggs': 'Eier', 'fish': 'Fisch', 'peanuts': 'Erdnüsse', 'soy': 'Soja', 'milk': 'Milchprodukte', 'tree_nuts': 'Schalenfrüchte', 'celery': 'Sellerie', 'mustard': 'Senf', 'sesame': 'Sesam', 'sulphites': 'Sulfite', 'lupin': 'Lupinen' }
     },
     'Italian': {
         title: 'Restrizioni Alimentari',
         allergyWarning: 'Ho una grave allergia a:',
         avoidText: 'Si prega di evitare anche:',
         thankYou: 'Grazie per il vostro aiuto.',
-        allergens: { 'Peanuts': 'Arachidi', 'Tree Nuts': 'Frutta a guscio', 'Dairy': 'Latticini', 'Eggs': 'Uova', 'Shellfish': 'Crostacei/Molluschi', 'Fish': 'Pesce', 'Soy': 'Soia', 'Wheat/Gluten': 'Grano/Glutine', 'Sesame': 'Sesamo' }
+        allergens: { 'gluten': 'Grano/Glutine', 'crustaceans': 'Crostacei', 'molluscs': 'Molluschi', 'eggs': 'Uova', 'fish': 'Pesce', 'peanuts': 'Arachidi', 'soy': 'Soia', 'milk': 'Latticini', 'tree_nuts': 'Frutta a guscio', 'celery': 'Sedano', 'mustard': 'Senape', 'sesame': 'Sesamo', 'sulphites': 'Solfiti', 'lupin': 'Lupini' }
+    }
+};
+
+// Per-item requests offered in the order builder, in display order
+export const ORDER_REQUESTS: OrderRequest[] = ['not_spicy', 'less_spicy', 'extra_spicy', 'sauce_on_side', 'no_cilantro', 'no_msg'];
+
+// Translations for the order card shown to the waiter
+export const ORDER_CARD_DATA: Record<Language, {
+    title: string;
+    requests: Record<OrderRequest, string>;
+}> = {
+    'English': {
+        title: 'Our Order',
+        requests: { 'not_spicy': 'Not spicy', 'less_spicy': 'Less spicy', 'extra_spicy': 'Extra spicy', 'sauce_on_side': 'Sauce on the side', 'no_cilantro': 'No cilantro', 'no_msg': 'No MSG' }
+    },
+    'Chinese (Simplified)': {
+        title: '我们的点单',
+        requests: { 'not_spicy': '不要辣', 'less_spicy': '少辣', 'extra_spicy': '多加辣', 'sauce_on_side': '酱汁另放', 'no_cilantro': '不要香菜', 'no_msg': '不要味精' }
+    },
+    'Chinese (Traditional)': {
+        title: '我們的點餐',
+        requests: { 'not_spicy': '不要辣', 'less_spicy': '少辣', 'extra_spicy': '多加辣', 'sauce_on_side': '醬汁另放', 'no_cilantro': '不要香菜', 'no_msg': '不要味精' }
+    },
+    'Japanese': {
+        title: '注文',
+        requests: { 'not_spicy': '辛くしないでください', 'less_spicy': '辛さ控えめ', 'extra_spicy': '辛さ増し', 'sauce_on_side': 'ソースは別添えで', 'no_cilantro': 'パクチー抜き', 'no_msg': '化学調味料なし' }
+    },
+    'Korean': {
+        title: '주문',
+        requests: { 'not_spicy': '안 맵게', 'less_spicy': '덜 맵게', 'extra_spicy': '더 맵게', 'sauce_on_side': '소스는 따로', 'no_cilantro': '고수 빼주세요', 'no_msg': 'MSG 빼주세요' }
+    },
+    'Spanish': {
+        title: 'Nuestro pedido',
+        requests: { 'not_spicy': 'Sin picante', 'less_spicy': 'Poco picante', 'extra_spicy': 'Extra picante', 'sauce_on_side': 'Salsa aparte', 'no_cilantro': 'Sin cilantro', 'no_msg': 'Sin glutamato' }
+    },
+    'French': {
+        title: 'Notre commande',
+        requests: { 'not_spicy': 'Pas épicé', 'less_spicy': 'Peu épicé', 'extra_spicy': 'Très épicé', 'sauce_on_side': 'Sauce à part', 'no_cilantro': 'Sans coriandre', 'no_msg': 'Sans glutamate' }
+    },
+    'Thai': {
+        title: 'รายการสั่งอาหาร',
+        requests: { 'not_spicy': 'ไม่เผ็ด', 'less_spicy': 'เผ็ดน้อย', 'extra_spicy': 'เผ็ดมาก', 'sauce_on_side': 'แยกซอส', 'no_cilantro': 'ไม่ใส่ผักชี', 'no_msg': 'ไม่ใส่ผงชูรส' }
+    },
+    'Vietnamese': {
+        title: 'Món chúng tôi gọi',
+        requests: { 'not_spicy': 'Không cay', 'less_spicy': 'Ít cay', 'extra_spicy': 'Thật cay', 'sauce_on_side': 'Để nước sốt riêng', 'no_cilantro': 'Không ngò', 'no_msg': 'Không bột ngọt' }
+    },
+    'German': {
+        title: 'Unsere Bestellung',
+        requests: { 'not_spicy': 'Nicht scharf', 'less_spicy': 'Weniger scharf', 'extra_spicy': 'Extra scharf', 'sauce_on_side': 'Soße separat', 'no_cilantro': 'Ohne Koriander', 'no_msg': 'Ohne Glutamat' }
+    },
+    'Italian': {
+        title: 'Il nostro ordine',
+        requests: { 'not_spicy': 'Non piccante', 'less_spicy': 'Poco piccante', 'extra_spicy': 'Molto piccante', 'sauce_on_side': 'Salsa a parte', 'no_cilantro': 'Senza coriandolo', 'no_msg': 'Senza glutammato' }
     }
 };
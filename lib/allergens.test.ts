@@ -0,0 +1,52 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { findAllergenConflicts, migrateProfileAllergens, resolveAllergenCodes, toAllergenCodes } from './allergens';
+
+describe('toAllergenCodes', () => {
+    it('maps labels saved before allergen codes, in any UI language', () => {
+        expect(toAllergenCodes(['Peanuts', '花生', 'Crustacés', 'milk'])).toEqual(['peanuts', 'crustaceans', 'milk']);
+        expect(toAllergenCodes(['Shellfish'])).toEqual(['crustaceans', 'molluscs']);
+        expect(toAllergenCodes(null)).toEqual([]);
+    });
+
+    it('drops what it cannot map', () => {
+        expect(toAllergenCodes(['coriander', 'gluten'])).toEqual(['gluten']);
+    });
+});
+
+describe('migrateProfileAllergens', () => {
+    it('turns legacy English labels into codes and keeps custom entries', () => {
+        expect(migrateProfileAllergens(['Peanuts', 'Shellfish', 'Wheat/Gluten', 'Coriander'])).toEqual(['peanuts', 'crustaceans', 'molluscs', 'gluten', 'Coriander']);
+    });
+
+    it('is idempotent', () => {
+        const migrated = migrateProfileAllergens(['Dairy', 'Tree Nuts', 'kiwi']);
+        expect(migrateProfileAllergens(migrated)).toEqual(migrated);
+        expect(migrateProfileAllergens(undefined)).toEqual([]);
+    });
+});
+
+describe('findAllergenConflicts', () => {
+    it('returns the profile entries a dish triggers, custom entries through synonyms', () => {
+        expect(findAllergenConflicts({ allergens: ['crustaceans', 'soy'] }, ['Shrimp', 'soy', 'fish'])).toEqual(['Shrimp', 'soy']);
+        expect(findAllergenConflicts({ allergens: [] }, ['soy'])).toEqual([]);
+    });
+});
+
+// The one-time SQL rewrite of scans.allergens must map labels the same way the app reads them
+describe('legacy allergen migration in supabase_schema.sql', () => {
+    const schema = readFileSync(new URL('../supabase_schema.sql', import.meta.url), 'utf8');
+    const table = schema.slice(schema.indexOf('with legacy_allergen_labels'), schema.indexOf(') as known(code, labels)'));
+    const rows = [...table.matchAll(/\('(\w+)', array\[([^\]]*)\]\)/g)].map(([, code, labels]) =>
+        ({ code, labels: [...labels.matchAll(/'([^']*)'/g)].map(([, label]) => label) }));
+
+    it('covers every allergen code', () => {
+        expect(rows.map(row => row.code).sort()).toEqual(['celery', 'crustaceans', 'eggs', 'fish', 'gluten', 'lupin', 'milk', 'molluscs', 'mustard', 'peanuts', 'sesame', 'soy', 'sulphites', 'tree_nuts']);
+    });
+
+    it('only maps labels the app also reads as that code', () => {
+        rows.forEach(({ code, labels }) => labels.forEach(label => {
+            expect(resolveAllergenCodes(label), label).toContain(code);
+        }));
+    });
+});
@@ -0,0 +1,160 @@
+import { AllergenCode, Dish, Language } from '../types';
+import { COMMON_ALLERGENS, CHEF_CARD_DATA } from '../constants';
+
+// Extra spellings the model (or older app versions) produced on top of the Chef Card labels.
+const EXTRA_SYNONYMS: Record<AllergenCode, string[]> = {
+    'peanuts': ['peanut', 'groundnut', 'arachide', 'cacahuete', 'mani', 'erdnuss', 'nocciolina', '落花生', 'ピーナツ', 'lạc'],
+    'tree_nuts': ['nuts', 'nut', 'almond', 'cashew', 'walnut', 'hazelnut', 'pecan', 'pistachio', 'macadamia', 'pine nut', 'noix', 'noisette', 'amande', 'nueces', 'almendra', 'nüsse', 'mandel', 'noci', 'mandorla', '杏仁', '腰果', '核桃', '榛子', 'アーモンド', 'くるみ', '호두', '아몬드', 'hạt điều'],
+    'milk': ['milk', 'lactose', 'cheese', 'butter', 'cream', 'yogurt', 'ghee', 'lait', 'fromage', 'beurre', 'crème', 'leche', 'queso', 'milch', 'käse', 'sahne', 'latte', 'formaggio', '牛奶', '奶', '乳', '奶酪', '牛乳', 'チーズ', '우유', '치즈', 'sữa', 'นม'],
+    'eggs': ['egg', 'huevo', 'œuf', 'oeuf', 'ei', 'uovo', '鸡蛋', '雞蛋', '蛋', 'たまご', '玉子', '계란', 'trứng'],
+    'crustaceans': ['crustacean', 'shrimp', 'prawn', 'crab', 'lobster', 'crevette', 'gamba', 'camaron', 'garnele', 'gamberi', '虾', '蝦', '蟹', 'えび', 'エビ', 'かに', 'カニ', '새우', '꽃게', 'tôm', 'cua', 'กุ้ง', 'ปู'],
+    'molluscs': ['mollusc', 'mollusk', 'clam', 'oyster', 'mussel', 'scallop', 'squid', 'octopus', 'coquillage', 'muschel', '贝类', '貝類', '蚝', '牡蠣', '조개', '굴', 'hàu', 'mực', 'หอย'],
+    'fish': ['fish sauce', 'anchovy', 'salmon', 'tuna', 'cod', 'poisson', 'pescado', 'fisch', 'pesce', '鱼', '魚', '鱼露', '멸치', 'nước mắm', 'น้ำปลา'],
+    'soy': ['soya', 'soybean', 'soy sauce', 'tofu', 'edamame', 'soja', 'soia', '豆腐', '酱油', '醬油', '醤油', '두부', 'đậu phụ', 'เต้าหู้'],
+    'gluten': ['wheat', 'gluten', 'flour', 'barley', 'rye', 'blé', 'trigo', 'weizen', 'grano', 'glutine', 'frumento', '麸质', '麩質', '面粉', '밀', 'lúa mì'],
+    'sesame': ['sésamo', 'sésame', 'sesam', 'sesamo', 'tahini', '胡麻', 'ごま', 'vừng'],
+    'celery': ['celeriac', 'céleri', 'sellerie', 'sedano', '西芹', 'セロリ'],
+    'mustard': ['moutarde', 'mostaza', 'senf', 'senape', '芥末', 'からし', '겨자'],
+    'sulphites': ['sulfite', 'sulphite', 'sulfur dioxide', 'sulphur dioxide', 'sulfitos', 'solfiti'],
+    'lupin': ['lupine', 'lupino', 'altramuz']
+};
+
+// Umbrella terms (mostly labels from before allergen codes) that cover more than one code
+const UMBRELLA_SYNONYMS: [string, AllergenCode[]][] = [
+    ['shellfish', ['crustaceans', 'molluscs']],
+    ['seafood', ['crustaceans', 'molluscs']],
+    ['marisco', ['crustaceans', 'molluscs']],
+    ['fruits de mer', ['crustaceans', 'molluscs']],
+    ['meeresfrüchte', ['crustaceans', 'molluscs']],
+    ['frutti di mare', ['crustaceans', 'molluscs']],
+    ['海鲜', ['crustaceans', 'molluscs']],
+    ['海鮮', ['crustaceans', 'molluscs']],
+    ['魚介類', ['fish', 'crustaceans', 'molluscs']],
+    ['해산물', ['crustaceans', 'molluscs']],
+    ['hải sản', ['crustaceans', 'molluscs']],
+    ['động vật có vỏ', ['crustaceans', 'molluscs']],
+    ['สัตว์มีเปลือก', ['crustaceans', 'molluscs']],
+    ['อาหารทะเล', ['crustaceans', 'molluscs']]
+];
+
+// Profile values written by the app before allergen codes existed
+const LEGACY_PROFILE_ALLERGENS: Record<string, AllergenCode[]> = {
+    'Peanuts': ['peanuts'],
+    'Tree Nuts': ['tree_nuts'],
+    'Dairy': ['milk'],
+    'Eggs': ['eggs'],
+    'Shellfish': ['crustaceans', 'molluscs'],
+    'Fish': ['fish'],
+    'Soy': ['soy'],
+    'Wheat/Gluten': ['gluten'],
+    'Sesame': ['sesame']
+};
+
+// Scripts written without spaces are matched by substring, everything else by whole words
+const NON_LATIN = /[^\u0000-\u024f\s]/;
+
+export const isAllergenCode = (value: string): value is AllergenCode => {
+    return (COMMON_ALLERGENS as string[]).includes(value);
+};
+
+// Display label for a code in the given language; custom (non-code) entries are returned as-is
+export const getAllergenLabel = (allergen: string, language: Language): string => {
+    if (!isAllergenCode(allergen)) return allergen;
+    return CHEF_CARD_DATA[language].allergens[allergen] || CHEF_CARD_DATA['English'].allergens[allergen];
+};
+
+/**
+ * Lowercase, strip accents and punctuation, and naively singularize Latin words
+ * so that "Crustacés", "crustacé" and "CRUSTACES" all compare equal.
+ */
+export const normalizeAllergenText = (text: string): string => {
+    return text
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .normalize('NFC')
+        .toLowerCase()
+        .replace(/đ/g, 'd')
+        .replace(/œ/g, 'oe')
+        .replace(/[\/・,;:()&+\-.]/g, ' ')
+        .split(/\s+/)
+        .filter(Boolean)
+        .map(word => (!NON_LATIN.test(word) && word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) ? word.slice(0, -1) : word)
+        .join(' ');
+};
+
+// [normalized synonym, codes], longest first so "땅콩" (peanut) wins over "콩" (soy)
+const SYNONYM_TABLE: [string, AllergenCode[]][] = (() => {
+    const entries = new Map<string, Set<AllergenCode>>();
+    const add = (term: string, codes: AllergenCode[]) => {
+        term.split(/[\/・]/).forEach(part => {
+            const normalized = normalizeAllergenText(part);
+            if (!normalized) return;
+            const existing = entries.get(normalized) || new Set<AllergenCode>();
+            codes.forEach(code => existing.add(code));
+            entries.set(normalized, existing);
+        });
+    };
+
+    COMMON_ALLERGENS.forEach(code => {
+        add(code.replace('_', ' '), [code]);
+        Object.values(CHEF_CARD_DATA).forEach(lang => add(lang.allergens[code], [code]));
+        EXTRA_SYNONYMS[code].forEach(term => add(term, [code]));
+    });
+    UMBRELLA_SYNONYMS.forEach(([term, codes]) => add(term, codes));
+
+    return [...entries.entries()]
+        .map(([term, codes]): [string, AllergenCode[]] => [term, [...codes]])
+        .sort((a, b) => b[0].length - a[0].length);
+})();
+
+/**
+ * Resolve a free-text allergen label (in any supported language) to the codes it mentions.
+ * A label can mention more than one ("Wheat & Soy", "Shellfish").
+ */
+export const resolveAllergenCodes = (label: string): AllergenCode[] => {
+    if (isAllergenCode(label)) return [label];
+
+    let remaining = ` ${normalizeAllergenText(label)} `;
+    const codes = new Set<AllergenCode>();
+
+    for (const [term, termCodes] of SYNONYM_TABLE) {
+        const needle = NON_LATIN.test(term) ? term : ` ${term} `;
+        const index = remaining.indexOf(needle);
+        if (index === -1) continue;
+
+        termCodes.forEach(code => codes.add(code));
+        // Consume the match so shorter synonyms inside it don't fire as well
+        remaining = remaining.slice(0, index) + ' '.repeat(needle.length) + remaining.slice(index + needle.length);
+    }
+
+    return [...codes];
+};
+
+/**
+ * Migrate a stored `scans.allergens` value (codes, or localized text from before codes existed)
+ * to canonical codes. Unrecognized labels are dropped.
+ */
+export const toAllergenCodes = (values: string[] | null | undefined): AllergenCode[] => {
+    if (!values) return [];
+    return [...new Set(values.flatMap(resolveAllergenCodes))];
+};
+
+// Migrate a stored profile allergen list: legacy English labels become codes, custom entries are kept
+export const migrateProfileAllergens = (values: string[] | null | undefined): string[] => {
+    if (!values) return [];
+    return [...new Set(values.flatMap(value => LEGACY_PROFILE_ALLERGENS[value] || [value]))];
+};
+
+/**
+ * Compare a dish's allergen codes against the user's profile allergens.
+ * Returns the profile entries (as stored on the profile) that the dish triggers.
+ * Custom profile entries are matched through the synonym table, e.g. "Shrimp" hits `crustaceans`.
+ */
+export const findAllergenConflicts = (dish: Pick<Dish, 'allergens'>, profileAllergens: string[]): string[] => {
+    if (!dish.allergens || dish.allergens.length === 0 || profileAllergens.length === 0) return [];
+
+    const dishCodes = new Set<AllergenCode>(dish.allergens);
+    return profileAllergens.filter(profileAllergen =>
+        resolveAllergenCodes(profileAllergen).some(code => dishCodes.has(code))
+    );
+};
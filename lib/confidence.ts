@@ -0,0 +1,56 @@
+import { AllergenCode, Dish, Language } from '../types';
+import { LOW_CONFIDENCE_THRESHOLD } from '../constants';
+import { getAllergenLabel, resolveAllergenCodes } from './allergens';
+
+// How a low-confidence allergen is written in each language; `{label}` is the allergen's name.
+// Placed after the name where a prefix would need to agree with it
+const POSSIBLE_TEMPLATES: Record<Language, string> = {
+    'English': 'possible {label}',
+    'Chinese (Simplified)': '可能含{label}',
+    'Chinese (Traditional)': '可能含{label}',
+    'Japanese': '{label}（可能性あり）',
+    'Korean': '{label}(가능성 있음)',
+    'Spanish': '{label} (posible)',
+    'French': '{label} (possible)',
+    'Thai': 'อาจมี{label}',
+    'Vietnamese': 'có thể có {label}',
+    'German': '{label} (möglich)',
+    'Italian': '{label} (possibile)'
+};
+
+const toPossible = (label: string, language: Language): string =>
+    (POSSIBLE_TEMPLATES[language] || POSSIBLE_TEMPLATES['English']).replace('{label}', label);
+
+// A missing score is not low: older scans have none and were shown as certain
+export const isLowConfidence = (score: number | undefined): boolean =>
+    score !== undefined && score < LOW_CONFIDENCE_THRESHOLD;
+
+export const isPossibleAllergen = (dish: Dish, allergen: AllergenCode): boolean =>
+    isLowConfidence(dish.confidence?.allergens?.[allergen]);
+
+// True if any field of the dish is a guess, for a marker on list rows
+export const hasLowConfidence = (dish: Dish): boolean =>
+    isLowConfidence(dish.confidence?.identity) ||
+    isLowConfidence(dish.confidence?.spiceLevel) ||
+    dish.allergens.some(allergen => isPossibleAllergen(dish, allergen));
+
+// "Peanuts", or "possible Peanuts" (in `language`) when the model was unsure
+export const getAllergenText = (dish: Dish, allergen: AllergenCode, language: Language): string => {
+    const label = getAllergenLabel(allergen, language);
+    return isPossibleAllergen(dish, allergen) ? toPossible(label, language) : label;
+};
+
+// A profile allergen conflict is uncertain when every dish allergen it matches is a guess
+export const isUncertainConflict = (dish: Dish, profileAllergen: string): boolean => {
+    const matched = resolveAllergenCodes(profileAllergen).filter(code => dish.allergens.includes(code));
+    return matched.length > 0 && matched.every(code => isPossibleAllergen(dish, code));
+};
+
+// Labels of the profile allergens a dish triggers, and whether all of them are only possible
+export const describeConflicts = (dish: Dish, conflicts: string[], language: Language): { labels: string[]; uncertain: boolean } => ({
+    labels: conflicts.map(conflict => {
+        const label = getAllergenLabel(conflict, language);
+        return isUncertainConflict(dish, conflict) ? toPossible(label, language) : label;
+    }),
+    uncertain: conflicts.length > 0 && conflicts.every(conflict => isUncertainConflict(dish, conflict))
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { convertPrice, getMinorDigits, normalizeCurrency, parsePrice } from './currency';
+
+describe('parsePrice', () => {
+    it('passes numbers through and rejects negative or non-finite ones', () => {
+        expect(parsePrice(12.5)).toBe(12.5);
+        expect(parsePrice(-1)).toBeUndefined();
+        expect(parsePrice(NaN)).toBeUndefined();
+        expect(parsePrice(null)).toBeUndefined();
+    });
+
+    it('reads prices printed with symbols and separators', () => {
+        expect(parsePrice('¥ 980')).toBe(980);
+        expect(parsePrice('$12.50')).toBe(12.5);
+        expect(parsePrice('12,50 €')).toBe(12.5);
+        expect(parsePrice('1,200')).toBe(1200);
+        expect(parsePrice('1.200.000')).toBe(1200000);
+        expect(parsePrice('1,250.99')).toBe(1250.99);
+        expect(parsePrice('.5')).toBe(0.5);
+        expect(parsePrice('market price')).toBeUndefined();
+    });
+
+    it('reads a point before three digits as decimals in three-digit currencies', () => {
+        expect(parsePrice('1.250', 'KWD')).toBe(1.25);
+        expect(parsePrice('BD 0.750', 'BHD')).toBe(0.75);
+        expect(parsePrice('1,250.500', 'KWD')).toBe(1250.5);
+        expect(parsePrice('1.200.000', 'OMR')).toBe(1200000);
+        expect(parsePrice('1.250', 'JPY')).toBe(1250);
+    });
+});
+
+describe('normalizeCurrency', () => {
+    it('maps codes, symbols and local words to ISO codes', () => {
+        expect(normalizeCurrency('jpy')).toBe('JPY');
+        expect(normalizeCurrency('円')).toBe('JPY');
+        expect(normalizeCurrency('rm')).toBe('MYR');
+        expect(normalizeCurrency('dollars')).toBeUndefined();
+        expect(normalizeCurrency(5)).toBeUndefined();
+    });
+});
+
+describe('getMinorDigits', () => {
+    it('knows how many decimals a currency uses', () => {
+        expect(getMinorDigits('JPY')).toBe(0);
+        expect(getMinorDigits('USD')).toBe(2);
+        expect(getMinorDigits('KWD')).toBe(3);
+        expect(getMinorDigits(undefined)).toBe(2);
+        expect(getMinorDigits('not a code')).toBe(2);
+    });
+});
+
+describe('convertPrice', () => {
+    it('converts with the user\'s rate table', () => {
+        expect(convertPrice(1000, 'JPY', 'USD', { JPY: 0.0067 })).toBeCloseTo(6.7);
+        expect(convertPrice(10, 'USD', 'USD', {})).toBe(10);
+        expect(convertPrice(10, 'EUR', 'USD', {})).toBeNull();
+    });
+});
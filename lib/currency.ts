@@ -0,0 +1,64 @@
+import { ExchangeRates } from '../types';
+
+// Symbols and local words the model may return instead of an ISO code. Ambiguous symbols map to
+// the most common currency for the menus we see ('¥' -> JPY, '$' -> USD); the model is asked for codes first.
+const CURRENCY_SYMBOLS: Record<string, string> = {
+    '$': 'USD', 'US$': 'USD', '€': 'EUR', '£': 'GBP', '¥': 'JPY', '円': 'JPY', '元': 'CNY', 'RMB': 'CNY',
+    '人民币': 'CNY', 'NT$': 'TWD', 'HK$': 'HKD', '₩': 'KRW', '원': 'KRW', '฿': 'THB', '₫': 'VND',
+    'S$': 'SGD', 'RM': 'MYR', 'Rp': 'IDR', '₱': 'PHP', '₹': 'INR', 'A$': 'AUD', 'C$': 'CAD', 'R$': 'BRL'
+};
+
+// ISO 4217 code for a code, symbol or local currency word, or undefined if unknown
+export const normalizeCurrency = (value: unknown): string | undefined => {
+    if (typeof value !== 'string') return undefined;
+    const trimmed = value.trim();
+    if (/^[A-Za-z]{3}$/.test(trimmed)) return trimmed.toUpperCase();
+    return CURRENCY_SYMBOLS[trimmed] || CURRENCY_SYMBOLS[trimmed.toUpperCase()];
+};
+
+// Digits after the decimal point in the currency's amounts (JPY 0, USD 2, KWD 3); 2 when unknown
+export const getMinorDigits = (currency?: string): number => {
+    if (!currency) return 2;
+    try {
+        return new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+    } catch {
+        return 2;
+    }
+};
+
+// Number from a price as printed ("1,200", "¥ 980", "12.50"); undefined if there is none.
+// `currency` (ISO code) tells "1.250" apart: 1250 yen, but 1.25 Kuwaiti dinar
+export const parsePrice = (value: unknown, currency?: string): number | undefined => {
+    if (typeof value === 'number') return Number.isFinite(value) && value >= 0 ? value : undefined;
+    if (typeof value !== 'string') return undefined;
+    const digits = value.replace(/[^\d.,]/g, '');
+    if (!/\d/.test(digits)) return undefined;
+    // The last separator is decimal unless exactly three digits follow it ("1,200", "1.200.000"). In
+    // currencies with three minor digits (KWD, BHD, OMR, JOD) a single point before three digits is decimal
+    const lastSeparator = Math.max(digits.lastIndexOf('.'), digits.lastIndexOf(','));
+    const integer = digits.slice(0, Math.max(0, lastSeparator)).replace(/[.,]/g, '');
+    const fraction = digits.slice(lastSeparator + 1);
+    const isThousands = fraction.length === 3 &&
+        !(getMinorDigits(currency) === 3 && digits[lastSeparator] === '.' && digits.indexOf('.') === lastSeparator);
+    const normalized = lastSeparator === -1 ? digits
+        : isThousands ? integer + fraction
+        : `${integer || '0'}.${fraction}`;
+    const price = parseFloat(normalized);
+    return Number.isFinite(price) ? price : undefined;
+};
+
+// Convert with the user's own table, so it works offline. Null when there is no rate for `from`.
+export const convertPrice = (amount: number, from: string, homeCurrency: string, rates: ExchangeRates): number | null => {
+    if (from === homeCurrency) return amount;
+    const rate = rates[from];
+    return typeof rate === 'number' && rate > 0 ? amount * rate : null;
+};
+
+export const formatPrice = (amount: number, currency?: string): string => {
+    if (!currency) return amount.toLocaleString();
+    try {
+        return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+    } catch {
+        return `${amount.toLocaleString()} ${currency}`;
+    }
+};
@@ -0,0 +1,85 @@
+import { GoogleGenAI } from "@google/genai";
+import { Dish, DishMessage } from '../types';
+import { GEMINI_MODEL } from './recognition';
+import { preprocessImage } from './image';
+
+// Follow-up questions don't need a full-resolution photo
+const CHAT_IMAGE_MAX_DIMENSION = 1024;
+
+export interface DishQuestionContext {
+    dish: Dish;
+    imageUrl?: string | null; // The photo the dish was scanned from (menu page or food photo)
+    profileAllergens: string[];
+}
+
+// The parts of the dish record worth grounding answers in; images, translations and the chat itself are left out
+const toDishRecord = (dish: Dish) => ({
+    name: dish.name,
+    originalName: dish.originalName,
+    description: dish.description,
+    category: dish.category,
+    tags: dish.tags,
+    allergens: dish.allergens,
+    spiceLevel: dish.spiceLevel,
+    ingredients: dish.ingredients,
+    nutrition: dish.nutrition,
+    confidence: dish.confidence,
+    price: dish.price,
+    currency: dish.currency,
+    fromMenu: !!dish.isMenu
+});
+
+// The scan photo as inline data, or null if it can't be loaded (e.g. offline); answers then rely on the record
+const loadImagePart = async (imageUrl: string) => {
+    try {
+        const response = await fetch(imageUrl);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const image = await preprocessImage(await response.blob(), { maxDimension: CHAT_IMAGE_MAX_DIMENSION });
+        return { inlineData: { mimeType: image.mimeType, data: image.data } };
+    } catch (error) {
+        console.error('Error loading scan photo for question:', error);
+        return null;
+    }
+};
+
+const buildSystemInstruction = ({ dish, profileAllergens }: DishQuestionContext): string =>
+    `You answer a diner's follow-up questions about one dish they scanned.
+     Ground every answer in the dish record below and the scan photo, plus general culinary knowledge of this dish.
+     Say clearly when something depends on the restaurant's recipe, and suggest asking the staff in that case.
+     ${profileAllergens.length > 0
+        ? `The diner avoids: ${profileAllergens.join(', ')}. Point out any risk from these, even if not asked.`
+        : 'The diner has not listed any allergens.'}
+     Answer in the language of the question, in at most a few short sentences.
+
+     Dish record: ${JSON.stringify(toDishRecord(dish))}`;
+
+/**
+ * Ask the model a question about a scanned dish, continuing the conversation stored on it.
+ * Returns the answer text; the caller appends both messages to `dish.conversation`.
+ */
+export const askAboutDish = async (
+    context: DishQuestionContext,
+    question: string,
+    apiKey: string | undefined = process.env.API_KEY
+): Promise<string> => {
+    const ai = new GoogleGenAI({ apiKey });
+    const history: DishMessage[] = context.dish.conversation || [];
+
+    // The photo goes with the first turn so later turns can refer back to it
+    const imagePart = context.imageUrl ? await loadImagePart(context.imageUrl) : null;
+    const turns = [...history, { role: 'user' as const, text: question }];
+    const contents = turns.map((message, i) => ({
+        role: message.role,
+        parts: i === 0 && imagePart ? [imagePart, { text: message.text }] : [{ text: message.text }]
+    }));
+
+    const response = await ai.models.generateContent({
+        model: GEMINI_MODEL,
+        contents,
+        config: { systemInstruction: buildSystemInstruction(context) }
+    });
+
+    const answer = response.text?.trim();
+    if (!answer) throw new Error('Empty answer');
+    return answer;
+};
@@ -0,0 +1,87 @@
+import { Dish, DishMessage } from '../types';
+
+const DB_NAME = 'snap-eat-conversations';
+const DB_VERSION = 1;
+const STORE = 'conversations';
+
+interface LocalConversation {
+    dishId: string;
+    conversation: DishMessage[];
+    updatedAt: number;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                request.result.createObjectStore(STORE, { keyPath: 'dishId' });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Let a later call try again (e.g. after private browsing blocked the first open)
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+/**
+ * Keep a copy of a dish's conversation on the device, so it survives a failed or skipped
+ * database write (offline, signed out). Best effort: failures are logged.
+ */
+export const saveLocalConversation = async (dishId: string, conversation: DishMessage[]): Promise<void> => {
+    try {
+        const db = await openDb();
+        const entry: LocalConversation = { dishId, conversation, updatedAt: Date.now() };
+        await requestToPromise(db.transaction(STORE, 'readwrite').objectStore(STORE).put(entry));
+    } catch (error) {
+        console.error('Error saving conversation on this device:', error);
+    }
+};
+
+/**
+ * Fill in conversations from the device copy where it holds more messages than the dish
+ * (the database write never happened, or there is no database row). Dishes without one are returned as-is.
+ */
+export const withLocalConversations = async <T extends Dish>(dishes: T[]): Promise<T[]> => {
+    if (dishes.length === 0) return dishes;
+    try {
+        const db = await openDb();
+        const entries: LocalConversation[] = await requestToPromise(db.transaction(STORE, 'readonly').objectStore(STORE).getAll());
+        const byDish = new Map(entries.map(entry => [entry.dishId, entry.conversation]));
+        return dishes.map(dish => {
+            const local = byDish.get(dish.id);
+            return local && local.length > (dish.conversation?.length || 0) ? { ...dish, conversation: local } : dish;
+        });
+    } catch (error) {
+        console.error('Error reading conversations on this device:', error);
+        return dishes;
+    }
+};
+
+// Forget the device copies of deleted dishes
+export const deleteLocalConversations = async (dishIds: string[]): Promise<void> => {
+    if (dishIds.length === 0) return;
+    try {
+        const db = await openDb();
+        const tx = db.transaction(STORE, 'readwrite');
+        const store = tx.objectStore(STORE);
+        dishIds.forEach(id => store.delete(id));
+        await new Promise<void>((resolve, reject) => {
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+    } catch (error) {
+        console.error('Error deleting conversations on this device:', error);
+    }
+};
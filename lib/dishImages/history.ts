@@ -0,0 +1,21 @@
+import { Dish } from '../../types';
+import { DishImageResolver } from './types';
+
+const dishKey = (dish: Dish) => (dish.originalName || dish.name || '').trim().toLowerCase();
+
+// The user's own photo from an earlier dish scan (not a menu) of the same dish, newest first
+export const createHistoryResolver = (): DishImageResolver => ({
+  source: 'history',
+  resolve: async (dish, { history }) => {
+    const key = dishKey(dish);
+    if (!key) return null;
+    const match = history.find(past =>
+      !past.isMenu &&
+      past.id !== dish.id &&
+      !!past.image &&
+      dishKey(past) === key &&
+      !dish.rejectedImages?.includes(past.image)
+    );
+    return match?.image || null;
+  }
+});
@@ -0,0 +1,45 @@
+import { Dish, DishImageSource } from '../../types';
+import { DishImageContext, DishImageResolver, ResolvedDishImage } from './types';
+import { createHistoryResolver } from './history';
+import { createSearchResolver, DEFAULT_SEARCH_URL } from './search';
+import { createPlaceholderResolver, getPlaceholderImage } from './placeholder';
+
+export * from './types';
+export { createHistoryResolver } from './history';
+export { createSearchResolver, DEFAULT_SEARCH_URL } from './search';
+export { createPlaceholderResolver, getPlaceholderImage } from './placeholder';
+
+const DEFAULT_CHAIN = 'history,search,placeholder';
+
+// Order the chain via VITE_DISH_IMAGE_RESOLVERS (comma-separated 'history' | 'search' | 'placeholder').
+// VITE_DISH_IMAGE_SEARCH_URL replaces the search endpoint; `{query}` marks where the search terms go.
+export const getDishImageResolvers = (): DishImageResolver[] => {
+  const factories: Partial<Record<DishImageSource, () => DishImageResolver>> = {
+    history: createHistoryResolver,
+    search: () => createSearchResolver(import.meta.env.VITE_DISH_IMAGE_SEARCH_URL || DEFAULT_SEARCH_URL),
+    placeholder: createPlaceholderResolver
+  };
+  const names = (import.meta.env.VITE_DISH_IMAGE_RESOLVERS || DEFAULT_CHAIN).split(',').map((name: string) => name.trim());
+  return names.flatMap((name: string) => factories[name as DishImageSource]?.() || []);
+};
+
+/**
+ * Ask each resolver in turn for a picture of a menu dish. A resolver that throws is skipped;
+ * if none has one, the generated placeholder is used so the dish never shows a broken image.
+ */
+export const resolveDishImage = async (
+  dish: Dish,
+  context: DishImageContext,
+  resolvers: DishImageResolver[] = getDishImageResolvers()
+): Promise<ResolvedDishImage> => {
+  for (const resolver of resolvers) {
+    if (context.signal?.aborted) break;
+    try {
+      const url = await resolver.resolve(dish, context);
+      if (url) return { url, source: resolver.source };
+    } catch (error) {
+      console.error(`Error resolving dish image (${resolver.source}):`, error);
+    }
+  }
+  return { url: getPlaceholderImage(dish), source: 'placeholder' };
+};
@@ -0,0 +1,54 @@
+import { Dish } from '../../types';
+import { DishImageResolver } from './types';
+
+// Warm backgrounds in the app's palette, picked per dish so neighbouring placeholders differ
+const BACKGROUNDS = ['#e65000', '#c2410c', '#b45309', '#a16207', '#9a3412', '#7c2d12'];
+const MAX_LINE_LENGTH = 14;
+const MAX_LINES = 3;
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&'"]/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' }[c]!));
+
+const hashString = (text: string) => [...text].reduce((hash, c) => (hash * 31 + c.charCodeAt(0)) | 0, 0);
+
+// Greedy word wrap; words longer than a line (or scripts without spaces) are cut
+const wrap = (text: string): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  text.split(/\s+/).filter(Boolean).forEach(word => {
+    while (word.length > MAX_LINE_LENGTH) {
+      if (line) lines.push(line);
+      lines.push(word.slice(0, MAX_LINE_LENGTH));
+      word = word.slice(MAX_LINE_LENGTH);
+      line = '';
+    }
+    if (line && line.length + 1 + word.length > MAX_LINE_LENGTH) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  });
+  if (line) lines.push(line);
+  return lines.length > MAX_LINES ? [...lines.slice(0, MAX_LINES - 1), `${lines[MAX_LINES - 1]}…`] : lines;
+};
+
+// A square SVG data URL with the dish name and category; needs no network, so it never breaks
+export const getPlaceholderImage = (dish: Pick<Dish, 'name' | 'category'>): string => {
+  const background = BACKGROUNDS[Math.abs(hashString(dish.name || '')) % BACKGROUNDS.length];
+  const lines = wrap(dish.name || '');
+  const top = 200 - (lines.length - 1) * 22;
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="400" height="400" viewBox="0 0 400 400">
+    <rect width="400" height="400" fill="${background}"/>
+    <text x="200" y="${top - 60}" text-anchor="middle" font-size="56" fill="#fff" fill-opacity="0.35">🍽</text>
+    ${lines.map((line, i) => `<text x="200" y="${top + i * 44}" text-anchor="middle" font-family="sans-serif" font-size="36" font-weight="700" fill="#fff">${escapeXml(line)}</text>`).join('')}
+    ${dish.category ? `<text x="200" y="${top + lines.length * 44 + 16}" text-anchor="middle" font-family="sans-serif" font-size="20" fill="#fff" fill-opacity="0.8" letter-spacing="2">${escapeXml(dish.category.toUpperCase())}</text>` : ''}
+  </svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
+
+// Last resort of the chain: always resolves
+export const createPlaceholderResolver = (): DishImageResolver => ({
+  source: 'placeholder',
+  resolve: async dish => getPlaceholderImage(dish)
+});
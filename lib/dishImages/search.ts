@@ -0,0 +1,50 @@
+import { Dish } from '../../types';
+import { DishImageResolver } from './types';
+
+// Bing thumbnails, hotlinked: fast and real photos. c=7 is smart crop, w/h set the size, rs=1 resizes.
+export const DEFAULT_SEARCH_URL = 'https://tse2.mm.bing.net/th?q={query}&w=400&h=400&c=7&rs=1&p=0';
+
+// Give up on a search image that hasn't loaded by then and fall through to the next resolver
+const LOAD_TIMEOUT_MS = 5000;
+
+// Original name + English name + "food dish" finds the most accurate pictures
+const buildQuery = (dish: Dish & { englishName?: string }) =>
+  `${dish.originalName || ''} ${dish.englishName || dish.name} food dish`.trim();
+
+// Resolves once the image has actually loaded, so a broken thumbnail never reaches Results
+const canLoadImage = (url: string, signal?: AbortSignal): Promise<boolean> =>
+  new Promise(resolve => {
+    if (signal?.aborted) return resolve(false);
+    const img = new Image();
+    const finish = (ok: boolean) => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      img.onload = img.onerror = null;
+      if (!ok) img.removeAttribute('src');
+      resolve(ok);
+    };
+    const onAbort = () => finish(false);
+    const timer = setTimeout(() => finish(false), LOAD_TIMEOUT_MS);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    img.onload = () => finish(img.naturalWidth > 0);
+    img.onerror = () => finish(false);
+    img.src = url;
+  });
+
+/**
+ * Image search through a URL template; `{query}` is replaced with the URL-encoded search terms.
+ * Point VITE_DISH_IMAGE_SEARCH_URL at any endpoint that answers with an image.
+ */
+export const createSearchResolver = (template: string = DEFAULT_SEARCH_URL): DishImageResolver => {
+  const prefix = template.split('{query}')[0];
+  return {
+    source: 'search',
+    resolve: async (dish, { signal }) => {
+      // A query answers with one picture, and a retry can't rebuild the first query (validation strips
+      // englishName), so once the user rejected a search picture for the dish the search is skipped
+      if (dish.rejectedImages?.some(rejected => rejected.startsWith(prefix))) return null;
+      const url = template.replace('{query}', encodeURIComponent(buildQuery(dish)));
+      return (await canLoadImage(url, signal)) ? url : null;
+    }
+  };
+};
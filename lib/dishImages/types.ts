@@ -0,0 +1,18 @@
+import { Dish, DishImageSource } from '../../types';
+
+export interface DishImageContext {
+  history: Dish[]; // The user's earlier scans, searched for their own photo of the same dish
+  signal?: AbortSignal;
+}
+
+export interface ResolvedDishImage {
+  url: string;
+  source: DishImageSource;
+}
+
+// One source of dish pictures. `resolve` returns null when it has nothing (or only rejected pictures)
+// for the dish, and the next resolver in the chain is asked.
+export interface DishImageResolver {
+  source: DishImageSource;
+  resolve: (dish: Dish, context: DishImageContext) => Promise<string | null>;
+}
@@ -0,0 +1,249 @@
+import { SCAN_IMAGE_MAX_DIMENSION, SCAN_IMAGE_QUALITY } from '../constants';
+
+export interface PreprocessOptions {
+    maxDimension?: number; // Longest edge in pixels after downscaling
+    quality?: number; // 0-1, used for lossy output types
+    outputType?: string; // Preferred encoding; the browser may fall back to PNG
+    signal?: AbortSignal; // Stops between the decode / encode / read steps
+}
+
+export interface PreprocessedImage {
+    data: string; // Base64 without the data URL prefix
+    mimeType: string; // MIME type of `data`, always matching the actual encoding
+    width: number;
+    height: number;
+    hash?: string; // Perceptual hash of the processed image; absent if it could not be decoded
+}
+
+// Read a Blob as base64 (no "data:...;base64," prefix)
+export const blobToBase64 = (blob: Blob, signal?: AbortSignal): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(signal.reason);
+        const reader = new FileReader();
+        const onAbort = () => reader.abort();
+        reader.onload = () => {
+            const base64String = reader.result as string;
+            resolve(base64String.split(',')[1]);
+        };
+        reader.onerror = reject;
+        reader.onabort = () => reject(signal?.reason);
+        reader.onloadend = () => signal?.removeEventListener('abort', onAbort);
+        signal?.addEventListener('abort', onAbort);
+        reader.readAsDataURL(blob);
+    });
+};
+
+/**
+ * EXIF orientation (1-8) of a JPEG, or 1 if absent / not a JPEG / truncated.
+ * Only the first 64KB are read; the APP1 segment always sits at the start of the file.
+ */
+export const readExifOrientation = async (blob: Blob): Promise<number> => {
+    const view = new DataView(await blob.slice(0, 64 * 1024).arrayBuffer());
+    if (view.byteLength < 4 || view.getUint16(0) !== 0xFFD8) return 1;
+
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+        const marker = view.getUint16(offset);
+        const segmentLength = view.getUint16(offset + 2);
+        if (marker === 0xFFE1 && offset + 8 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) { // "Exif"
+            const tiff = offset + 10;
+            if (tiff + 8 > view.byteLength) return 1;
+            const little = view.getUint16(tiff) === 0x4949;
+            const ifd = tiff + view.getUint32(tiff + 4, little);
+            if (ifd + 2 > view.byteLength) return 1;
+            const entries = view.getUint16(ifd, little);
+            for (let i = 0; i < entries; i++) {
+                const entry = ifd + 2 + i * 12;
+                if (entry + 10 > view.byteLength) return 1;
+                if (view.getUint16(entry, little) === 0x0112) {
+                    const orientation = view.getUint16(entry + 8, little);
+                    return orientation >= 1 && orientation <= 8 ? orientation : 1;
+                }
+            }
+            return 1;
+        }
+        if ((marker & 0xFF00) !== 0xFF00) return 1;
+        offset += 2 + segmentLength;
+    }
+    return 1;
+};
+
+// pHash: 32x32 grayscale thumbnail -> 2D DCT -> low 8x8 frequencies compared to their median.
+// Small edits (recompression, slight exposure or framing changes) flip only a few of the 64 bits.
+const HASH_SAMPLE_SIZE = 32;
+const HASH_FREQUENCIES = 8;
+
+const DCT_COSINES = Array.from({ length: HASH_FREQUENCIES }, (_, u) =>
+    Array.from({ length: HASH_SAMPLE_SIZE }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / (2 * HASH_SAMPLE_SIZE)))
+);
+
+export const computePerceptualHash = (image: CanvasImageSource): string => {
+    const sample = document.createElement('canvas');
+    sample.width = HASH_SAMPLE_SIZE;
+    sample.height = HASH_SAMPLE_SIZE;
+    const ctx = sample.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context unavailable');
+    ctx.drawImage(image, 0, 0, HASH_SAMPLE_SIZE, HASH_SAMPLE_SIZE);
+
+    const { data } = ctx.getImageData(0, 0, HASH_SAMPLE_SIZE, HASH_SAMPLE_SIZE);
+    const luma: number[] = [];
+    for (let i = 0; i < data.length; i += 4) {
+        luma.push(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
+    }
+
+    const coefficients: number[] = [];
+    for (let u = 0; u < HASH_FREQUENCIES; u++) {
+        for (let v = 0; v < HASH_FREQUENCIES; v++) {
+            let sum = 0;
+            for (let y = 0; y < HASH_SAMPLE_SIZE; y++) {
+                for (let x = 0; x < HASH_SAMPLE_SIZE; x++) {
+                    sum += luma[y * HASH_SAMPLE_SIZE + x] * DCT_COSINES[u][y] * DCT_COSINES[v][x];
+                }
+            }
+            coefficients.push(sum);
+        }
+    }
+
+    // The DC term only tracks overall brightness, so it is left out of the median
+    const sorted = coefficients.slice(1).sort((a, b) => a - b);
+    const median = sorted[Math.floor(sorted.length / 2)];
+
+    let hex = '';
+    for (let i = 0; i < coefficients.length; i += 4) {
+        let nibble = 0;
+        for (let bit = 0; bit < 4; bit++) {
+            if (i + bit > 0 && coefficients[i + bit] > median) nibble |= 8 >> bit;
+        }
+        hex += nibble.toString(16);
+    }
+    return hex;
+};
+
+// Number of differing bits between two hex hashes of equal length
+export const hammingDistance = (a: string, b: string): number => {
+    if (a.length !== b.length) return Infinity;
+    let distance = 0;
+    for (let i = 0; i < a.length; i++) {
+        let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+        while (diff) {
+            distance += diff & 1;
+            diff >>= 1;
+        }
+    }
+    return distance;
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob> => {
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Image encoding failed')), type, quality);
+    });
+};
+
+/**
+ * Decode a photo onto a canvas with its EXIF orientation applied, scaled so the longest edge is at
+ * most `maxDimension`. Returns null for formats the browser cannot decode (e.g. HEIC outside Safari).
+ */
+const drawOriented = async (source: Blob, maxDimension: number): Promise<HTMLCanvasElement | null> => {
+    const orientation = await readExifOrientation(source);
+
+    let bitmap: ImageBitmap;
+    try {
+        // Orientation is applied manually below, so ask the decoder not to rotate
+        bitmap = await createImageBitmap(source, { imageOrientation: 'none' });
+    } catch {
+        return null;
+    }
+
+    const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+    const drawWidth = Math.round(bitmap.width * scale);
+    const drawHeight = Math.round(bitmap.height * scale);
+    const swapsAxes = orientation >= 5;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = swapsAxes ? drawHeight : drawWidth;
+    canvas.height = swapsAxes ? drawWidth : drawHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+    // Standard EXIF orientation transforms (drawn size, before rotation)
+    switch (orientation) {
+        case 2: ctx.transform(-1, 0, 0, 1, drawWidth, 0); break;
+        case 3: ctx.transform(-1, 0, 0, -1, drawWidth, drawHeight); break;
+        case 4: ctx.transform(1, 0, 0, -1, 0, drawHeight); break;
+        case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+        case 6: ctx.transform(0, 1, -1, 0, drawHeight, 0); break;
+        case 7: ctx.transform(0, -1, -1, 0, drawHeight, drawWidth); break;
+        case 8: ctx.transform(0, -1, 1, 0, 0, drawWidth); break;
+    }
+    ctx.drawImage(bitmap, 0, 0, drawWidth, drawHeight);
+    bitmap.close();
+    return canvas;
+};
+
+/**
+ * Prepare a photo for the model: decode it, apply its EXIF orientation, downscale so the
+ * longest edge is at most `maxDimension`, and re-encode it.
+ *
+ * The result is the photo as the browser displays it (an <img> also honours EXIF orientation),
+ * only uniformly smaller, so 0-1000 bounding boxes from the model map straight onto the original.
+ * Formats the browser cannot decode are passed through untouched.
+ */
+export const preprocessImage = async (source: Blob, options: PreprocessOptions = {}): Promise<PreprocessedImage> => {
+    const {
+        maxDimension = SCAN_IMAGE_MAX_DIMENSION,
+        quality = SCAN_IMAGE_QUALITY,
+        outputType = 'image/jpeg',
+        signal
+    } = options;
+
+    signal?.throwIfAborted();
+    const canvas = await drawOriented(source, maxDimension);
+    signal?.throwIfAborted();
+    if (!canvas) {
+        return {
+            data: await blobToBase64(source, signal),
+            mimeType: source.type || 'image/jpeg',
+            width: 0,
+            height: 0
+        };
+    }
+
+    const encoded = await canvasToBlob(canvas, outputType, quality);
+    signal?.throwIfAborted();
+    return {
+        data: await blobToBase64(encoded, signal),
+        mimeType: encoded.type || outputType,
+        width: canvas.width,
+        height: canvas.height,
+        hash: computePerceptualHash(canvas)
+    };
+};
+
+// Fractions (0-1) of the displayed, orientation-corrected photo
+export interface CropRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// Cut a region out of a photo at full resolution, returned as a new JPEG file
+export const cropImage = async (source: Blob, rect: CropRect, fileName = 'crop.jpg'): Promise<File> => {
+    const canvas = await drawOriented(source, Infinity);
+    if (!canvas) throw new Error('This photo format cannot be cropped in the browser');
+
+    const sx = Math.round(rect.x * canvas.width);
+    const sy = Math.round(rect.y * canvas.height);
+    const sw = Math.max(1, Math.round(rect.width * canvas.width));
+    const sh = Math.max(1, Math.round(rect.height * canvas.height));
+
+    const cropped = document.createElement('canvas');
+    cropped.width = sw;
+    cropped.height = sh;
+    const ctx = cropped.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context unavailable');
+    ctx.drawImage(canvas, sx, sy, sw, sh, 0, 0, sw, sh);
+
+    const blob = await canvasToBlob(cropped, 'image/jpeg', SCAN_IMAGE_QUALITY);
+    return new File([blob], fileName, { type: blob.type || 'image/jpeg' });
+};
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { LabelIngredient, ProductLabel } from '../types';
+import { assessLabel, highlightLabelText } from './labels';
+import fixture from '../fixtures/recognition/label.json';
+
+const label: ProductLabel = {
+    ingredientsText: fixture.ingredientsText,
+    ingredients: fixture.ingredients as LabelIngredient[],
+    mayContainText: fixture.mayContainText,
+    mayContain: fixture.mayContain as LabelIngredient[]
+};
+
+const ingredient = (name: string, originalName: string, allergens: string[] = [], uncertain = false): LabelIngredient =>
+    ({ name, originalName, allergens: allergens as LabelIngredient['allergens'], ...(uncertain ? { uncertain } : {}) });
+
+describe('assessLabel', () => {
+    it('has no verdict without profile allergens', () => {
+        expect(assessLabel(label, []).verdict).toBeNull();
+    });
+
+    it('is unsafe when an ingredient is one of the profile allergens', () => {
+        const assessment = assessLabel(label, ['milk']);
+        expect(assessment.verdict).toBe('unsafe');
+        expect(assessment.unsafe).toEqual(['milk']);
+        expect(assessment.uncertain).toEqual([]);
+        expect(assessment.ingredients.map(f => [f.ingredient.name, f.flag])).toEqual([
+            ['Shortening', 'uncertain'],
+            ['Whole milk powder', 'unsafe'],
+            ['Flavouring', 'uncertain']
+        ]);
+    });
+
+    it('is uncertain for possible traces', () => {
+        const assessment = assessLabel(label, ['peanuts']);
+        expect(assessment.verdict).toBe('uncertain');
+        expect(assessment.uncertain).toEqual(['peanuts']);
+        expect(assessment.mayContain.map(f => f.ingredient.originalName)).toEqual(['落花生']);
+    });
+
+    it('is safe when nothing matches', () => {
+        expect(assessLabel(label, ['fish', 'sesame']).verdict).toBe('safe');
+    });
+
+    it('is uncertain when no ingredients could be read', () => {
+        expect(assessLabel({ ...label, ingredients: [] }, ['fish']).verdict).toBe('uncertain');
+    });
+
+    it('matches legacy profile labels through their codes', () => {
+        expect(assessLabel(label, ['Wheat/Gluten']).unsafe).toEqual(['Wheat/Gluten']);
+    });
+
+    it('does not read 乳 inside 乳化剤 (emulsifier) as milk', () => {
+        const soyEmulsifier = { ...label, ingredients: [ingredient('Emulsifier (from soy)', '乳化剤（大豆由来）', ['soy'])], mayContain: [] };
+        expect(assessLabel(soyEmulsifier, ['milk']).verdict).toBe('safe');
+        const untagged = { ...soyEmulsifier, ingredients: [ingredient('Butter', 'バター')] };
+        expect(assessLabel(untagged, ['milk']).verdict).toBe('unsafe');
+    });
+
+    it('treats a vague ingredient without allergen codes as possibly hiding any allergen', () => {
+        const spiced = { ...label, ingredients: [ingredient('Sugar', '砂糖'), ingredient('Spices', '香辛料', [], true)], mayContain: [] };
+        const assessment = assessLabel(spiced, ['milk']);
+        expect(assessment.verdict).toBe('uncertain');
+        expect(assessment.uncertain).toEqual(['milk']);
+        expect(assessment.ingredients.map(f => [f.ingredient.name, f.flag])).toEqual([['Spices', 'uncertain']]);
+    });
+
+    it('matches custom entries by name, and treats vague ingredients as possibly hiding them', () => {
+        const coriander = { ...label, ingredients: [ingredient('Sugar', '砂糖'), ingredient('Coriander', 'コリアンダー')], mayContain: [] };
+        expect(assessLabel(coriander, ['coriander']).verdict).toBe('unsafe');
+
+        const assessment = assessLabel(label, ['coriander']);
+        expect(assessment.verdict).toBe('uncertain');
+        expect(assessment.uncertain).toEqual(['coriander']);
+
+        const plain = { ...label, ingredients: label.ingredients.filter(i => !i.uncertain), mayContain: [] };
+        expect(assessLabel(plain, ['coriander']).verdict).toBe('safe');
+    });
+});
+
+describe('highlightLabelText', () => {
+    it('marks every occurrence of a flagged ingredient, unsafe over uncertain', () => {
+        const segments = highlightLabelText('milk, butter (milk), milk fat', [
+            { ingredient: ingredient('Butter', 'butter (milk)'), flag: 'uncertain', allergens: ['milk'] },
+            { ingredient: ingredient('Milk', 'milk'), flag: 'unsafe', allergens: ['milk'] }
+        ]);
+        expect(segments).toEqual([
+            { text: 'milk', flag: 'unsafe' },
+            { text: ', ', flag: null },
+            { text: 'butter (', flag: 'uncertain' },
+            { text: 'milk', flag: 'unsafe' },
+            { text: ')', flag: 'uncertain' },
+            { text: ', ', flag: null },
+            { text: 'milk', flag: 'unsafe' },
+            { text: ' fat', flag: null }
+        ]);
+    });
+
+    it('matches case-insensitively on the text as printed', () => {
+        // 'İ' lower-cases to two characters; positions must still line up with the original text
+        const segments = highlightLabelText('İçindekiler: SÜT tozu', [
+            { ingredient: ingredient('Milk powder', 'süt tozu'), flag: 'unsafe', allergens: ['milk'] }
+        ]);
+        expect(segments).toEqual([
+            { text: 'İçindekiler: ', flag: null },
+            { text: 'SÜT tozu', flag: 'unsafe' }
+        ]);
+    });
+
+    it('returns the text unmarked when nothing is flagged', () => {
+        expect(highlightLabelText('砂糖、食塩', [])).toEqual([{ text: '砂糖、食塩', flag: null }]);
+    });
+});
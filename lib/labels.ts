@@ -0,0 +1,103 @@
+import { LabelIngredient, LabelVerdict, ProductLabel } from '../types';
+import { normalizeAllergenText, resolveAllergenCodes } from './allergens';
+
+export type LabelFlag = 'unsafe' | 'uncertain';
+
+export interface FlaggedIngredient {
+    ingredient: LabelIngredient;
+    flag: LabelFlag;
+    allergens: string[]; // Profile entries (as stored on the profile) it triggers
+}
+
+export interface LabelAssessment {
+    verdict: LabelVerdict | null; // null when the profile lists no allergens
+    unsafe: string[]; // Profile allergens the product contains
+    uncertain: string[]; // Profile allergens it may contain (traces, vague ingredients), not already unsafe
+    ingredients: FlaggedIngredient[]; // Only the ingredients that trigger something
+    mayContain: FlaggedIngredient[];
+}
+
+export interface HighlightSegment {
+    text: string;
+    flag: LabelFlag | null;
+}
+
+const unique = (values: string[]) => [...new Set(values)];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Does an ingredient trigger a profile allergen? Allergen codes are matched against the
+ * ingredient's codes; an ingredient the model gave none falls back to its translated name ("whey").
+ * Names are a last resort because of false friends: "乳化剤" (emulsifier) contains "乳" (milk).
+ * A vague ingredient ("flavouring", "spices") the model gave no codes may hide any allergen, so it
+ * counts for all of them. Custom entries ("coriander") are matched by either name, and every vague
+ * ingredient counts for them: the model only tags the allergen codes, so it may hide one.
+ */
+const triggers = (profileAllergen: string, ingredient: LabelIngredient): boolean => {
+    if (ingredient.uncertain && ingredient.allergens.length === 0) return true;
+    const codes = resolveAllergenCodes(profileAllergen);
+    if (codes.length > 0) {
+        const ingredientCodes = ingredient.allergens.length > 0 ? ingredient.allergens : resolveAllergenCodes(ingredient.name);
+        return codes.some(code => ingredientCodes.includes(code));
+    }
+    const needle = normalizeAllergenText(profileAllergen);
+    if (!needle) return false;
+    return !!ingredient.uncertain || [ingredient.name, ingredient.originalName].some(name => normalizeAllergenText(name).includes(needle));
+};
+
+const flagIngredients = (ingredients: LabelIngredient[], profileAllergens: string[], isTrace: boolean): FlaggedIngredient[] =>
+    ingredients.flatMap(ingredient => {
+        const allergens = profileAllergens.filter(allergen => triggers(allergen, ingredient));
+        if (allergens.length === 0) return [];
+        return [{ ingredient, allergens, flag: isTrace || ingredient.uncertain ? 'uncertain' as const : 'unsafe' as const }];
+    });
+
+/**
+ * Check a product label against the profile's allergens. Unsafe when an ingredient is one of them;
+ * uncertain when they only appear as possible traces or behind vague wording, or when no
+ * ingredients could be read; safe otherwise.
+ */
+export const assessLabel = (label: ProductLabel, profileAllergens: string[]): LabelAssessment => {
+    const ingredients = flagIngredients(label.ingredients, profileAllergens, false);
+    const mayContain = flagIngredients(label.mayContain, profileAllergens, true);
+
+    const unsafe = unique(ingredients.filter(i => i.flag === 'unsafe').flatMap(i => i.allergens));
+    const uncertain = unique([...ingredients, ...mayContain].filter(i => i.flag === 'uncertain').flatMap(i => i.allergens))
+        .filter(allergen => !unsafe.includes(allergen));
+
+    let verdict: LabelVerdict | null = null;
+    if (profileAllergens.length > 0) {
+        if (unsafe.length > 0) verdict = 'unsafe';
+        else if (uncertain.length > 0 || label.ingredients.length === 0) verdict = 'uncertain';
+        else verdict = 'safe';
+    }
+    return { verdict, unsafe, uncertain, ingredients, mayContain };
+};
+
+/**
+ * Split printed label text into runs, marking every occurrence of a flagged ingredient's printed
+ * name. Where marks overlap, unsafe wins over uncertain.
+ */
+export const highlightLabelText = (text: string, flagged: FlaggedIngredient[]): HighlightSegment[] => {
+    const flags: (LabelFlag | null)[] = new Array(text.length).fill(null);
+
+    flagged.forEach(({ ingredient, flag }) => {
+        if (!ingredient.originalName) return;
+        // Searched in the text as printed: lower-casing can change a string's length and shift the indices
+        const pattern = new RegExp(escapeRegExp(ingredient.originalName), 'gi');
+        for (const match of text.matchAll(pattern)) {
+            for (let i = match.index!; i < match.index! + match[0].length; i++) {
+                if (flags[i] !== 'unsafe') flags[i] = flag;
+            }
+        }
+    });
+
+    const segments: HighlightSegment[] = [];
+    flags.forEach((flag, i) => {
+        const last = segments[segments.length - 1];
+        if (last && last.flag === flag) last.text += text[i];
+        else segments.push({ text: text[i], flag });
+    });
+    return segments;
+};
@@ -0,0 +1,43 @@
+import { Dish } from '../types';
+
+export interface MenuSection {
+    key: string; // Stable across translations: the heading as printed, or '' for dishes without a section
+    title: string;
+    originalTitle?: string;
+    dishes: Dish[];
+}
+
+const orderOf = (value: number | undefined): number => value ?? Number.MAX_SAFE_INTEGER;
+
+const sectionKey = (dish: Dish): string => (dish.sectionOriginal || dish.section || '').trim().toLowerCase();
+
+// Printed menu order: page, then section on the page, then position within the section.
+// Dishes without order data keep their relative order (Array.prototype.sort is stable).
+export const compareMenuOrder = (a: Dish, b: Dish): number =>
+    (a.page ?? 0) - (b.page ?? 0) ||
+    orderOf(a.sectionIndex) - orderOf(b.sectionIndex) ||
+    orderOf(a.position) - orderOf(b.position);
+
+export const hasMenuSections = (dishes: Dish[]): boolean => dishes.some(dish => !!sectionKey(dish));
+
+/**
+ * Group dishes under their menu section headings, sections in order of first appearance.
+ * A heading repeated on a later page (a section continuing over the page break) stays one group.
+ * Dishes without a section are collected in a trailing group with an empty key.
+ */
+export const groupBySection = (dishes: Dish[]): MenuSection[] => {
+    const sections = new Map<string, MenuSection>();
+    [...dishes].sort(compareMenuOrder).forEach(dish => {
+        const key = sectionKey(dish);
+        let section = sections.get(key);
+        if (!section) {
+            section = { key, title: dish.section || dish.sectionOriginal || '', originalTitle: dish.sectionOriginal, dishes: [] };
+            sections.set(key, section);
+        }
+        section.dishes.push(dish);
+    });
+
+    const unsectioned = sections.get('');
+    sections.delete('');
+    return unsectioned ? [...sections.values(), unsectioned] : [...sections.values()];
+};
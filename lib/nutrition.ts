@@ -0,0 +1,55 @@
+import { Nutrient, Nutrition, NutritionRange } from '../types';
+
+export const NUTRIENTS: { key: Nutrient; label: string; unit: string }[] = [
+    { key: 'calories', label: 'Calories', unit: 'kcal' },
+    { key: 'protein', label: 'Protein', unit: 'g' },
+    { key: 'carbs', label: 'Carbs', unit: 'g' },
+    { key: 'fat', label: 'Fat', unit: 'g' },
+    { key: 'sodium', label: 'Sodium', unit: 'mg' }
+];
+
+const toNumber = (value: unknown): number | null => {
+    const n = typeof value === 'string' ? parseFloat(value) : value;
+    return typeof n === 'number' && Number.isFinite(n) && n >= 0 ? n : null;
+};
+
+// { min, max } with min <= max; a single number becomes a zero-width range
+export const toNutritionRange = (value: unknown): NutritionRange | null => {
+    const single = toNumber(value);
+    if (single !== null) return { min: single, max: single };
+    if (!value || typeof value !== 'object') return null;
+
+    const min = toNumber((value as any).min);
+    const max = toNumber((value as any).max);
+    if (min === null && max === null) return null;
+    const low = min ?? max!;
+    const high = max ?? min!;
+    return { min: Math.min(low, high), max: Math.max(low, high) };
+};
+
+// Keep the readable nutrients of a model or stored value; undefined if none are usable
+export const toNutrition = (value: unknown): Nutrition | undefined => {
+    if (!value || typeof value !== 'object') return undefined;
+    const nutrition: Nutrition = {};
+    NUTRIENTS.forEach(({ key }) => {
+        const range = toNutritionRange((value as any)[key]);
+        if (range) nutrition[key] = range;
+    });
+    return Object.keys(nutrition).length > 0 ? nutrition : undefined;
+};
+
+// `scans` stores each nutrient as <key>_min / <key>_max columns
+export const nutritionFromRow = (row: any): Nutrition | undefined =>
+    toNutrition(Object.fromEntries(NUTRIENTS.map(({ key }) => [key, { min: row[`${key}_min`], max: row[`${key}_max`] }])));
+
+export const nutritionToRow = (nutrition: Nutrition | undefined): Record<string, number | null> =>
+    Object.fromEntries(NUTRIENTS.flatMap(({ key }) => [
+        [`${key}_min`, nutrition?.[key]?.min ?? null],
+        [`${key}_max`, nutrition?.[key]?.max ?? null]
+    ]));
+
+// "450–600 kcal", or "450 kcal" when the range is a single value
+export const formatNutritionRange = (range: NutritionRange, unit: string): string => {
+    const round = (n: number) => Math.round(n).toLocaleString();
+    return range.min === range.max ? `${round(range.min)} ${unit}` : `${round(range.min)}–${round(range.max)} ${unit}`;
+};
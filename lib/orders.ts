@@ -0,0 +1,100 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { Dish, Language, Order, OrderItem } from '../types';
+import { GEMINI_MODEL } from './recognition';
+import { getSpeechLanguage } from './speech';
+
+// Primary BCP 47 subtag -> card language; Chinese is split by script below
+const TAG_LANGUAGES: Record<string, Language> = {
+    en: 'English', ja: 'Japanese', ko: 'Korean', es: 'Spanish', fr: 'French',
+    th: 'Thai', vi: 'Vietnamese', de: 'German', it: 'Italian'
+};
+
+// Taiwan, Hong Kong and Macau menus are printed in Traditional characters
+const TRADITIONAL_CHINESE = /^zh-(hant|tw|hk|mo)\b/i;
+
+const languageFromTag = (tag: string): Language | null => {
+    const primary = tag.split(/[-_]/)[0].toLowerCase();
+    if (primary === 'zh' || primary === 'yue') return TRADITIONAL_CHINESE.test(tag) || primary === 'yue' ? 'Chinese (Traditional)' : 'Chinese (Simplified)';
+    return TAG_LANGUAGES[primary] || null;
+};
+
+// The language most of the menu is printed in, or `fallback` if it isn't one the card supports
+export const getRestaurantLanguage = (dishes: Dish[], fallback: Language): Language => {
+    const counts = new Map<Language, number>();
+    dishes.forEach(dish => {
+        const tag = getSpeechLanguage(dish);
+        const language = tag ? languageFromTag(tag) : null;
+        if (language) counts.set(language, (counts.get(language) || 0) + 1);
+    });
+    const [top] = [...counts.entries()].sort((a, b) => b[1] - a[1]);
+    return top ? top[0] : fallback;
+};
+
+export const countOrderItems = (order: Pick<Order, 'items'>): number =>
+    order.items.reduce((sum, item) => sum + item.quantity, 0);
+
+// Sum of the priced items, when they share one currency; unpriced items are left out
+export const getOrderTotal = (items: OrderItem[]): { amount: number; currency?: string } | null => {
+    const priced = items.filter(item => item.price !== undefined);
+    if (priced.length === 0) return null;
+    const currency = priced[0].currency;
+    if (priced.some(item => item.currency !== currency)) return null;
+    return { amount: priced.reduce((sum, item) => sum + item.price! * item.quantity, 0), currency };
+};
+
+export const toOrderItem = (dish: Dish, quantity = 1): OrderItem => ({
+    dishId: dish.id,
+    name: dish.name,
+    originalName: dish.originalName,
+    quantity,
+    requests: [],
+    ...(dish.price !== undefined ? { price: dish.price, currency: dish.currency } : {})
+});
+
+const notesSchema = {
+    type: Type.OBJECT,
+    properties: {
+        notes: { type: Type.ARRAY, items: { type: Type.STRING } }
+    },
+    required: ["notes"]
+};
+
+/**
+ * Translate the free-text requests of an order into the card language for the waiter.
+ * If translation fails the notes are shown as typed.
+ */
+export const translateOrderNotes = async (
+    items: OrderItem[],
+    language: Language,
+    apiKey: string | undefined = process.env.API_KEY
+): Promise<OrderItem[]> => {
+    // Translations into another card language (or of an edited note) are stale
+    const cleared = items.map(({ noteTranslated, ...item }) => item);
+    const noted = cleared.filter(item => item.note?.trim());
+    if (noted.length === 0) return cleared;
+
+    try {
+        const ai = new GoogleGenAI({ apiKey });
+        const response = await ai.models.generateContent({
+            model: GEMINI_MODEL,
+            contents: {
+                parts: [
+                    { text: `Translate each of these requests a diner has about a dish into ${language}, for a waiter to read. Keep them short and polite. Return them in the same order.\n\n${JSON.stringify(noted.map(item => ({ dish: item.originalName, request: item.note })))}` }
+                ]
+            },
+            config: {
+                responseMimeType: "application/json",
+                responseSchema: notesSchema
+            }
+        });
+        const translated: unknown[] = JSON.parse(response.text || '{}').notes || [];
+        return cleared.map(item => {
+            const index = noted.indexOf(item);
+            const text = index >= 0 ? translated[index] : undefined;
+            return typeof text === 'string' && text.trim() ? { ...item, noteTranslated: text.trim() } : item;
+        });
+    } catch (error) {
+        console.error('Error translating order notes:', error);
+        return cleared;
+    }
+};
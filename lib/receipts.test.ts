@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { Receipt, ReceiptItem, ScanSession } from '../types';
+import { checkReceiptTotal, findMealSession, splitReceipt } from './receipts';
+
+const item = (id: string, amount: number, dinerIds: string[] = []): ReceiptItem => ({
+    id, name: id, originalName: id, quantity: 1, amount, dinerIds
+});
+
+const receipt = (fields: Partial<Receipt> = {}): Receipt => ({
+    id: 'r1',
+    currency: 'USD',
+    items: [item('noodles', 12), item('dumplings', 8)],
+    diners: [{ id: 'a', name: 'Ana' }, { id: 'b', name: 'Ben' }, { id: 'c', name: 'Cai' }],
+    language: 'English',
+    ...fields
+});
+
+describe('checkReceiptTotal', () => {
+    it('adds tax, service charge and discount to the items', () => {
+        const check = checkReceiptTotal(receipt({ tax: 1.6, serviceCharge: 2, discount: 1, total: 22.6 }));
+        expect(check).toMatchObject({ itemsSum: 20, printedTotal: 22.6, matches: true });
+        expect(check.expectedTotal).toBeCloseTo(22.6);
+    });
+
+    it('leaves out tax already included in the prices', () => {
+        expect(checkReceiptTotal(receipt({ tax: 1.82, taxIncluded: true, total: 20 })).matches).toBe(true);
+    });
+
+    it('tolerates printed rounding but not a missing line', () => {
+        expect(checkReceiptTotal(receipt({ total: 20.01 })).matches).toBe(true);
+        const check = checkReceiptTotal(receipt({ total: 25 }));
+        expect(check.matches).toBe(false);
+        expect(check.difference).toBeCloseTo(5);
+    });
+
+    it('cannot check a receipt without a printed total', () => {
+        expect(checkReceiptTotal(receipt())).toEqual({ itemsSum: 20, expectedTotal: 20, difference: 0, matches: null });
+    });
+});
+
+describe('splitReceipt', () => {
+    it('splits shared items equally and charges in proportion', () => {
+        const split = splitReceipt(receipt({
+            items: [item('noodles', 12, ['a']), item('dumplings', 8, ['a', 'b'])],
+            diners: [{ id: 'a', name: 'Ana' }, { id: 'b', name: 'Ben' }],
+            serviceCharge: 2
+        }));
+        expect(split.shares.map(share => share.itemsAmount)).toEqual([16, 4]);
+        expect(split.shares.map(share => share.total)).toEqual([17.6, 4.4]);
+        expect(split.shares.map(share => share.extras)).toEqual([1.6, 0.4]);
+        expect(split.unassigned).toEqual([]);
+    });
+
+    it('rounds shares to cents and gives the remainder to one diner', () => {
+        const split = splitReceipt(receipt({ items: [item('hotpot', 10, ['a', 'b', 'c'])], total: 10 }));
+        expect(split.shares.map(share => share.total)).toEqual([3.34, 3.33, 3.33]);
+    });
+
+    it('rounds to the currency\'s own minor unit', () => {
+        const split = splitReceipt(receipt({ currency: 'JPY', items: [item('course', 1000, ['a', 'b', 'c'])], total: 1000 }));
+        expect(split.shares.map(share => share.total)).toEqual([334, 333, 333]);
+    });
+
+    it('splits the printed total once every item is assigned', () => {
+        const split = splitReceipt(receipt({
+            items: [item('noodles', 12, ['a']), item('dumplings', 8, ['b'])],
+            tax: 1.6,
+            total: 21.7 // Printed total rounded differently from items + tax
+        }));
+        const totals = split.shares.map(share => share.total);
+        expect(totals).toEqual([13.02, 8.68, 0]);
+        expect(totals.reduce((sum, total) => sum + total, 0)).toBeCloseTo(21.7, 10);
+    });
+
+    it('splits the computed total while items are unassigned', () => {
+        const split = splitReceipt(receipt({ items: [item('noodles', 12, ['a']), item('dumplings', 8)], total: 30 }));
+        expect(split.shares.map(share => share.total)).toEqual([12, 0, 0]);
+        expect(split.unassigned.map(i => i.id)).toEqual(['dumplings']);
+        expect(split.unassignedAmount).toBe(8);
+    });
+
+    it('ignores diners that were removed but are still on an item', () => {
+        const split = splitReceipt(receipt({ items: [item('noodles', 12, ['a', 'gone'])], diners: [{ id: 'a', name: 'Ana' }] }));
+        expect(split.shares[0].total).toBe(12);
+        expect(splitReceipt(receipt({ items: [item('noodles', 12, ['gone'])] })).unassignedAmount).toBe(12);
+    });
+});
+
+describe('findMealSession', () => {
+    const at = new Date('2026-05-01T20:00:00Z');
+    const session = (id: string, created_at: string, fields: Partial<ScanSession> = {}): ScanSession => ({
+        id,
+        created_at,
+        images: [],
+        scanType: 'menu',
+        isMenu: true,
+        language: 'English',
+        status: 'complete',
+        errorKinds: [],
+        dishes: [],
+        orders: [],
+        receipts: [],
+        ...fields
+    });
+
+    it('picks the latest menu or dish scan from the last few hours', () => {
+        const sessions = [
+            session('old', '2026-05-01T12:00:00Z'),
+            session('menu', '2026-05-01T18:30:00Z'),
+            session('receipt', '2026-05-01T19:00:00Z', { scanType: 'receipt' }),
+            session('pending', '2026-05-01T19:30:00Z', { status: 'pending' })
+        ];
+        expect(findMealSession(sessions, at)?.id).toBe('menu');
+        expect(findMealSession([session('old', '2026-05-01T12:00:00Z')], at)).toBeUndefined();
+    });
+});
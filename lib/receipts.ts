@@ -0,0 +1,101 @@
+import { Diner, Receipt, ReceiptItem, ScanSession } from '../types';
+import { getMinorDigits } from './currency';
+
+// Printed totals are rounded; differences up to half a percent (or one cent) still count as adding up
+const TOTAL_TOLERANCE = 0.005;
+const MIN_TOLERANCE = 0.01;
+
+// A receipt scanned within this long after a menu or dish scan is taken to be from the same meal
+const MEAL_WINDOW_MS = 4 * 60 * 60 * 1000;
+
+export interface ReceiptCheck {
+    itemsSum: number;
+    expectedTotal: number; // Items plus tax (unless included), service charge, minus discount
+    printedTotal?: number;
+    difference: number; // printedTotal - expectedTotal, 0 when nothing is printed
+    matches: boolean | null; // null when the receipt has no printed total
+}
+
+// Amounts are in the receipt's currency, like the receipt's own (12.5 is $12.50)
+export interface DinerShare {
+    diner: Diner;
+    items: { item: ReceiptItem; amount: number }[]; // Amount is the diner's exact part of a shared item, unrounded
+    itemsAmount: number; // Sum of those, unrounded
+    extras: number; // Diner's part of tax, service charge and discount (and of any rounding), in proportion to their items
+    total: number; // Rounded to the currency's minor unit (cents, or whole yen), so the shares add up to the bill
+}
+
+export interface ReceiptSplit {
+    shares: DinerShare[];
+    unassigned: ReceiptItem[];
+    unassignedAmount: number;
+}
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+const isClose = (a: number, b: number) => Math.abs(a - b) <= Math.max(MIN_TOLERANCE, Math.abs(b) * TOTAL_TOLERANCE);
+
+export const getExtras = (receipt: Receipt): number =>
+    (receipt.taxIncluded ? 0 : receipt.tax || 0) + (receipt.serviceCharge || 0) - (receipt.discount || 0);
+
+// Do the line items (plus extras) add up to what the receipt says is owed?
+export const checkReceiptTotal = (receipt: Receipt): ReceiptCheck => {
+    const itemsSum = sum(receipt.items.map(item => item.amount));
+    const expectedTotal = itemsSum + getExtras(receipt);
+    if (receipt.total === undefined) {
+        return { itemsSum, expectedTotal, difference: 0, matches: null };
+    }
+    return {
+        itemsSum,
+        expectedTotal,
+        printedTotal: receipt.total,
+        difference: receipt.total - expectedTotal,
+        matches: isClose(expectedTotal, receipt.total)
+    };
+};
+
+/**
+ * Each diner's share: their items (shared items split equally between the diners assigned to them)
+ * plus tax, service charge and discount in proportion to what they had. Once every item is assigned,
+ * the printed total is split rather than the computed one, so the shares add up to what the table pays.
+ * Shares are rounded to the currency's minor unit; the cent or two left over goes to the largest one.
+ */
+export const splitReceipt = (receipt: Receipt): ReceiptSplit => {
+    const itemsSum = sum(receipt.items.map(item => item.amount));
+    // Ids of removed diners may linger on items; they don't take a share
+    const dinerIds = new Set(receipt.diners.map(d => d.id));
+    const sharedBy = (item: ReceiptItem) => item.dinerIds.filter(id => dinerIds.has(id));
+    const unassigned = receipt.items.filter(item => sharedBy(item).length === 0);
+    const billTotal = unassigned.length === 0 && receipt.total !== undefined ? receipt.total : itemsSum + getExtras(receipt);
+
+    const exact = receipt.diners.map(diner => {
+        const items = receipt.items
+            .filter(item => item.dinerIds.includes(diner.id))
+            .map(item => ({ item, amount: item.amount / sharedBy(item).length }));
+        const itemsAmount = sum(items.map(i => i.amount));
+        return { diner, items, itemsAmount, total: itemsSum > 0 ? billTotal * (itemsAmount / itemsSum) : 0 };
+    });
+
+    // Work in whole minor units so the rounded shares add up exactly
+    const factor = 10 ** getMinorDigits(receipt.currency);
+    const minorTotals = exact.map(share => Math.round(share.total * factor));
+    const remainder = Math.round(sum(exact.map(share => share.total)) * factor) - sum(minorTotals);
+    if (remainder !== 0) minorTotals[minorTotals.indexOf(Math.max(...minorTotals))] += remainder;
+
+    const shares = exact.map((share, i) => ({
+        ...share,
+        extras: (minorTotals[i] - Math.round(share.itemsAmount * factor)) / factor,
+        total: minorTotals[i] / factor
+    }));
+    return { shares, unassigned, unassignedAmount: sum(unassigned.map(item => item.amount)) };
+};
+
+// The latest menu or dish scan made in the few hours before the receipt, if any
+export const findMealSession = (sessions: ScanSession[], at: Date = new Date()): ScanSession | undefined =>
+    sessions
+        .filter(s => s.scanType !== 'receipt' && s.status === 'complete' && s.created_at)
+        .filter(s => {
+            const age = at.getTime() - new Date(s.created_at!).getTime();
+            return age >= 0 && age <= MEAL_WINDOW_MS;
+        })
+        .sort((a, b) => new Date(b.created_at!).getTime() - new Date(a.created_at!).getTime())[0];
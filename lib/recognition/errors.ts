@@ -0,0 +1,52 @@
+import { ScanErrorKind } from '../../types';
+
+// A scan failure with a known cause, so the UI can offer the right way out
+export class ScanError extends Error {
+  kind: ScanErrorKind;
+  page?: number; // Page that failed, for multi-page scans
+  cause?: unknown;
+
+  constructor(kind: ScanErrorKind, message?: string, options: { page?: number; cause?: unknown } = {}) {
+    super(message || kind);
+    this.name = 'ScanError';
+    this.kind = kind;
+    this.page = options.page;
+    this.cause = options.cause;
+  }
+}
+
+// Failures worth retrying automatically after a pause
+export const isTransientScanError = (kind: ScanErrorKind): boolean => kind === 'network' || kind === 'quota';
+
+// Classify anything thrown during a scan. Provider errors keep their kind; SDK and fetch errors are
+// recognised by HTTP status or message.
+export const toScanError = (error: unknown, page?: number): ScanError => {
+  if (error instanceof ScanError) {
+    if (error.page === undefined) error.page = page;
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = typeof error === 'object' && error !== null && 'status' in error && typeof error.status === 'number' ? error.status : undefined;
+  const options = { page, cause: error };
+
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+    return new ScanError('network', message, options);
+  }
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+    return new ScanError('quota', message, options);
+  }
+  if (status === 401 || status === 403 || /API[ _]?key|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) {
+    return new ScanError('api_key', message, options);
+  }
+  if (error instanceof SyntaxError) {
+    return new ScanError('invalid_json', message, options);
+  }
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) {
+    return new ScanError('network', message, options);
+  }
+  if (status !== undefined && status >= 500) {
+    return new ScanError('network', message, options);
+  }
+  return new ScanError('unknown', message, options);
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { Dish } from '../../types';
+import { createFixtureProvider } from './fixture';
+
+const request = (fields: Record<string, unknown> = {}) => ({
+    image: { data: '', mimeType: 'image/jpeg' },
+    scanType: 'menu' as const,
+    targetLanguage: 'English' as const,
+    ...fields
+});
+
+describe('createFixtureProvider', () => {
+    it('replays the fixture for the scan type, streaming each dish', async () => {
+        const streamed: Dish[] = [];
+        const result = await createFixtureProvider().recognize(request({ onDish: (dish: Dish) => streamed.push(dish) }));
+
+        expect(result.isMenu).toBe(true);
+        expect(result.dishes.map(d => d.name)).toEqual(['Kung Pao Chicken', 'Mapo Tofu', 'Egg Fried Rice', 'Steamed Sea Bass', 'Sesame Balls']);
+        expect(streamed).toEqual(result.dishes);
+        expect(new Set(result.dishes.map(d => d.id)).size).toBe(5);
+    });
+
+    it('uses a pinned fixture regardless of the scan type', async () => {
+        const result = await createFixtureProvider('dish').recognize(request());
+        expect(result.dishes.map(d => d.name)).toEqual(['Tom Yum Goong']);
+    });
+
+    it('fails with the recorded error kind', async () => {
+        await expect(createFixtureProvider('offline').recognize(request())).rejects.toMatchObject({ name: 'ScanError', kind: 'network' });
+    });
+
+    it('fails on a fixture that does not exist', async () => {
+        await expect(createFixtureProvider('missing').recognize(request())).rejects.toThrow('Recognition fixture not found: /fixtures/recognition/missing.json');
+    });
+
+    it('stops replaying when the request is aborted', async () => {
+        const controller = new AbortController();
+        const pending = createFixtureProvider().recognize(request({ signal: controller.signal }));
+        controller.abort(new Error('cancelled'));
+        await expect(pending).rejects.toThrow('cancelled');
+    });
+});
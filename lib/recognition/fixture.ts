@@ -0,0 +1,75 @@
+import { Dish } from '../../types';
+import { LabelRecognitionRequest, ReceiptRecognitionRequest, ReceiptRecognitionResult, RecognitionProvider, RecognitionRequest, RecognitionResult } from './types';
+import { createIdPrefix, toRecognitionResult } from './parse';
+import { ScanError } from './errors';
+import { toRecognizedReceipt } from './receipt';
+import { toRecognizedLabel } from './label';
+
+// Pause between replayed dishes so the live results list behaves like a real stream
+const DISH_DELAY_MS = 150;
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Recorded model responses live in /fixtures/recognition/<name>.json and are loaded lazily,
+// so they never end up in the production bundle unless the fixture provider is used.
+const fixtures = import.meta.glob('/fixtures/recognition/*.json', { import: 'default' });
+
+const fixturePath = (name: string) => `/fixtures/recognition/${name}.json`;
+
+// Load a recorded response; a recorded `{ "error": "<ScanErrorKind>" }` throws that ScanError
+const loadFixture = async (name: string): Promise<any> => {
+    const path = fixturePath(name);
+    const load = fixtures[path];
+    if (!load) {
+        throw new Error(`Recognition fixture not found: ${path}`);
+    }
+
+    const recorded: any = await load();
+    if (recorded?.error) {
+        throw new ScanError(recorded.error, `Recorded ${recorded.error} failure`);
+    }
+    return recorded;
+};
+
+/**
+ * Offline provider that replays a recorded response instead of calling the model.
+ * The fixture is chosen by `fixtureName` if given, otherwise by the scan type (`dish.json` / `menu.json` / `receipt.json` / `label.json`).
+ * The image is ignored, so the same request always yields the same dishes.
+ * A fixture of the form `{ "error": "<ScanErrorKind>" }` fails with that error instead.
+ */
+export const createFixtureProvider = (fixtureName?: string): RecognitionProvider => ({
+    name: 'fixture',
+    recognize: async (request: RecognitionRequest): Promise<RecognitionResult> => {
+        const recorded = await loadFixture(fixtureName || request.scanType);
+        const result = toRecognitionResult(recorded, createIdPrefix());
+
+        for (const dish of result.dishes) {
+            await delay(DISH_DELAY_MS, request.signal);
+            request.onDish?.(dish, result.isMenu);
+        }
+        return result;
+    },
+
+    recognizeReceipt: async (request: ReceiptRecognitionRequest): Promise<ReceiptRecognitionResult> => {
+        const recorded = await loadFixture(fixtureName || 'receipt');
+        await delay(DISH_DELAY_MS, request.signal);
+        return toRecognizedReceipt(recorded, createIdPrefix());
+    },
+
+    recognizeLabel: async (request: LabelRecognitionRequest): Promise<Dish | null> => {
+        const recorded = await loadFixture(fixtureName || 'label');
+        await delay(DISH_DELAY_MS, request.signal);
+        return toRecognizedLabel(recorded, createIdPrefix());
+    }
+});
@@ -0,0 +1,315 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { Dish, Language } from '../../types';
+import { COMMON_ALLERGENS } from '../../constants';
+import { LabelRecognitionRequest, ReceiptRecognitionRequest, ReceiptRecognitionResult, RecognitionImage, RecognitionProvider, RecognitionRequest, RecognitionResult } from './types';
+import { createIdPrefix, extractJson, toRecognitionResult, toRecognizedDish } from './parse';
+import { createDishStreamParser } from './streamParser';
+import { ScanError, toScanError } from './errors';
+import { toRecognizedReceipt } from './receipt';
+import { toRecognizedLabel } from './label';
+
+export const GEMINI_MODEL = 'gemini-3-flash-preview';
+
+// Finish reasons meaning the response was withheld rather than completed
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY'];
+
+// Schema (Root Object with isMenu)
+const nutritionRange = (description: string) => ({
+    type: Type.OBJECT,
+    description,
+    properties: { min: { type: Type.NUMBER }, max: { type: Type.NUMBER } },
+    required: ["min", "max"]
+});
+
+const buildResponseSchema = (targetLanguage: Language) => ({
+    type: Type.OBJECT,
+    properties: {
+        isMenu: { type: Type.BOOLEAN, description: "True if the image is a menu (text list), False if it is a photo of real food." },
+        dishes: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    name: { type: Type.STRING, description: `Name of the dish translated to ${targetLanguage}` },
+                    originalName: { type: Type.STRING, description: "Original name of the dish in its native language" },
+                    pronunciation: { type: Type.STRING, nullable: true, description: "Romanization of originalName a foreigner can read aloud: Hanyu Pinyin with tone marks for Mandarin, Hepburn romaji for Japanese, Revised Romanization for Korean, RTGS for Thai. Null if originalName is already in Latin script." },
+                    originalLanguage: { type: Type.STRING, description: "BCP 47 language tag of originalName (e.g. zh-CN, zh-HK, ja-JP, ko-KR, th-TH, vi-VN)" },
+                    englishName: { type: Type.STRING, description: "Name of the dish in English (for image search purposes)" },
+                    description: { type: Type.STRING, description: `Description of ingredients and taste profile in ${targetLanguage}` },
+                    tags: { type: Type.ARRAY, items: { type: Type.STRING }, description: `Top 3 dominant flavor profile words (e.g. Sweet, Salty, Umami) in ${targetLanguage}` },
+                    allergens: { type: Type.ARRAY, items: { type: Type.STRING, enum: COMMON_ALLERGENS }, description: "List 1 to 5 potential allergens as EU allergen codes (gluten = wheat/barley/rye, crustaceans = shrimp/crab, molluscs = clams/squid, milk = any dairy, tree_nuts = almonds/cashews etc.)" },
+                    spiceLevel: { type: Type.STRING, enum: ["None", "Mild", "Medium", "Hot"], description: "None=Not Spicy, Mild=1 chili, Medium=2 chilies, Hot=3 chilies" },
+                    category: { type: Type.STRING, description: "Broad category like Soup, Main, Dessert" },
+                    boundingBox: { type: Type.ARRAY, items: { type: Type.NUMBER }, description: "Bounding box of the dish [ymin, xmin, ymax, xmax] in 0-1000 scale." },
+                    price: { type: Type.NUMBER, nullable: true, description: "Price printed next to the dish on the menu, as a plain number without separators. Null if no price is shown." },
+                    currency: { type: Type.STRING, nullable: true, description: "ISO 4217 code of the price (e.g. JPY, EUR, THB), inferred from the symbol and the menu's language or country. Null if no price is shown." },
+                    section: { type: Type.STRING, nullable: true, description: `Menu section heading the dish is printed under (e.g. Appetizers, Noodles, Drinks), translated to ${targetLanguage}. Null if the menu has no sections or this is a food photo.` },
+                    sectionOriginal: { type: Type.STRING, nullable: true, description: "The section heading exactly as printed on the menu" },
+                    sectionIndex: { type: Type.INTEGER, nullable: true, description: "0-based order of the section on the page, in reading order" },
+                    position: { type: Type.INTEGER, nullable: true, description: "0-based order of the dish within its section, as printed" },
+                    ingredients: {
+                        type: Type.ARRAY,
+                        description: `Main ingredients, names in ${targetLanguage}`,
+                        items: {
+                            type: Type.OBJECT,
+                            properties: {
+                                name: { type: Type.STRING },
+                                presence: { type: Type.STRING, enum: ["visible", "typical", "possible"], description: "visible = seen in the photo, typical = in the usual recipe, possible = only in some versions" },
+                                allergens: { type: Type.ARRAY, items: { type: Type.STRING, enum: COMMON_ALLERGENS }, description: "Entries of the dish's 'allergens' this ingredient causes (e.g. ghee -> milk)" }
+                            },
+                            required: ["name", "presence", "allergens"]
+                        }
+                    },
+                    nutrition: {
+                        type: Type.OBJECT,
+                        description: "Estimated nutrition for one typical restaurant portion, as a plausible low-high range",
+                        properties: {
+                            calories: nutritionRange("kcal"),
+                            protein: nutritionRange("grams"),
+                            carbs: nutritionRange("grams of carbohydrate"),
+                            fat: nutritionRange("grams"),
+                            sodium: nutritionRange("milligrams")
+                        }
+                    },
+                    identityConfidence: { type: Type.NUMBER, description: "0-1 confidence that the dish is what 'name' says" },
+                    spiceLevelConfidence: { type: Type.NUMBER, description: "0-1 confidence in 'spiceLevel'" },
+                    allergenConfidence: {
+                        type: Type.ARRAY,
+                        description: "0-1 confidence for each entry of 'allergens'. Use a low value when the allergen depends on the recipe or cannot be seen.",
+                        items: {
+                            type: Type.OBJECT,
+                            properties: {
+                                allergen: { type: Type.STRING, enum: COMMON_ALLERGENS },
+                                confidence: { type: Type.NUMBER }
+                            },
+                            required: ["allergen", "confidence"]
+                        }
+                    }
+                },
+                required: ["name", "originalName", "englishName", "description", "tags", "allergens", "spiceLevel", "category", "boundingBox"]
+            }
+        }
+    },
+    required: ["isMenu", "dishes"],
+    // isMenu first, so it is known before the first dish streams in
+    propertyOrdering: ["isMenu", "dishes"]
+});
+
+const buildPrompt = ({ scanType, targetLanguage }: RecognitionRequest): string => {
+    // Critical optimization: Tell AI to use Knowledge Base for menus, and Visuals for dishes.
+    const accuracyPrompt = scanType === 'menu'
+        ? "ACCURACY RULE: Since this is a menu (text), you CANNOT see the food. You MUST infer 'spiceLevel', 'allergens', and 'tags' solely based on your CULINARY KNOWLEDGE of the dish name and traditional preparation methods. Do not guess based on visual text features."
+        : "ACCURACY RULE: Infer 'spiceLevel' and 'allergens' based on VISUAL INSPECTION of the food (e.g., redness, visible chilies, ingredients) combined with dish identification.";
+
+    return `Analyze this image. The user indicated this is a "${scanType}".
+             First, confirm if it is a "Menu" (mostly text) or "Food" (photo of dishes).
+             Identify all distinct dishes. 
+             Translate details to ${targetLanguage}.
+             Return accurate bounding boxes (0-1000 scale) for where each dish is located in the image.
+             If it is a menu, identify the text location of the dish name.
+             If it is a menu, also extract each dish's printed price and its currency.
+             Give each dish's original name a romanization the diner can read aloud to the staff.
+             If it is a menu, keep its printed structure: list dishes in reading order and give each one its section heading and position.
+
+             ${accuracyPrompt}
+             List the main ingredients and link every allergen to the ingredients it comes from.
+             Estimate nutrition as honest ranges for a typical portion; do not give false precision.
+             Be honest in the confidence fields: a diner with allergies relies on them to know when to ask the staff.
+             
+             IMPORTANT: Return PURE JSON adhering to the schema.`;
+};
+
+const buildReceiptSchema = (targetLanguage: Language) => ({
+    type: Type.OBJECT,
+    properties: {
+        merchant: { type: Type.STRING, nullable: true, description: "Restaurant name as printed" },
+        currency: { type: Type.STRING, nullable: true, description: "ISO 4217 code of the amounts, inferred from the symbol and the receipt's language or country" },
+        items: {
+            type: Type.ARRAY,
+            description: "Every ordered line item, in printed order. Not tax, service, discount or total lines.",
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    name: { type: Type.STRING, description: `Item name translated to ${targetLanguage}` },
+                    originalName: { type: Type.STRING, description: "Item name exactly as printed" },
+                    quantity: { type: Type.NUMBER, description: "Quantity, 1 if not printed" },
+                    unitPrice: { type: Type.NUMBER, nullable: true, description: "Price of one, if printed" },
+                    amount: { type: Type.NUMBER, description: "Line total as printed, as a plain number" }
+                },
+                required: ["name", "originalName", "quantity", "amount"]
+            }
+        },
+        subtotal: { type: Type.NUMBER, nullable: true, description: "Subtotal as printed. Null if not printed." },
+        tax: { type: Type.NUMBER, nullable: true, description: "Tax / VAT / GST amount. Null if not printed." },
+        taxIncluded: { type: Type.BOOLEAN, nullable: true, description: "True if the tax is already included in the item prices (e.g. 'incl. VAT', '内税')" },
+        serviceCharge: { type: Type.NUMBER, nullable: true, description: "Service charge amount. Null if not printed." },
+        discount: { type: Type.NUMBER, nullable: true, description: "Total discount as a positive amount. Null if none." },
+        total: { type: Type.NUMBER, nullable: true, description: "Amount due as printed" }
+    },
+    required: ["items"]
+});
+
+const buildReceiptPrompt = (targetLanguage: Language): string =>
+    `Read this restaurant receipt.
+             List every line item with its quantity and line total, translating item names to ${targetLanguage}.
+             Copy the subtotal, tax, service charge, discount and total exactly as printed; do not compute missing ones.
+             Amounts are plain numbers without currency symbols or thousands separators.
+
+             IMPORTANT: Return PURE JSON adhering to the schema.`;
+
+const labelIngredient = (targetLanguage: Language, what: string) => ({
+    type: Type.OBJECT,
+    properties: {
+        name: { type: Type.STRING, description: `The ${what} translated to ${targetLanguage}` },
+        originalName: { type: Type.STRING, description: `The ${what} exactly as printed, so it can be found in the printed text` },
+        allergens: { type: Type.ARRAY, items: { type: Type.STRING, enum: COMMON_ALLERGENS }, description: "EU allergen codes it is or contains (e.g. whey -> milk, semolina -> gluten); for uncertain ones, those it might contain. Empty if none." },
+        uncertain: { type: Type.BOOLEAN, description: "True if the wording is too vague to tell whether it contains the allergens (e.g. 'flavouring', 'vegetable oil', 'spices')" }
+    },
+    required: ["name", "originalName", "allergens"]
+});
+
+const buildLabelSchema = (targetLanguage: Language) => ({
+    type: Type.OBJECT,
+    properties: {
+        productName: { type: Type.STRING, description: `Product name translated to ${targetLanguage}` },
+        originalProductName: { type: Type.STRING, description: "Product name exactly as printed" },
+        originalLanguage: { type: Type.STRING, description: "BCP 47 language tag of the printed label (e.g. ja-JP, th-TH, de-DE)" },
+        category: { type: Type.STRING, description: "Broad product category like Snack, Sauce, Drink" },
+        description: { type: Type.STRING, description: `One sentence on what the product is, in ${targetLanguage}` },
+        ingredientsText: { type: Type.STRING, nullable: true, description: "The whole ingredient list exactly as printed, in its original language. Null if the photo shows no ingredient list." },
+        ingredientsTranslated: { type: Type.STRING, nullable: true, description: `The ingredient list translated to ${targetLanguage}` },
+        ingredients: {
+            type: Type.ARRAY,
+            description: "Every ingredient of the list in printed order, including those in brackets",
+            items: labelIngredient(targetLanguage, "ingredient")
+        },
+        mayContainText: { type: Type.STRING, nullable: true, description: "The precautionary allergen statement ('may contain...', 'made in a factory that also handles...') exactly as printed. Null if there is none." },
+        mayContainTranslated: { type: Type.STRING, nullable: true, description: `The precautionary statement translated to ${targetLanguage}` },
+        mayContain: {
+            type: Type.ARRAY,
+            description: "Each possible trace the precautionary statement names",
+            items: labelIngredient(targetLanguage, "trace")
+        }
+    },
+    required: ["productName", "originalProductName", "ingredients", "mayContain"]
+});
+
+const buildLabelPrompt = (targetLanguage: Language): string =>
+    `Read the ingredient list on this packaged food.
+             Copy the ingredient list and any "may contain" statement exactly as printed, and translate both to ${targetLanguage}.
+             Split the list into its ingredients and give each one the allergens it is a source of, using the allergen emphasis (bold, capitals) printed on the label as well as your own knowledge.
+             Mark vague ingredients that might hide an allergen as uncertain rather than guessing.
+             A traveller with food allergies decides whether to eat this from your answer: never leave out an allergen.
+
+             IMPORTANT: Return PURE JSON adhering to the schema.`;
+
+// One-shot (non-streamed) JSON request for short payloads such as receipts and labels
+const generateJson = async (apiKey: string, image: RecognitionImage, prompt: string, responseSchema: object, signal?: AbortSignal): Promise<any> => {
+    const ai = new GoogleGenAI({ apiKey });
+
+    let text: string;
+    try {
+        const response = await ai.models.generateContent({
+            model: GEMINI_MODEL,
+            contents: {
+                parts: [
+                    { inlineData: { mimeType: image.mimeType, data: image.data } },
+                    { text: prompt }
+                ]
+            },
+            config: {
+                responseMimeType: "application/json",
+                responseSchema,
+                abortSignal: signal
+            }
+        });
+        const blockReason = response.promptFeedback?.blockReason;
+        const finishReason = response.candidates?.[0]?.finishReason;
+        if (blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+            throw new ScanError('safety', `Response blocked: ${blockReason || finishReason}`);
+        }
+        text = response.text || "";
+    } catch (error) {
+        if (signal?.aborted) throw signal.reason;
+        throw toScanError(error);
+    }
+
+    try {
+        return JSON.parse(extractJson(text));
+    } catch (error) {
+        throw new ScanError('invalid_json', 'Model response is not valid JSON', { cause: error });
+    }
+};
+
+export const createGeminiProvider = (apiKey: string | undefined = process.env.API_KEY): RecognitionProvider => ({
+    name: 'gemini',
+    recognize: async (request: RecognitionRequest): Promise<RecognitionResult> => {
+        if (!apiKey) throw new ScanError('api_key', 'Gemini API key is not configured');
+        const ai = new GoogleGenAI({ apiKey });
+
+        // Hand each dish out as soon as its JSON object closes
+        const idPrefix = createIdPrefix();
+        const parser = createDishStreamParser();
+        let streamedCount = 0;
+
+        try {
+            const stream = await ai.models.generateContentStream({
+                model: GEMINI_MODEL,
+                contents: {
+                    parts: [
+                        { inlineData: { mimeType: request.image.mimeType, data: request.image.data } },
+                        { text: buildPrompt(request) }
+                    ]
+                },
+                config: {
+                    responseMimeType: "application/json",
+                    responseSchema: buildResponseSchema(request.targetLanguage),
+                    systemInstruction: "You are an expert food critic and nutritionist.",
+                    abortSignal: request.signal
+                }
+            });
+
+            for await (const chunk of stream) {
+                request.signal?.throwIfAborted();
+                const blockReason = chunk.promptFeedback?.blockReason;
+                const finishReason = chunk.candidates?.[0]?.finishReason;
+                if (blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+                    throw new ScanError('safety', `Response blocked: ${blockReason || finishReason}`);
+                }
+
+                const completed = parser.push(chunk.text || "");
+                completed.forEach(raw => {
+                    const isMenu = parser.isMenu();
+                    request.onDish?.(toRecognizedDish(raw, streamedCount, isMenu ?? false, idPrefix), isMenu);
+                    streamedCount++;
+                });
+            }
+        } catch (error) {
+            // Cancellation is not a scan failure; let it through unclassified
+            if (request.signal?.aborted) throw request.signal.reason;
+            throw toScanError(error);
+        }
+
+        let parsed: any;
+        try {
+            parsed = JSON.parse(extractJson(parser.text()));
+        } catch (error) {
+            throw new ScanError('invalid_json', 'Model response is not valid JSON', { cause: error });
+        }
+        return toRecognitionResult(parsed, idPrefix);
+    },
+
+    // Receipts are short; they are read in one response rather than streamed
+    recognizeReceipt: async (request: ReceiptRecognitionRequest): Promise<ReceiptRecognitionResult> => {
+        if (!apiKey) throw new ScanError('api_key', 'Gemini API key is not configured');
+        const parsed = await generateJson(apiKey, request.image, buildReceiptPrompt(request.targetLanguage), buildReceiptSchema(request.targetLanguage), request.signal);
+        return toRecognizedReceipt(parsed, createIdPrefix());
+    },
+
+    // A label is a single product, so it is not streamed either
+    recognizeLabel: async (request: LabelRecognitionRequest): Promise<Dish | null> => {
+        if (!apiKey) throw new ScanError('api_key', 'Gemini API key is not configured');
+        const parsed = await generateJson(apiKey, request.image, buildLabelPrompt(request.targetLanguage), buildLabelSchema(request.targetLanguage), request.signal);
+        return toRecognizedLabel(parsed, createIdPrefix());
+    }
+});
@@ -0,0 +1,22 @@
+import { RecognitionProvider } from './types';
+import { createGeminiProvider } from './gemini';
+import { createFixtureProvider } from './fixture';
+
+export * from './types';
+export { createGeminiProvider, GEMINI_MODEL } from './gemini';
+export { createFixtureProvider } from './fixture';
+export { mergePageResults } from './merge';
+export { createIdPrefix } from './parse';
+export { ScanError, toScanError, isTransientScanError } from './errors';
+export { validateDish, validateDishes, hasValidationChanges } from './validate';
+export type { ValidationReport, DishRepair } from './validate';
+
+// Select the backend via VITE_RECOGNITION_PROVIDER ('gemini' | 'fixture'). Defaults to Gemini.
+// VITE_RECOGNITION_FIXTURE optionally pins a single fixture file regardless of scan type.
+export const getRecognitionProvider = (): RecognitionProvider => {
+  const providerName = import.meta.env.VITE_RECOGNITION_PROVIDER;
+  if (providerName === 'fixture') {
+    return createFixtureProvider(import.meta.env.VITE_RECOGNITION_FIXTURE || undefined);
+  }
+  return createGeminiProvider();
+};
@@ -0,0 +1,33 @@
+import { Dish } from '../../types';
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+/**
+ * Turn the model's label payload into a product Dish carrying the ingredient label, for validateDish
+ * to check like any other dish. Returns null when the photo shows no ingredient list.
+ */
+export const toRecognizedLabel = (raw: any, idPrefix: string): Dish | null => {
+  const hasIngredients = isNonEmptyString(raw?.ingredientsText) || (Array.isArray(raw?.ingredients) && raw.ingredients.length > 0);
+  if (!hasIngredients) return null;
+
+  return {
+    id: `${idPrefix}0`,
+    name: raw.productName,
+    originalName: raw.originalProductName,
+    originalLanguage: raw.originalLanguage,
+    description: raw.description,
+    category: raw.category,
+    tags: [],
+    allergens: [], // Filled in from the label's ingredients by validateDish
+    spiceLevel: 'None',
+    isMenu: false,
+    label: {
+      ingredientsText: raw.ingredientsText,
+      ingredientsTranslated: raw.ingredientsTranslated,
+      ingredients: raw.ingredients,
+      mayContainText: raw.mayContainText,
+      mayContainTranslated: raw.mayContainTranslated,
+      mayContain: raw.mayContain
+    }
+  };
+};
@@ -0,0 +1,29 @@
+import { Dish } from '../../types';
+import { RecognitionResult } from './types';
+
+const dedupeKey = (dish: Dish) => (dish.originalName || dish.name || '').trim().toLowerCase();
+
+/**
+ * Merge the per-page results of a multi-page scan into one result set.
+ * Every dish is tagged with the page it came from; dishes repeated on later pages
+ * (same `originalName`) are dropped so the first occurrence, with its bounding box, wins.
+ */
+export const mergePageResults = (pages: RecognitionResult[]): RecognitionResult => {
+  const seen = new Set<string>();
+  const dishes: Dish[] = [];
+
+  pages.forEach((result, page) => {
+    result.dishes.forEach(dish => {
+      const key = dedupeKey(dish);
+      if (key && seen.has(key)) return;
+      if (key) seen.add(key);
+      dishes.push({ ...dish, id: `${dish.id}-${page}`, page });
+    });
+  });
+
+  const isMenu = pages.some(result => result.isMenu);
+  return {
+    isMenu,
+    dishes: dishes.map(dish => ({ ...dish, isMenu }))
+  };
+};
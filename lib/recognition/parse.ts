@@ -0,0 +1,31 @@
+import { Dish } from '../../types';
+import { RecognitionResult } from './types';
+
+// Strip markdown fences the model sometimes wraps around JSON
+export const extractJson = (text: string): string => {
+  let jsonText = text.trim() || "{}";
+  if (jsonText.startsWith('```')) {
+    jsonText = jsonText.replace(/^```json\s?/, '').replace(/^```\s?/, '').replace(/```$/, '');
+  }
+  return jsonText;
+};
+
+// Prefix for local dish ids; one per recognition call so streamed and final dishes share ids
+export const createIdPrefix = (): string => Date.now().toString();
+
+// Turn one raw dish from the payload into an app Dish with a local id
+export const toRecognizedDish = (d: any, index: number, isMenu: boolean, idPrefix: string): Dish => ({
+  ...d,
+  id: idPrefix + index,
+  isMenu: isMenu
+});
+
+// Turn the raw `{ isMenu, dishes }` payload into app Dish objects with local ids
+export const toRecognitionResult = (parsedData: any, idPrefix: string = createIdPrefix()): RecognitionResult => {
+  const isMenu = parsedData?.isMenu || false;
+  const dishesList = parsedData?.dishes || [];
+
+  const dishes: Dish[] = dishesList.map((d: any, index: number) => toRecognizedDish(d, index, isMenu, idPrefix));
+
+  return { isMenu, dishes };
+};
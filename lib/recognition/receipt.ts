@@ -0,0 +1,98 @@
+import { ReceiptItem } from '../../types';
+import { normalizeCurrency, parsePrice } from '../currency';
+import { ReceiptRecognitionResult, RecognizedReceipt } from './types';
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+// Positive quantity; "2x", "2" and missing (= 1) are all read
+const toQuantity = (value: unknown): number => {
+  const n = typeof value === 'string' ? parseFloat(value.replace(/[^\d.]/g, '')) : value;
+  return typeof n === 'number' && Number.isFinite(n) && n > 0 ? n : 1;
+};
+
+// Optional amount; zero and unreadable values are left out
+const toAmount = (value: unknown, currency?: string): number | undefined => {
+  const amount = value === null || value === undefined ? undefined : parsePrice(value, currency);
+  return amount ? amount : undefined;
+};
+
+// The fields of a line that was read, as the model gave them ("米饭 · Steamed Rice · 3"), for retyping it by hand
+const describeRawItem = (raw: any): string => {
+  if (!raw || typeof raw !== 'object') return '';
+  const name = raw.name !== raw.originalName ? raw.name : undefined;
+  return [raw.originalName, name, raw.quantity, raw.amount ?? raw.unitPrice]
+    .filter(value => (typeof value === 'string' && value.trim() !== '') || typeof value === 'number')
+    .join(' · ');
+};
+
+// Returns null (with the reason in `changes`) when the line has no name or no amount
+const toReceiptItem = (raw: any, id: string, currency: string | undefined, changes: string[]): ReceiptItem | null => {
+  if (!raw || typeof raw !== 'object') {
+    changes.push('not an object');
+    return null;
+  }
+  const name = isNonEmptyString(raw.name) ? raw.name.trim() : isNonEmptyString(raw.originalName) ? raw.originalName.trim() : null;
+  if (!name) {
+    changes.push('no name');
+    return null;
+  }
+
+  const quantity = toQuantity(raw.quantity);
+  const unitPrice = toAmount(raw.unitPrice, currency);
+  // A line without its own total is quantity x unit price
+  const amount = parsePrice(raw.amount, currency) ?? (unitPrice !== undefined ? unitPrice * quantity : undefined);
+  if (amount === undefined) {
+    changes.push('no amount');
+    return null;
+  }
+
+  const item: ReceiptItem = {
+    id,
+    name,
+    originalName: isNonEmptyString(raw.originalName) ? raw.originalName.trim() : name,
+    quantity,
+    amount,
+    dinerIds: []
+  };
+  if (unitPrice !== undefined) item.unitPrice = unitPrice;
+  return item;
+};
+
+/**
+ * Turn the model's receipt payload into a RecognizedReceipt. Line items without a name or an amount
+ * are dropped and listed in `dropped`; amounts printed as text ("1,200", "¥980") are parsed.
+ */
+export const toRecognizedReceipt = (raw: any, idPrefix: string): ReceiptRecognitionResult => {
+  const currency = normalizeCurrency(raw?.currency);
+  const rawItems: any[] = Array.isArray(raw?.items) ? raw.items : [];
+  const items: ReceiptItem[] = [];
+  const dropped: ReceiptRecognitionResult['dropped'] = [];
+  rawItems.forEach((rawItem, index) => {
+    const changes: string[] = [];
+    const item = toReceiptItem(rawItem, `${idPrefix}${index}`, currency, changes);
+    if (item) items.push(item);
+    else dropped.push({
+      item: (isNonEmptyString(rawItem?.name) && rawItem.name) || `#${index + 1}`,
+      text: describeRawItem(rawItem),
+      reason: changes.join(', ')
+    });
+  });
+
+  const receipt: RecognizedReceipt = { items };
+  if (isNonEmptyString(raw?.merchant)) receipt.merchant = raw.merchant.trim();
+  if (currency) receipt.currency = currency;
+  const subtotal = toAmount(raw?.subtotal, currency);
+  if (subtotal !== undefined) receipt.subtotal = subtotal;
+  const tax = toAmount(raw?.tax, currency);
+  if (tax !== undefined) {
+    receipt.tax = tax;
+    receipt.taxIncluded = !!raw?.taxIncluded;
+  }
+  const serviceCharge = toAmount(raw?.serviceCharge, currency);
+  if (serviceCharge !== undefined) receipt.serviceCharge = serviceCharge;
+  const discount = toAmount(raw?.discount, currency);
+  if (discount !== undefined) receipt.discount = discount;
+  const total = toAmount(raw?.total, currency);
+  if (total !== undefined) receipt.total = total;
+  return { receipt, dropped };
+};
@@ -0,0 +1,72 @@
+/**
+ * Incremental parser for the `{ "isMenu": ..., "dishes": [ {...}, {...} ] }` payload
+ * while it is still being streamed. Feed it text chunks; it returns each dish object
+ * as soon as its closing brace arrives, without waiting for the rest of the document.
+ */
+export interface DishStreamParser {
+  push: (chunk: string) => any[]; // Newly completed raw dish objects
+  isMenu: () => boolean | undefined; // Known once the flag has streamed in
+  text: () => string; // Everything received so far
+}
+
+export const createDishStreamParser = (): DishStreamParser => {
+  let buffer = '';
+  let cursor = 0; // Next character to scan
+  let arrayStart = -1; // Index just after the '[' of "dishes"
+  let depth = 0; // Brace depth inside the dishes array
+  let objectStart = -1;
+  let inString = false;
+  let escaped = false;
+  let arrayClosed = false;
+
+  const push = (chunk: string): any[] => {
+    buffer += chunk;
+    const completed: any[] = [];
+
+    if (arrayStart === -1) {
+      const match = /"dishes"\s*:\s*\[/.exec(buffer);
+      if (!match) return completed;
+      arrayStart = match.index + match[0].length;
+      cursor = arrayStart;
+    }
+
+    for (; cursor < buffer.length && !arrayClosed; cursor++) {
+      const char = buffer[cursor];
+
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === '"') inString = false;
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+      } else if (char === '{') {
+        if (depth === 0) objectStart = cursor;
+        depth++;
+      } else if (char === '}') {
+        depth--;
+        if (depth === 0 && objectStart !== -1) {
+          try {
+            completed.push(JSON.parse(buffer.slice(objectStart, cursor + 1)));
+          } catch {
+            // Malformed item; the final full parse decides what to do with it
+          }
+          objectStart = -1;
+        }
+      } else if (char === ']' && depth === 0) {
+        arrayClosed = true;
+      }
+    }
+
+    return completed;
+  };
+
+  const isMenu = (): boolean | undefined => {
+    const match = /"isMenu"\s*:\s*(true|false)/.exec(buffer);
+    return match ? match[1] === 'true' : undefined;
+  };
+
+  return { push, isMenu, text: () => buffer };
+};
@@ -0,0 +1,55 @@
+import { Dish, Language, Receipt, ScanType } from '../../types';
+
+// Base64 image payload sent to the model (no data URL prefix)
+export interface RecognitionImage {
+  data: string;
+  mimeType: string;
+}
+
+export interface RecognitionRequest {
+  image: RecognitionImage;
+  scanType: ScanType;
+  targetLanguage: Language;
+  // Called for each dish as soon as it is complete, before `recognize` resolves.
+  // `isMenu` is undefined if the model hasn't reported it yet.
+  onDish?: (dish: Dish, isMenu: boolean | undefined) => void;
+  // Cancels the request; `recognize` then rejects with the signal's reason and emits no more dishes
+  signal?: AbortSignal;
+}
+
+export interface RecognitionResult {
+  isMenu: boolean;
+  dishes: Dish[];
+}
+
+export interface ReceiptRecognitionRequest {
+  image: RecognitionImage;
+  targetLanguage: Language;
+  signal?: AbortSignal;
+}
+
+// What can be read off the receipt photo; diners are added by the user afterwards
+export type RecognizedReceipt = Pick<Receipt,
+  'merchant' | 'currency' | 'items' | 'subtotal' | 'tax' | 'taxIncluded' | 'serviceCharge' | 'discount' | 'total'>;
+
+export interface ReceiptRecognitionResult {
+  receipt: RecognizedReceipt;
+  // Line items left out, named by their index when unnamed; `text` is what was read of the line
+  dropped: { item: string; text: string; reason: string }[];
+}
+
+export interface LabelRecognitionRequest {
+  image: RecognitionImage;
+  targetLanguage: Language;
+  signal?: AbortSignal;
+}
+
+// A backend that turns a photo into dishes (or a receipt into line items, or a package into
+// its ingredient label). Implementations: Gemini (live) and fixture (offline replay).
+export interface RecognitionProvider {
+  name: string;
+  recognize: (request: RecognitionRequest) => Promise<RecognitionResult>;
+  recognizeReceipt: (request: ReceiptRecognitionRequest) => Promise<ReceiptRecognitionResult>;
+  // The product as an unvalidated Dish carrying `label`, or null if no ingredient list was found
+  recognizeLabel: (request: LabelRecognitionRequest) => Promise<Dish | null>;
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { validateDish, validateDishes } from './validate';
+
+const rawDish = (fields: Record<string, unknown> = {}) => ({
+  id: '1',
+  name: 'Mapo Tofu',
+  originalName: '麻婆豆腐',
+  description: 'Silken tofu in a spicy chili and bean sauce.',
+  tags: ['Spicy'],
+  allergens: ['soy'],
+  spiceLevel: 'Hot',
+  category: 'Main',
+  ...fields
+});
+
+describe('validateDish', () => {
+  it('passes a well-formed dish through unchanged', () => {
+    const changes: string[] = [];
+    const dish = validateDish(rawDish(), changes);
+    expect(dish).toMatchObject({ id: '1', name: 'Mapo Tofu', originalName: '麻婆豆腐', allergens: ['soy'], spiceLevel: 'Hot' });
+    expect(changes).toEqual([]);
+  });
+
+  it('keeps the conversation of a stored dish', () => {
+    const conversation = [
+      { role: 'user', text: 'Is it very spicy?', created_at: '2024-05-01T12:00:00Z' },
+      { role: 'model', text: 'Yes, it is quite hot.', created_at: '2024-05-01T12:00:02Z' }
+    ];
+    const stripped = new Set<string>();
+    expect(validateDish(rawDish({ conversation }), [], stripped)?.conversation).toEqual(conversation);
+    expect([...stripped]).toEqual([]);
+  });
+
+  it('drops a dish without any name', () => {
+    const changes: string[] = [];
+    expect(validateDish(rawDish({ name: '', originalName: ' ' }), changes)).toBeNull();
+    expect(changes).toEqual(['no name']);
+    expect(validateDish('not a dish', changes)).toBeNull();
+  });
+
+  it('takes a missing name from the other one', () => {
+    const changes: string[] = [];
+    expect(validateDish(rawDish({ name: undefined }), changes)?.name).toBe('麻婆豆腐');
+    expect(changes).toContain('name taken from originalName');
+  });
+
+  it('maps allergen labels to codes and adds the ones named on ingredients', () => {
+    const changes: string[] = [];
+    const dish = validateDish(rawDish({
+      allergens: ['Peanuts', 'Shellfish'],
+      ingredients: [{ name: 'Tofu', presence: 'visible', allergens: ['soy'] }, { name: '' }]
+    }), changes);
+    expect(dish?.allergens).toEqual(['peanuts', 'crustaceans', 'molluscs', 'soy']);
+    expect(changes).toEqual(expect.arrayContaining(['allergens mapped to allergen codes', 'allergens added from ingredients', 'unnamed ingredients removed']));
+  });
+
+  it('keeps allergens of vague label ingredients off the dish', () => {
+    const dish = validateDish(rawDish({
+      allergens: [],
+      label: {
+        ingredientsText: '小麦粉、香料',
+        ingredients: [
+          { name: 'Wheat flour', originalName: '小麦粉', allergens: ['gluten'] },
+          { name: 'Flavouring', originalName: '香料', allergens: ['milk'], uncertain: true }
+        ]
+      }
+    }));
+    expect(dish?.allergens).toEqual(['gluten']);
+    expect(dish?.label?.ingredients).toHaveLength(2);
+  });
+
+  it('reads prices printed as text with the currency they are in', () => {
+    const changes: string[] = [];
+    const dish = validateDish(rawDish({ price: '¥1,200', currency: '円' }), changes);
+    expect(dish).toMatchObject({ price: 1200, currency: 'JPY' });
+    expect(changes).toEqual(['price "¥1,200" read as 1200', 'currency "円" read as JPY']);
+
+    expect(validateDish(rawDish({ price: '1.250', currency: 'KWD' }))?.price).toBe(1.25);
+  });
+
+  it('removes an unreadable price and its currency', () => {
+    const changes: string[] = [];
+    const dish = validateDish(rawDish({ price: 'market price', currency: 'USD' }), changes);
+    expect(dish?.price).toBeUndefined();
+    expect(dish?.currency).toBeUndefined();
+    expect(changes).toContain('unreadable price "market price" removed');
+  });
+
+  it('repairs bounding boxes given as fractions or with swapped corners', () => {
+    const changes: string[] = [];
+    expect(validateDish(rawDish({ boundingBox: [0.5, 0.4, 0.1, 0.2] }), changes)?.boundingBox).toEqual([100, 200, 500, 400]);
+    expect(changes).toEqual(['boundingBox rescaled from 0-1 to 0-1000', 'boundingBox corners reordered']);
+    expect(validateDish(rawDish({ boundingBox: [10, 10, 10, 20] }))?.boundingBox).toBeUndefined();
+  });
+
+  it('reads spice level synonyms and defaults unknown ones to None', () => {
+    expect(validateDish(rawDish({ spiceLevel: 'Fiery' }))?.spiceLevel).toBe('None');
+    expect(validateDish(rawDish({ spiceLevel: undefined }))?.spiceLevel).toBe('None');
+  });
+});
+
+describe('validateDishes', () => {
+  it('reports dropped and repaired dishes and the fields it stripped', () => {
+    const { dishes, report } = validateDishes([
+      rawDish({ englishName: 'Mapo Tofu' }),
+      rawDish({ id: '2', name: undefined, originalName: undefined }),
+      rawDish({ id: '3', tags: 'Spicy, Vegetarian' })
+    ]);
+    expect(dishes.map(d => d.id)).toEqual(['1', '3']);
+    expect(dishes[1].tags).toEqual(['Spicy', 'Vegetarian']);
+    expect(report.dropped).toEqual([{ dish: '#2', reason: 'no name' }]);
+    expect(report.repaired).toEqual([{ dish: 'Mapo Tofu', changes: ['tags converted to a list'] }]);
+    expect(report.strippedFields).toEqual(['englishName']);
+  });
+});
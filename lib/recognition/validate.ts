@@ -0,0 +1,331 @@
+import { AllergenCode, Dish, DishConfidence, Ingredient, IngredientPresence, LabelIngredient, ProductLabel } from '../../types';
+import { toAllergenCodes } from '../allergens';
+import { normalizeCurrency, parsePrice } from '../currency';
+import { toNutrition } from '../nutrition';
+
+const SPICE_LEVELS: Dish['spiceLevel'][] = ['None', 'Mild', 'Medium', 'Hot'];
+
+// Loose spellings seen in model output, by normalised text
+const SPICE_SYNONYMS: Record<string, Dish['spiceLevel']> = {
+  '0': 'None', 'none': 'None', 'no': 'None', 'not spicy': 'None',
+  '1': 'Mild', 'mild': 'Mild', 'low': 'Mild', 'slightly spicy': 'Mild',
+  '2': 'Medium', 'medium': 'Medium', 'moderate': 'Medium', 'spicy': 'Medium',
+  '3': 'Hot', 'hot': 'Hot', 'high': 'Hot', 'very hot': 'Hot', 'very spicy': 'Hot', 'extra hot': 'Hot'
+};
+
+// Fields a Dish may carry; anything else the model adds (e.g. englishName) is stripped
+const DISH_FIELDS = new Set<string>([
+  'id', 'name', 'originalName', 'pronunciation', 'originalLanguage', 'description', 'image', 'imageSource', 'rejectedImages', 'tags', 'allergens', 'spiceLevel',
+  'category', 'boundingBox', 'price', 'currency', 'section', 'sectionOriginal', 'sectionIndex', 'position',
+  'confidence', 'nutrition', 'ingredients', 'label', 'page', 'isMenu', 'sessionId', 'language', 'translations', 'conversation'
+]);
+
+// Flat model fields folded into `confidence` rather than stripped
+const CONFIDENCE_FIELDS = new Set<string>(['identityConfidence', 'spiceLevelConfidence', 'allergenConfidence']);
+
+export interface DishRepair {
+  dish: string; // Name of the dish (or its index if it has none)
+  changes: string[]; // Human-readable description of each fix
+}
+
+export interface ValidationReport {
+  repaired: DishRepair[];
+  dropped: { dish: string; reason: string }[];
+  strippedFields: string[]; // Unknown field names removed, across all dishes
+}
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+// Arrays pass through; a comma-separated string is split; anything else becomes empty
+const toStringList = (value: unknown): string[] | null => {
+  if (Array.isArray(value)) return value.filter(isNonEmptyString).map(v => v.trim());
+  if (isNonEmptyString(value)) return value.split(',').map(v => v.trim()).filter(Boolean);
+  return null;
+};
+
+// Loose BCP 47 check: primary language subtag plus optional region/script subtags, "_" read as "-"
+const toLanguageTag = (value: unknown): string | null => {
+  if (!isNonEmptyString(value)) return null;
+  const tag = value.trim().replace(/_/g, '-');
+  return /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i.test(tag) ? tag : null;
+};
+
+// Non-negative whole number (model output may be a numeric string), or null
+const toOrderIndex = (value: unknown): number | null => {
+  const n = typeof value === 'string' ? Number(value) : value;
+  return typeof n === 'number' && Number.isInteger(n) && n >= 0 ? n : null;
+};
+
+// 0-1 score; percentages are scaled down, anything else unreadable is null
+const toScore = (value: unknown): number | null => {
+  const n = typeof value === 'string' ? parseFloat(value) : value;
+  if (typeof n !== 'number' || !Number.isFinite(n) || n < 0) return null;
+  if (n <= 1) return n;
+  return n <= 100 ? n / 100 : null;
+};
+
+/**
+ * Collect the model's flat confidence fields (identityConfidence, spiceLevelConfidence,
+ * allergenConfidence: [{ allergen, confidence }]) into a DishConfidence, keeping only
+ * allergens the dish lists. An already-built `confidence` object (stored dishes) is re-checked.
+ */
+const toConfidence = (raw: any, allergens: AllergenCode[]): DishConfidence | undefined => {
+  const stored = raw.confidence && typeof raw.confidence === 'object' ? raw.confidence : {};
+  const confidence: DishConfidence = {};
+
+  const identity = toScore(raw.identityConfidence ?? stored.identity);
+  if (identity !== null) confidence.identity = identity;
+  const spiceLevel = toScore(raw.spiceLevelConfidence ?? stored.spiceLevel);
+  if (spiceLevel !== null) confidence.spiceLevel = spiceLevel;
+
+  const entries: [unknown, unknown][] = Array.isArray(raw.allergenConfidence)
+    ? raw.allergenConfidence.map((e: any) => [e?.allergen, e?.confidence])
+    : Object.entries(stored.allergens || {});
+  const byAllergen: DishConfidence['allergens'] = {};
+  entries.forEach(([allergen, score]) => {
+    const value = toScore(score);
+    if (value === null || typeof allergen !== 'string') return;
+    toAllergenCodes([allergen]).filter(code => allergens.includes(code)).forEach(code => { byAllergen[code] = value; });
+  });
+  if (Object.keys(byAllergen).length > 0) confidence.allergens = byAllergen;
+
+  return Object.keys(confidence).length > 0 ? confidence : undefined;
+};
+
+const PRESENCES: IngredientPresence[] = ['visible', 'typical', 'possible'];
+
+// Named ingredients only; unknown presence counts as typical, allergens are mapped to codes
+const toIngredients = (value: unknown, changes: string[]): Ingredient[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const ingredients = value
+    .filter(i => i && isNonEmptyString(i.name))
+    .map((i): Ingredient => ({
+      name: i.name.trim(),
+      presence: PRESENCES.includes(i.presence) ? i.presence : 'typical',
+      allergens: toAllergenCodes(toStringList(i.allergens) || [])
+    }));
+  if (ingredients.length !== value.length) changes.push('unnamed ingredients removed');
+  return ingredients.length > 0 ? ingredients : undefined;
+};
+
+// Named label ingredients only; the printed name defaults to the translated one
+const toLabelIngredients = (value: unknown, changes: string[]): LabelIngredient[] => {
+  if (!Array.isArray(value)) return [];
+  const ingredients = value
+    .filter(i => i && (isNonEmptyString(i.name) || isNonEmptyString(i.originalName)))
+    .map((i): LabelIngredient => {
+      const name = isNonEmptyString(i.name) ? i.name.trim() : i.originalName.trim();
+      const ingredient: LabelIngredient = {
+        name,
+        originalName: isNonEmptyString(i.originalName) ? i.originalName.trim() : name,
+        allergens: toAllergenCodes(toStringList(i.allergens) || [])
+      };
+      if (i.uncertain) ingredient.uncertain = true;
+      return ingredient;
+    });
+  if (ingredients.length !== value.length) changes.push('unnamed label ingredients removed');
+  return ingredients;
+};
+
+// A product label needs its printed ingredient list (or at least the ingredients read from it)
+const toProductLabel = (value: any, changes: string[]): ProductLabel | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const ingredients = toLabelIngredients(value.ingredients, changes);
+  const ingredientsText = isNonEmptyString(value.ingredientsText)
+    ? value.ingredientsText.trim()
+    : ingredients.map(i => i.originalName).join(', ');
+  if (!ingredientsText) return undefined;
+  if (!isNonEmptyString(value.ingredientsText)) changes.push('label text rebuilt from ingredients');
+
+  const label: ProductLabel = { ingredientsText, ingredients, mayContain: toLabelIngredients(value.mayContain, changes) };
+  if (isNonEmptyString(value.ingredientsTranslated)) label.ingredientsTranslated = value.ingredientsTranslated.trim();
+  if (isNonEmptyString(value.mayContainText)) label.mayContainText = value.mayContainText.trim();
+  if (isNonEmptyString(value.mayContainTranslated)) label.mayContainTranslated = value.mayContainTranslated.trim();
+  return label;
+};
+
+const toSpiceLevel = (value: unknown): Dish['spiceLevel'] | null => {
+  if (SPICE_LEVELS.includes(value as Dish['spiceLevel'])) return value as Dish['spiceLevel'];
+  const key = String(value ?? '').trim().toLowerCase().replace(/[-_]/g, ' ');
+  return SPICE_SYNONYMS[key] || null;
+};
+
+// [ymin, xmin, ymax, xmax] on the 0-1000 scale, or null if it cannot be salvaged
+const toBoundingBox = (value: unknown, changes: string[]): number[] | null => {
+  if (!Array.isArray(value) || value.length !== 4) return null;
+  let box = value.map(v => typeof v === 'string' ? parseFloat(v) : v);
+  if (!box.every(v => typeof v === 'number' && Number.isFinite(v))) return null;
+
+  // 0-1 fractions instead of the 0-1000 scale
+  if (box.every(v => v >= 0 && v <= 1) && box.some(v => v > 0)) {
+    box = box.map(v => v * 1000);
+    changes.push('boundingBox rescaled from 0-1 to 0-1000');
+  }
+  if (box.some(v => v < 0 || v > 1000)) {
+    box = box.map(v => Math.min(1000, Math.max(0, v)));
+    changes.push('boundingBox clamped to 0-1000');
+  }
+  let [ymin, xmin, ymax, xmax] = box;
+  if (ymin > ymax || xmin > xmax) {
+    [ymin, ymax] = [Math.min(ymin, ymax), Math.max(ymin, ymax)];
+    [xmin, xmax] = [Math.min(xmin, xmax), Math.max(xmin, xmax)];
+    changes.push('boundingBox corners reordered');
+  }
+  if (ymin === ymax || xmin === xmax) return null;
+  return [ymin, xmin, ymax, xmax];
+};
+
+/**
+ * Check one dish from the model against the Dish shape, fixing what can be fixed.
+ * Returns null (with the reason in `changes`) when the dish has no usable name.
+ */
+export const validateDish = (raw: any, changes: string[] = [], stripped: Set<string> = new Set()): Dish | null => {
+  if (!raw || typeof raw !== 'object') {
+    changes.push('not an object');
+    return null;
+  }
+
+  const name = isNonEmptyString(raw.name) ? raw.name.trim() : isNonEmptyString(raw.originalName) ? raw.originalName.trim() : null;
+  if (!name) {
+    changes.push('no name');
+    return null;
+  }
+  if (!isNonEmptyString(raw.name)) changes.push('name taken from originalName');
+
+  let originalName = name;
+  if (isNonEmptyString(raw.originalName)) originalName = raw.originalName.trim();
+  else changes.push('originalName taken from name');
+
+  // Pointless when it just repeats a name already in Latin script
+  const pronunciation = isNonEmptyString(raw.pronunciation) && raw.pronunciation.trim() !== originalName
+    ? raw.pronunciation.trim()
+    : undefined;
+  const originalLanguage = toLanguageTag(raw.originalLanguage);
+  if (isNonEmptyString(raw.originalLanguage) && !originalLanguage) changes.push(`invalid originalLanguage "${raw.originalLanguage}" removed`);
+
+  const description = typeof raw.description === 'string' ? raw.description : '';
+  if (typeof raw.description !== 'string') changes.push('description missing');
+
+  const tags = toStringList(raw.tags);
+  if (!Array.isArray(raw.tags)) changes.push(tags ? 'tags converted to a list' : 'tags missing');
+
+  const allergenList = toStringList(raw.allergens) || [];
+  const allergens = toAllergenCodes(allergenList);
+  if (!Array.isArray(raw.allergens)) changes.push('allergens converted to a list');
+  else if (allergens.length !== raw.allergens.length || allergens.some((a, i) => a !== raw.allergens[i])) {
+    changes.push('allergens mapped to allergen codes');
+  }
+
+  // An allergen named on an ingredient is an allergen of the dish
+  const ingredients = toIngredients(raw.ingredients, changes);
+  const ingredientAllergens = (ingredients || []).flatMap(i => i.allergens).filter(a => !allergens.includes(a));
+  if (ingredientAllergens.length > 0) {
+    allergens.push(...new Set(ingredientAllergens));
+    changes.push('allergens added from ingredients');
+  }
+
+  // Same for a packaged product's ingredients, unless the wording is too vague to tell;
+  // "may contain" traces stay on the label
+  const label = toProductLabel(raw.label, changes);
+  if (raw.label && !label) changes.push('unreadable label removed');
+  const labelAllergens = (label?.ingredients || [])
+    .filter(i => !i.uncertain)
+    .flatMap(i => i.allergens)
+    .filter(a => !allergens.includes(a));
+  if (labelAllergens.length > 0) {
+    allergens.push(...new Set(labelAllergens));
+    changes.push('allergens added from label');
+  }
+
+  const spiceLevel = toSpiceLevel(raw.spiceLevel);
+  if (spiceLevel !== raw.spiceLevel) {
+    changes.push(spiceLevel ? `spiceLevel "${raw.spiceLevel}" read as ${spiceLevel}` : `unknown spiceLevel "${raw.spiceLevel}" set to None`);
+  }
+
+  const category = isNonEmptyString(raw.category) ? raw.category.trim() : '';
+  if (!category) changes.push('category missing');
+
+  let boundingBox: number[] | undefined;
+  if (raw.boundingBox !== undefined && raw.boundingBox !== null) {
+    boundingBox = toBoundingBox(raw.boundingBox, changes) || undefined;
+    if (!boundingBox) changes.push('invalid boundingBox removed');
+  }
+
+  const printedCurrency = normalizeCurrency(raw.currency);
+  const price = raw.price === undefined || raw.price === null ? undefined : parsePrice(raw.price, printedCurrency);
+  if (price === undefined && raw.price !== undefined && raw.price !== null) changes.push(`unreadable price "${raw.price}" removed`);
+  else if (price !== undefined && price !== raw.price) changes.push(`price "${raw.price}" read as ${price}`);
+  const currency = price === undefined ? undefined : printedCurrency;
+  if (currency && currency !== raw.currency) changes.push(`currency "${raw.currency}" read as ${currency}`);
+
+  const section = isNonEmptyString(raw.section) ? raw.section.trim() : undefined;
+  const sectionOriginal = isNonEmptyString(raw.sectionOriginal) ? raw.sectionOriginal.trim() : undefined;
+  const sectionIndex = toOrderIndex(raw.sectionIndex);
+  const position = toOrderIndex(raw.position);
+  if (raw.position !== undefined && raw.position !== null && position === null) changes.push(`invalid position "${raw.position}" removed`);
+
+  const confidence = toConfidence(raw, allergens);
+  const nutrition = toNutrition(raw.nutrition);
+  if (raw.nutrition && !nutrition) changes.push('unreadable nutrition removed');
+
+  Object.keys(raw).filter(key => !DISH_FIELDS.has(key) && !CONFIDENCE_FIELDS.has(key)).forEach(key => stripped.add(key));
+
+  const dish: Dish = {
+    id: String(raw.id),
+    name,
+    originalName,
+    description,
+    tags: tags || [],
+    allergens,
+    spiceLevel: spiceLevel || 'None',
+    category
+  };
+  if (pronunciation) dish.pronunciation = pronunciation;
+  if (originalLanguage) dish.originalLanguage = originalLanguage;
+  if (raw.image !== undefined) dish.image = raw.image;
+  if (raw.imageSource !== undefined) dish.imageSource = raw.imageSource;
+  if (Array.isArray(raw.rejectedImages)) dish.rejectedImages = raw.rejectedImages;
+  if (boundingBox) dish.boundingBox = boundingBox;
+  if (price !== undefined) dish.price = price;
+  if (currency) dish.currency = currency;
+  if (section) dish.section = section;
+  if (sectionOriginal) dish.sectionOriginal = sectionOriginal;
+  if (sectionIndex !== null) dish.sectionIndex = sectionIndex;
+  if (position !== null) dish.position = position;
+  if (confidence) dish.confidence = confidence;
+  if (nutrition) dish.nutrition = nutrition;
+  if (ingredients) dish.ingredients = ingredients;
+  if (label) dish.label = label;
+  if (typeof raw.page === 'number') dish.page = raw.page;
+  if (raw.isMenu !== undefined) dish.isMenu = !!raw.isMenu;
+  if (raw.sessionId !== undefined) dish.sessionId = raw.sessionId;
+  if (raw.language !== undefined) dish.language = raw.language;
+  if (raw.translations && typeof raw.translations === 'object') dish.translations = raw.translations;
+  if (Array.isArray(raw.conversation)) dish.conversation = raw.conversation;
+  return dish;
+};
+
+// Validate every dish of a recognition result and describe what was changed or dropped
+export const validateDishes = (rawDishes: any[]): { dishes: Dish[]; report: ValidationReport } => {
+  const report: ValidationReport = { repaired: [], dropped: [], strippedFields: [] };
+  const stripped = new Set<string>();
+  const dishes: Dish[] = [];
+
+  rawDishes.forEach((raw, index) => {
+    const changes: string[] = [];
+    const dish = validateDish(raw, changes, stripped);
+    const label = (isNonEmptyString(raw?.name) && raw.name) || (isNonEmptyString(raw?.originalName) && raw.originalName) || `#${index + 1}`;
+    if (!dish) {
+      report.dropped.push({ dish: label, reason: changes.join(', ') });
+      return;
+    }
+    if (changes.length > 0) report.repaired.push({ dish: label, changes });
+    dishes.push(dish);
+  });
+
+  report.strippedFields = [...stripped];
+  return { dishes, report };
+};
+
+export const hasValidationChanges = (report: ValidationReport): boolean =>
+  report.repaired.length > 0 || report.dropped.length > 0;
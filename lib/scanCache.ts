@@ -0,0 +1,122 @@
+import { Dish, Language, ScanType } from '../types';
+import { SCAN_CACHE_MAX_BYTES, SCAN_CACHE_MAX_DISTANCE, SCAN_CACHE_MAX_ENTRIES } from '../constants';
+import { hammingDistance } from './image';
+
+const DB_NAME = 'snap-eat-scan-cache';
+const DB_VERSION = 1;
+const STORE = 'scans';
+
+export interface CachedScan {
+    id?: number;
+    hashes: string[]; // Perceptual hash per page, in page order
+    targetLanguage: Language;
+    scanType: ScanType;
+    isMenu: boolean;
+    dishes: Dish[];
+    size: number; // Approximate bytes, for the size cap
+    createdAt: number;
+    lastUsedAt: number;
+}
+
+export interface ScanCacheKey {
+    hashes: string[];
+    targetLanguage: Language;
+    scanType: ScanType;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                request.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Let a later call try again (e.g. after private browsing blocked the first open)
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+const getAllEntries = async (db: IDBDatabase): Promise<CachedScan[]> =>
+    requestToPromise(db.transaction(STORE, 'readonly').objectStore(STORE).getAll());
+
+const matches = (entry: CachedScan, key: ScanCacheKey): boolean =>
+    entry.targetLanguage === key.targetLanguage &&
+    entry.scanType === key.scanType &&
+    entry.hashes.length === key.hashes.length &&
+    entry.hashes.every((hash, i) => hammingDistance(hash, key.hashes[i]) <= SCAN_CACHE_MAX_DISTANCE);
+
+/**
+ * Find an earlier scan of (nearly) the same photos with the same language and scan type.
+ * The cache is best effort: any IndexedDB failure is logged and reported as a miss.
+ */
+export const findCachedScan = async (key: ScanCacheKey): Promise<CachedScan | null> => {
+    try {
+        const db = await openDb();
+        const entry = (await getAllEntries(db)).find(e => matches(e, key));
+        if (!entry) return null;
+
+        const touched = { ...entry, lastUsedAt: Date.now() };
+        await requestToPromise(db.transaction(STORE, 'readwrite').objectStore(STORE).put(touched));
+        return touched;
+    } catch (error) {
+        console.error('Error reading scan cache:', error);
+        return null;
+    }
+};
+
+// Store a finished scan, replacing any entry for the same photos, then evict least recently used
+// entries until the cache fits SCAN_CACHE_MAX_ENTRIES and SCAN_CACHE_MAX_BYTES.
+export const saveCachedScan = async (key: ScanCacheKey, isMenu: boolean, dishes: Dish[]): Promise<void> => {
+    try {
+        const db = await openDb();
+        const existing = await getAllEntries(db);
+        const now = Date.now();
+        const entry: CachedScan = {
+            ...key,
+            isMenu,
+            dishes,
+            size: JSON.stringify(dishes).length + key.hashes.join('').length,
+            createdAt: now,
+            lastUsedAt: now
+        };
+
+        const kept = existing
+            .filter(e => !matches(e, key))
+            .sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+        const evicted = existing.filter(e => matches(e, key));
+        let totalSize = entry.size;
+        let count = 1;
+        for (const e of kept) {
+            if (count >= SCAN_CACHE_MAX_ENTRIES || totalSize + e.size > SCAN_CACHE_MAX_BYTES) {
+                evicted.push(e);
+            } else {
+                totalSize += e.size;
+                count++;
+            }
+        }
+
+        const tx = db.transaction(STORE, 'readwrite');
+        const store = tx.objectStore(STORE);
+        evicted.forEach(e => store.delete(e.id!));
+        store.add(entry);
+        await new Promise<void>((resolve, reject) => {
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+    } catch (error) {
+        console.error('Error writing scan cache:', error);
+    }
+};
@@ -0,0 +1,155 @@
+import { Dish, Order, Receipt, ScanSession } from '../types';
+import { toAllergenCodes } from './allergens';
+import { compareMenuOrder } from './menuSections';
+import { nutritionFromRow, nutritionToRow } from './nutrition';
+import { toStoredImage } from './storage';
+
+// Map a `scans` row to the app's Dish shape. Allergens from before codes (localized labels the
+// schema upgrade could not map) are read as codes here but never written back
+export const toDish = (s: any): Dish => ({
+  id: s.id,
+  name: s.name,
+  originalName: s.original_name,
+  pronunciation: s.pronunciation || undefined,
+  originalLanguage: s.original_language || undefined,
+  description: s.description,
+  image: s.image_url,
+  imageSource: s.image_source || undefined,
+  rejectedImages: s.rejected_images || [],
+  tags: s.tags || [],
+  allergens: toAllergenCodes(s.allergens),
+  spiceLevel: s.spice_level,
+  category: s.category,
+  boundingBox: s.bounding_box,
+  price: s.price ?? undefined,
+  currency: s.currency || undefined,
+  section: s.section || undefined,
+  sectionOriginal: s.section_original || undefined,
+  sectionIndex: s.section_index ?? undefined,
+  position: s.position ?? undefined,
+  confidence: s.confidence || undefined,
+  nutrition: nutritionFromRow(s),
+  ingredients: s.ingredients || undefined,
+  label: s.label || undefined,
+  conversation: s.conversation || [],
+  page: s.page ?? 0,
+  isMenu: s.is_menu,
+  sessionId: s.session_id || undefined,
+  language: s.language || undefined,
+  translations: s.translations || {},
+  created_at: s.created_at
+});
+
+// Map a Dish to a `scans` insert payload
+export const toScanRow = (dish: Dish, userId: string, sessionId: string | null) => ({
+  user_id: userId,
+  session_id: sessionId,
+  name: dish.name,
+  original_name: dish.originalName,
+  pronunciation: dish.pronunciation ?? null,
+  original_language: dish.originalLanguage ?? null,
+  description: dish.description,
+  image_url: dish.image ? toStoredImage(dish.image) : dish.image,
+  image_source: dish.imageSource ?? null,
+  rejected_images: dish.rejectedImages || [],
+  tags: dish.tags,
+  allergens: dish.allergens,
+  spice_level: dish.spiceLevel,
+  category: dish.category,
+  bounding_box: dish.boundingBox,
+  price: dish.price ?? null,
+  currency: dish.currency ?? null,
+  section: dish.section ?? null,
+  section_original: dish.sectionOriginal ?? null,
+  section_index: dish.sectionIndex ?? null,
+  position: dish.position ?? null,
+  confidence: dish.confidence ?? null,
+  ...nutritionToRow(dish.nutrition),
+  ingredients: dish.ingredients ?? null,
+  label: dish.label ?? null,
+  conversation: dish.conversation || [],
+  page: dish.page ?? 0,
+  is_menu: dish.isMenu,
+  language: dish.language,
+  translations: dish.translations || {},
+  is_saved: false
+});
+
+// Swap the stored photo paths of a `scans` or `scan_sessions` row for the signed URLs from signScanImages
+export const withSignedImages = (row: any, signed: Map<string, string>): any => ({
+  ...row,
+  ...(row.image_url ? { image_url: signed.get(row.image_url) ?? row.image_url } : {}),
+  ...(row.image_urls ? { image_urls: row.image_urls.map((url: string) => signed.get(url) ?? url) } : {})
+});
+
+// Map a `scan_sessions` row plus its already-mapped dishes, orders and receipts to a ScanSession, dishes in printed menu order
+export const toSession = (s: any, dishes: Dish[], orders: Order[] = [], receipts: Receipt[] = []): ScanSession => ({
+  id: s.id,
+  user_id: s.user_id,
+  images: s.image_urls || [],
+  scanType: s.scan_type,
+  isMenu: s.is_menu,
+  language: s.language,
+  status: s.status || 'complete',
+  errorKinds: s.error_kinds || [],
+  created_at: s.created_at,
+  dishes: [...dishes].sort(compareMenuOrder),
+  orders,
+  receipts
+});
+
+// Map an `orders` row to the app's Order shape
+export const toOrder = (o: any): Order => ({
+  id: o.id,
+  user_id: o.user_id,
+  sessionId: o.session_id || undefined,
+  language: o.language,
+  items: o.items || [],
+  created_at: o.created_at
+});
+
+// Map a `receipts` row to the app's Receipt shape
+export const toReceipt = (r: any): Receipt => ({
+  id: r.id,
+  user_id: r.user_id,
+  sessionId: r.session_id || undefined,
+  mealSessionId: r.meal_session_id || undefined,
+  merchant: r.merchant || undefined,
+  currency: r.currency || undefined,
+  items: r.items || [],
+  subtotal: r.subtotal ?? undefined,
+  tax: r.tax ?? undefined,
+  taxIncluded: !!r.tax_included,
+  serviceCharge: r.service_charge ?? undefined,
+  discount: r.discount ?? undefined,
+  total: r.total ?? undefined,
+  diners: r.diners || [],
+  language: r.language,
+  created_at: r.created_at
+});
+
+// Map a Receipt to a `receipts` insert/update payload
+export const toReceiptRow = (receipt: Receipt, userId: string) => ({
+  user_id: userId,
+  session_id: receipt.sessionId ?? null,
+  meal_session_id: receipt.mealSessionId ?? null,
+  merchant: receipt.merchant ?? null,
+  currency: receipt.currency ?? null,
+  items: receipt.items,
+  subtotal: receipt.subtotal ?? null,
+  tax: receipt.tax ?? null,
+  tax_included: !!receipt.taxIncluded,
+  service_charge: receipt.serviceCharge ?? null,
+  discount: receipt.discount ?? null,
+  total: receipt.total ?? null,
+  diners: receipt.diners,
+  language: receipt.language
+});
+
+// Map an Order to an `orders` insert/update payload
+export const toOrderRow = (order: Order, userId: string) => ({
+  user_id: userId,
+  session_id: order.sessionId ?? null,
+  language: order.language,
+  items: order.items
+});
@@ -0,0 +1,88 @@
+import { Dish } from '../types';
+
+// Rates for SpeechSynthesisUtterance; slow is for repeating a name syllable by syllable
+const NORMAL_RATE = 0.9;
+const SLOW_RATE = 0.5;
+
+// Voices load asynchronously in Chrome; don't wait on them forever
+const VOICES_TIMEOUT_MS = 2000;
+
+// Scripts that give away the language of names scanned before originalLanguage was stored
+const SCRIPT_LANGUAGES: [RegExp, string][] = [
+    [/[\u3040-\u30FF]/, 'ja-JP'], // Kana before Han: Japanese names mix both
+    [/[\uAC00-\uD7AF]/, 'ko-KR'],
+    [/[\u0E00-\u0E7F]/, 'th-TH'],
+    [/[\u4E00-\u9FFF]/, 'zh-CN'],
+    [/[\u0400-\u04FF]/, 'ru-RU'],
+    [/[\u0600-\u06FF]/, 'ar'],
+    [/[\u0900-\u097F]/, 'hi-IN']
+];
+
+export const isSpeechSupported = (): boolean =>
+    typeof window !== 'undefined' && 'speechSynthesis' in window && 'SpeechSynthesisUtterance' in window;
+
+// Language to read the original name in: the stored tag, else a guess from its script
+export const getSpeechLanguage = (dish: Pick<Dish, 'originalName' | 'originalLanguage'>): string | null => {
+    if (dish.originalLanguage) return dish.originalLanguage;
+    return SCRIPT_LANGUAGES.find(([script]) => script.test(dish.originalName || ''))?.[1] || null;
+};
+
+const loadVoices = (): Promise<SpeechSynthesisVoice[]> => {
+    const voices = window.speechSynthesis.getVoices();
+    if (voices.length > 0) return Promise.resolve(voices);
+    return new Promise(resolve => {
+        const finish = () => {
+            clearTimeout(timer);
+            window.speechSynthesis.removeEventListener('voiceschanged', finish);
+            resolve(window.speechSynthesis.getVoices());
+        };
+        const timer = setTimeout(finish, VOICES_TIMEOUT_MS);
+        window.speechSynthesis.addEventListener('voiceschanged', finish);
+    });
+};
+
+// Exact tag first (zh-HK should get Cantonese, not Mandarin), then any voice of the same language
+const findVoice = (voices: SpeechSynthesisVoice[], lang: string): SpeechSynthesisVoice | null => {
+    const normalise = (tag: string) => tag.replace(/_/g, '-').toLowerCase();
+    const wanted = normalise(lang);
+    const primary = wanted.split('-')[0];
+    return voices.find(v => normalise(v.lang) === wanted)
+        || voices.find(v => normalise(v.lang).split('-')[0] === primary)
+        || null;
+};
+
+// Whether this device has a voice for the language; without one the browser would read in the wrong accent
+export const hasVoiceFor = async (lang: string): Promise<boolean> => {
+    if (!isSpeechSupported()) return false;
+    return !!findVoice(await loadVoices(), lang);
+};
+
+export const stopSpeaking = () => {
+    if (isSpeechSupported()) window.speechSynthesis.cancel();
+};
+
+/**
+ * Read `text` aloud in `lang`, interrupting anything already being spoken.
+ * Resolves when speech ends (or is interrupted); rejects if the device can't speak it.
+ */
+export const speak = async (text: string, lang: string, { slow = false }: { slow?: boolean } = {}): Promise<void> => {
+    if (!isSpeechSupported()) throw new Error('Speech synthesis is not supported');
+    const voice = findVoice(await loadVoices(), lang);
+    if (!voice) throw new Error(`No voice for ${lang}`);
+
+    window.speechSynthesis.cancel();
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = voice.lang;
+    utterance.voice = voice;
+    utterance.rate = slow ? SLOW_RATE : NORMAL_RATE;
+
+    return new Promise((resolve, reject) => {
+        utterance.onend = () => resolve();
+        utterance.onerror = (event) => {
+            // Cancelled by a newer request or stopSpeaking(): not a failure
+            if (event.error === 'interrupted' || event.error === 'canceled') resolve();
+            else reject(new Error(`Speech failed: ${event.error}`));
+        };
+        window.speechSynthesis.speak(utterance);
+    });
+};
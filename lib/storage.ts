@@ -0,0 +1,84 @@
+import { supabase } from './supabase';
+
+// Private bucket; objects are namespaced by user id (`<user_id>/<file>`) and RLS limits every access to the owner.
+// Rows store the object path; it is turned into a signed URL for display (signScanImages).
+export const SCAN_IMAGES_BUCKET = 'scan-images';
+
+// Signed URLs outlive a session in the app; a reload signs them again
+const SIGNED_URL_TTL_SECONDS = 24 * 60 * 60;
+
+// URLs of stored objects: signed ones, and public ones saved while the bucket was public
+const URL_MARKERS = [`/storage/v1/object/sign/${SCAN_IMAGES_BUCKET}/`, `/storage/v1/object/public/${SCAN_IMAGES_BUCKET}/`];
+
+const hasScheme = (value: string) => /^[a-z][a-z0-9+.-]*:/i.test(value);
+
+const EXTENSIONS: Record<string, string> = {
+    'image/jpeg': 'jpg',
+    'image/png': 'png',
+    'image/webp': 'webp',
+    'image/heic': 'heic',
+    'image/heif': 'heif',
+    'image/gif': 'gif'
+};
+
+// Upload a scan photo and return its object path, the value rows store
+export const uploadScanImage = async (userId: string, file: Blob): Promise<string> => {
+    const contentType = file.type || 'image/jpeg';
+    const extension = EXTENSIONS[contentType] || 'jpg';
+    const path = `${userId}/${Date.now()}-${Math.random().toString(36).slice(2, 10)}.${extension}`;
+
+    const { error } = await supabase.storage
+        .from(SCAN_IMAGES_BUCKET)
+        .upload(path, file, { contentType, upsert: false });
+    if (error) throw error;
+    return path;
+};
+
+// Object path inside the bucket for a stored path or one of our URLs, or null for foreign URLs
+// (web image search results, placeholders, blob URLs)
+export const getScanImagePath = (url: string | null | undefined): string | null => {
+    if (!url) return null;
+    if (!hasScheme(url)) return url;
+    for (const marker of URL_MARKERS) {
+        const index = url.indexOf(marker);
+        if (index !== -1) return decodeURIComponent(url.slice(index + marker.length).split('?')[0]);
+    }
+    return null;
+};
+
+// The value to write to a row: the object path for our photos, anything else as-is
+export const toStoredImage = (url: string): string => getScanImagePath(url) ?? url;
+
+/**
+ * Signed URLs for the stored photos among `values` (paths or URLs of ours), keyed by the value
+ * they replace. Foreign URLs are left out; callers keep those as they are.
+ */
+export const signScanImages = async (values: (string | null | undefined)[]): Promise<Map<string, string>> => {
+    const signed = new Map<string, string>();
+    const byPath = new Map<string, string[]>();
+    values.forEach(value => {
+        const path = getScanImagePath(value);
+        if (!value || !path) return;
+        byPath.set(path, [...(byPath.get(path) || []), value]);
+    });
+    if (byPath.size === 0) return signed;
+
+    const { data, error } = await supabase.storage
+        .from(SCAN_IMAGES_BUCKET)
+        .createSignedUrls([...byPath.keys()], SIGNED_URL_TTL_SECONDS);
+    if (error) throw error;
+    (data || []).forEach(entry => {
+        if (!entry.path || !entry.signedUrl) return;
+        (byPath.get(entry.path) || []).forEach(value => signed.set(value, entry.signedUrl));
+    });
+    return signed;
+};
+
+// Remove stored photos; URLs that don't point into the bucket are ignored
+export const deleteScanImages = async (urls: (string | null | undefined)[]): Promise<void> => {
+    const paths = [...new Set(urls.map(getScanImagePath).filter((p): p is string => !!p))];
+    if (paths.length === 0) return;
+
+    const { error } = await supabase.storage.from(SCAN_IMAGES_BUCKET).remove(paths);
+    if (error) throw error;
+};
@@ -0,0 +1,107 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { Dish, DishTranslation, Language } from '../types';
+import { GEMINI_MODEL } from './recognition';
+
+// Dishes per model call; keeps prompts and responses small for long menus
+const BATCH_SIZE = 25;
+
+// True if the dish can be shown in `language` without calling the model
+export const hasTranslation = (dish: Dish, language: Language): boolean =>
+    dish.language === language || !!dish.translations?.[language];
+
+// Languages every one of `dishes` can already be shown in
+export const getAvailableLanguages = (dishes: Dish[], languages: Language[]): Language[] =>
+    dishes.length === 0 ? [] : languages.filter(language => dishes.every(dish => hasTranslation(dish, language)));
+
+// The dish with its text swapped for the stored translation; `null` or a missing translation keeps the scanned text
+export const localizeDish = (dish: Dish, language: Language | null): Dish => {
+    const translation = language && dish.language !== language ? dish.translations?.[language] : undefined;
+    if (!translation) return dish;
+    const { ingredients: ingredientNames, ...text } = translation;
+    // Names line up with the ingredients by position, so a list of another length can't be matched
+    const ingredients = ingredientNames && dish.ingredients && ingredientNames.length === dish.ingredients.length
+        ? dish.ingredients.map((ingredient, i) => ({ ...ingredient, name: ingredientNames[i] || ingredient.name }))
+        : dish.ingredients;
+    return { ...dish, ...text, ingredients };
+};
+
+export const withTranslation = <T extends Dish>(dish: T, language: Language, translation: DishTranslation): T => ({
+    ...dish,
+    translations: { ...dish.translations, [language]: translation }
+});
+
+const responseSchema = {
+    type: Type.OBJECT,
+    properties: {
+        translations: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    id: { type: Type.STRING },
+                    name: { type: Type.STRING },
+                    description: { type: Type.STRING },
+                    tags: { type: Type.ARRAY, items: { type: Type.STRING } },
+                    section: { type: Type.STRING, nullable: true },
+                    ingredients: { type: Type.ARRAY, items: { type: Type.STRING }, nullable: true }
+                },
+                required: ["id", "name", "description", "tags"]
+            }
+        }
+    },
+    required: ["translations"]
+};
+
+/**
+ * Translate the text of already-scanned dishes (name, description, tags, section, ingredients) into `language`.
+ * Text only: the photo is not sent again. Allergens are codes and need no translation.
+ * Returns translations keyed by dish id; dishes the model skipped are missing from the result.
+ */
+export const translateDishes = async (
+    dishes: Dish[],
+    language: Language,
+    apiKey: string | undefined = process.env.API_KEY
+): Promise<Record<string, DishTranslation>> => {
+    const ai = new GoogleGenAI({ apiKey });
+    const result: Record<string, DishTranslation> = {};
+
+    for (let start = 0; start < dishes.length; start += BATCH_SIZE) {
+        const batch = dishes.slice(start, start + BATCH_SIZE).map(d => ({
+            id: d.id,
+            originalName: d.originalName,
+            name: d.name,
+            description: d.description,
+            tags: d.tags,
+            ...(d.section ? { section: d.section } : {}),
+            ...(d.ingredients?.length ? { ingredients: d.ingredients.map(i => i.name) } : {})
+        }));
+
+        const response = await ai.models.generateContent({
+            model: GEMINI_MODEL,
+            contents: {
+                parts: [
+                    { text: `Translate these dishes into ${language}. Translate "name", "description", "tags" and, where present, the menu "section" heading and the "ingredients" names (same order); use "originalName" for context but do not return it. Keep each "id" unchanged. Keep dish names natural for a diner reading a menu.\n\n${JSON.stringify(batch)}` }
+                ]
+            },
+            config: {
+                responseMimeType: "application/json",
+                responseSchema,
+                systemInstruction: "You are an expert culinary translator."
+            }
+        });
+
+        const parsed = JSON.parse(response.text || '{}');
+        (parsed.translations || []).forEach((t: any) => {
+            if (!t?.id || typeof t.name !== 'string') return;
+            result[t.id] = {
+                name: t.name,
+                description: typeof t.description === 'string' ? t.description : '',
+                tags: Array.isArray(t.tags) ? t.tags.filter((tag: unknown) => typeof tag === 'string') : [],
+                ...(typeof t.section === 'string' && t.section ? { section: t.section } : {}),
+                ...(Array.isArray(t.ingredients) ? { ingredients: t.ingredients.map((name: unknown) => typeof name === 'string' ? name : '') } : {})
+            };
+        });
+    }
+
+    return result;
+};
@@ -9,8 +9,11 @@ create table profiles (
   website text,
   default_language text,
   chef_card_language text default 'English',
-  allergens text[] default '{}',
+  allergens text[] default '{}', -- allergen codes (see COMMON_ALLERGENS) plus free-text custom entries
   dietary_notes text default '',
+  home_currency text default 'USD', -- ISO 4217 code menu prices are converted into
+  exchange_rates jsonb default '{}'::jsonb, -- { "<ISO code>": <home currency units per 1 unit> }, edited by the user
+  hide_nutrition boolean default false,
 
   constraint username_length check (char_length(username) >= 3)
 );
@@ -27,21 +30,73 @@ create policy "Users can insert their own profile." on profiles
 create policy "Users can update own profile." on profiles
   for update using (auth.uid() = id);
 
+-- Create a table for scan sessions (one per photo analysed)
+create table scan_sessions (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references auth.users on delete cascade not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  image_urls text[] default '{}', -- object paths of the source photos in the scan-images bucket, one per page
+  scan_type text not null default 'dish', -- what the user asked for ('dish' | 'menu' | 'receipt' | 'label')
+  is_menu boolean default false, -- what the model detected
+  language text, -- target language of the translation
+  status text not null default 'complete', -- 'complete' | 'pending' (saved to scan later) | 'failed' (abandoned)
+  error_kinds text[] default '{}' -- kind of every failed attempt, for failure rates
+);
+
+-- Set up RLS for scan sessions
+alter table scan_sessions enable row level security;
+
+create policy "Users can view their own scan sessions." on scan_sessions
+  for select using (auth.uid() = user_id);
+
+create policy "Users can insert their own scan sessions." on scan_sessions
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users can update their own scan sessions." on scan_sessions
+  for update using (auth.uid() = user_id);
+
+create policy "Users can delete their own scan sessions." on scan_sessions
+  for delete using (auth.uid() = user_id);
+
 -- Create a table for scans (history/saved)
 create table scans (
   id uuid default gen_random_uuid() primary key,
   user_id uuid references auth.users on delete cascade not null,
+  session_id uuid references scan_sessions on delete cascade, -- null for scans made before sessions existed
   created_at timestamp with time zone default timezone('utc'::text, now()) not null,
   name text not null,
   original_name text,
+  pronunciation text, -- Romanization of original_name (pinyin, romaji...)
+  original_language text, -- BCP 47 tag of original_name, picks the speech voice
   description text,
-  image_url text,
+  image_url text, -- object path in the scan-images bucket (dish scans) or the resolved picture's URL (menu scans)
+  image_source text, -- scan | history | search | placeholder, see lib/dishImages
+  rejected_images text[] default '{}', -- pictures the user marked as wrong for this dish
   tags text[],
-  allergens text[],
+  allergens text[], -- canonical allergen codes, e.g. {peanuts,crustaceans}. Rows from before codes are rewritten by the upgrade below
   spice_level text,
   category text,
-  bounding_box jsonb, -- Stores [ymin, xmin, ymax, xmax]
+  bounding_box jsonb, -- Stores [ymin, xmin, ymax, xmax], relative to its page
+  price numeric, -- menu price as printed
+  currency text, -- ISO 4217 code of price
+  section text, -- menu section heading, translated
+  section_original text, -- menu section heading as printed
+  section_index integer, -- order of the section on its page
+  position integer, -- order of the dish within its section
+  confidence jsonb, -- { identity, spiceLevel, allergens: { "<code>": score } }, 0-1 scores from the model
+  -- nutrition estimate per typical portion, as ranges
+  calories_min numeric, calories_max numeric, -- kcal
+  protein_min numeric, protein_max numeric, -- g
+  carbs_min numeric, carbs_max numeric, -- g
+  fat_min numeric, fat_max numeric, -- g
+  sodium_min numeric, sodium_max numeric, -- mg
+  ingredients jsonb, -- [{ name, presence: visible|typical|possible, allergens: [<code>] }]
+  conversation jsonb default '[]'::jsonb, -- follow-up Q&A: [{ role: user|model, text, created_at }]
+  label jsonb, -- packaged products ('label' scans): { ingredientsText, ingredients: [{ name, originalName, allergens, uncertain }], mayContainText, mayContain, ... }
+  page integer default 0, -- index into scan_sessions.image_urls
   is_menu boolean default false,
+  language text, -- language name/description/tags were scanned in
+  translations jsonb default '{}'::jsonb, -- { "<Language>": { name, description, tags } }
   is_saved boolean default false,
   saved_at timestamp with time zone
 );
@@ -61,6 +116,81 @@ create policy "Users can update their own scans." on scans
 create policy "Users can delete their own scans." on scans
   for delete using (auth.uid() = user_id);
 
+-- Orders built from a menu scan and shown to the waiter
+create table orders (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references auth.users on delete cascade not null,
+  session_id uuid references scan_sessions on delete cascade, -- the menu scan the order was built from
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  language text, -- language the order card was shown in
+  items jsonb default '[]'::jsonb -- [{ dishId, name, originalName, quantity, requests, note, noteTranslated, price, currency }]
+);
+
+-- Set up RLS for orders
+alter table orders enable row level security;
+
+create policy "Users can view their own orders." on orders
+  for select using (auth.uid() = user_id);
+
+create policy "Users can insert their own orders." on orders
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users can update their own orders." on orders
+  for update using (auth.uid() = user_id);
+
+create policy "Users can delete their own orders." on orders
+  for delete using (auth.uid() = user_id);
+
+-- Receipts read from a 'receipt' scan session, linked to the menu or dish scan of the same meal
+create table receipts (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references auth.users on delete cascade not null,
+  session_id uuid references scan_sessions on delete cascade, -- the scan of the receipt photo
+  meal_session_id uuid references scan_sessions on delete set null, -- menu or dish scan from the same meal
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  merchant text,
+  currency text, -- ISO 4217 code of every amount
+  items jsonb default '[]'::jsonb, -- [{ id, name, originalName, quantity, unitPrice, amount, dinerIds }]
+  subtotal numeric,
+  tax numeric,
+  tax_included boolean default false, -- tax is part of the item prices
+  service_charge numeric,
+  discount numeric,
+  total numeric, -- amount due as printed
+  diners jsonb default '[]'::jsonb, -- [{ id, name }]
+  language text -- language item names were translated to
+);
+
+-- Set up RLS for receipts
+alter table receipts enable row level security;
+
+create policy "Users can view their own receipts." on receipts
+  for select using (auth.uid() = user_id);
+
+create policy "Users can insert their own receipts." on receipts
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users can update their own receipts." on receipts
+  for update using (auth.uid() = user_id);
+
+create policy "Users can delete their own receipts." on receipts
+  for delete using (auth.uid() = user_id);
+
+-- Private storage bucket for scan photos. Objects live under `<user_id>/...` and every access is
+-- limited to the owner's folder; rows store object paths and the app shows them through signed URLs.
+insert into storage.buckets (id, name, public)
+values ('scan-images', 'scan-images', false)
+on conflict (id) do nothing;
+
+create policy "Users can upload their own scan images." on storage.objects
+  for insert with check (bucket_id = 'scan-images' and auth.uid()::text = (storage.foldername(name))[1]);
+
+create policy "Users can view their own scan images." on storage.objects
+  for select using (bucket_id = 'scan-images' and auth.uid()::text = (storage.foldername(name))[1]);
+
+create policy "Users can delete their own scan images." on storage.objects
+  for delete using (bucket_id = 'scan-images' and auth.uid()::text = (storage.foldername(name))[1]);
+
 -- Create a trigger to automatically create a profile entry when a new user signs up
 create function public.handle_new_user()
 returns trigger as $$
@@ -74,3 +204,81 @@ $$ language plpgsql security definer;
 create trigger on_auth_user_created
   after insert on auth.users
   for each row execute procedure public.handle_new_user();
+
+-- Upgrading an existing database: add the columns introduced after the first release
+-- (create the scan_sessions, orders and receipts tables above first).
+alter table scans add column if not exists session_id uuid references scan_sessions on delete cascade;
+alter table scans add column if not exists page integer default 0;
+alter table scan_sessions add column if not exists status text not null default 'complete';
+alter table scan_sessions add column if not exists error_kinds text[] default '{}';
+alter table scans add column if not exists language text;
+alter table scans add column if not exists translations jsonb default '{}'::jsonb;
+alter table scans add column if not exists price numeric;
+alter table scans add column if not exists currency text;
+alter table profiles add column if not exists home_currency text default 'USD';
+alter table profiles add column if not exists exchange_rates jsonb default '{}'::jsonb;
+alter table scans add column if not exists section text;
+alter table scans add column if not exists section_original text;
+alter table scans add column if not exists section_index integer;
+alter table scans add column if not exists position integer;
+alter table scans add column if not exists confidence jsonb;
+alter table scans add column if not exists calories_min numeric;
+alter table scans add column if not exists calories_max numeric;
+alter table scans add column if not exists protein_min numeric;
+alter table scans add column if not exists protein_max numeric;
+alter table scans add column if not exists carbs_min numeric;
+alter table scans add column if not exists carbs_max numeric;
+alter table scans add column if not exists fat_min numeric;
+alter table scans add column if not exists fat_max numeric;
+alter table scans add column if not exists sodium_min numeric;
+alter table scans add column if not exists sodium_max numeric;
+alter table profiles add column if not exists hide_nutrition boolean default false;
+alter table scans add column if not exists ingredients jsonb;
+alter table scans add column if not exists conversation jsonb default '[]'::jsonb;
+alter table scans add column if not exists image_source text;
+alter table scans add column if not exists rejected_images text[] default '{}';
+alter table scans add column if not exists pronunciation text;
+alter table scans add column if not exists original_language text;
+alter table scans add column if not exists label jsonb;
+
+-- One-time rewrite of scans.allergens saved before allergen codes, when they held the model's
+-- localized labels ('Peanuts', '花生', 'Shellfish'). Known labels become codes (an umbrella
+-- label such as 'shellfish' becomes several); anything unrecognized is kept as it was.
+with legacy_allergen_labels(code, label) as (
+  select code, label from (values
+    ('peanuts', array['peanuts', '花生', 'ピーナッツ', '땅콩', 'cacahuetes', 'arachides', 'ถั่วลิสง', 'đậu phộng', 'erdnüsse', 'arachidi', 'peanut', 'groundnut', 'arachide', 'cacahuete', 'mani', 'erdnuss', 'nocciolina', '落花生', 'ピーナツ', 'lạc']),
+    ('tree_nuts', array['tree nuts', '坚果', '堅果', 'ナッツ類', '견과류', 'frutos secos', 'fruits à coque', 'ถั่วเปลือกแข็ง', 'các loại hạt', 'schalenfrüchte', 'frutta a guscio', 'nuts', 'nut', 'almond', 'cashew', 'walnut', 'hazelnut', 'pecan', 'pistachio', 'macadamia', 'pine nut', 'noix', 'noisette', 'amande', 'nueces', 'almendra', 'nüsse', 'mandel', 'noci', 'mandorla', '杏仁', '腰果', '核桃', '榛子', 'アーモンド', 'くるみ', '호두', '아몬드', 'hạt điều']),
+    ('milk', array['milk', 'dairy', '乳制品', '乳製品', '유제품', 'lácteos', 'produits laitiers', 'นม/ผลิตภัณฑ์นม', 'นม', 'ผลิตภัณฑ์นม', 'sản phẩm từ sữa', 'milchprodukte', 'latticini', 'lactose', 'cheese', 'butter', 'cream', 'yogurt', 'ghee', 'lait', 'fromage', 'beurre', 'crème', 'leche', 'queso', 'milch', 'käse', 'sahne', 'latte', 'formaggio', '牛奶', '奶', '乳', '奶酪', '牛乳', 'チーズ', '우유', '치즈', 'sữa']),
+    ('eggs', array['eggs', '蛋类', '蛋類', '卵', '달걀', 'huevos', 'œufs', 'ไข่', 'trứng', 'eier', 'uova', 'egg', 'huevo', 'œuf', 'oeuf', 'ei', 'uovo', '鸡蛋', '雞蛋', '蛋', 'たまご', '玉子', '계란']),
+    ('crustaceans', array['crustaceans', '甲壳类', '甲殼類', '甲殻類', '갑각류', 'crustáceos', 'crustacés', 'กุ้ง/ปู (สัตว์มีเปลือก)', 'กุ้ง', 'ปู (สัตว์มีเปลือก)', 'giáp xác', 'krebstiere', 'crostacei', 'crustacean', 'shrimp', 'prawn', 'crab', 'lobster', 'crevette', 'gamba', 'camaron', 'garnele', 'gamberi', '虾', '蝦', '蟹', 'えび', 'エビ', 'かに', 'カニ', '새우', '꽃게', 'tôm', 'cua', 'ปู', 'shellfish', 'seafood', 'marisco', 'fruits de mer', 'meeresfrüchte', 'frutti di mare', '海鲜', '海鮮', '魚介類', '해산물', 'hải sản', 'động vật có vỏ', 'สัตว์มีเปลือก', 'อาหารทะเล']),
+    ('molluscs', array['molluscs', '软体动物/贝类', '软体动物', '贝类', '軟體動物/貝類', '軟體動物', '貝類', '軟体動物・貝類', '軟体動物', '연체동물/조개류', '연체동물', '조개류', 'moluscos', 'mollusques', 'หอย/ปลาหมึก', 'หอย', 'ปลาหมึก', 'động vật thân mềm', 'weichtiere', 'molluschi', 'mollusc', 'mollusk', 'clam', 'oyster', 'mussel', 'scallop', 'squid', 'octopus', 'coquillage', 'muschel', '蚝', '牡蠣', '조개', '굴', 'hàu', 'mực', 'shellfish', 'seafood', 'marisco', 'fruits de mer', 'meeresfrüchte', 'frutti di mare', '海鲜', '海鮮', '魚介類', '해산물', 'hải sản', 'động vật có vỏ', 'สัตว์มีเปลือก', 'อาหารทะเล']),
+    ('fish', array['fish', '鱼类', '魚類', '魚', '생선', 'pescado', 'poisson', 'ปลา', 'cá', 'fisch', 'pesce', 'fish sauce', 'anchovy', 'salmon', 'tuna', 'cod', '鱼', '鱼露', '멸치', 'nước mắm', 'น้ำปลา', '魚介類']),
+    ('soy', array['soy', '大豆', '콩/대두', '콩', '대두', 'soja', 'ถั่วเหลือง', 'đậu nành', 'soia', 'soya', 'soybean', 'soy sauce', 'tofu', 'edamame', '豆腐', '酱油', '醬油', '醤油', '두부', 'đậu phụ', 'เต้าหู้']),
+    ('gluten', array['gluten', 'wheat/gluten', 'wheat', '小麦/麸质', '小麦', '麸质', '小麥/麩質', '小麥', '麩質', '小麦・グルテン', 'グルテン', '밀/글루텐', '밀', '글루텐', 'trigo/gluten', 'trigo', 'blé/gluten', 'blé', 'ข้าวสาลี/กลูเตน', 'ข้าวสาลี', 'กลูเตน', 'lúa mì/gluten', 'lúa mì', 'weizen/gluten', 'weizen', 'grano/glutine', 'grano', 'glutine', 'flour', 'barley', 'rye', 'frumento', '面粉']),
+    ('sesame', array['sesame', '芝麻', 'ゴマ', '참깨', 'sésamo', 'sésame', 'งา', 'mè', 'sesam', 'sesamo', 'tahini', '胡麻', 'ごま', 'vừng']),
+    ('celery', array['celery', '芹菜', 'セロリ', '셀러리', 'apio', 'céleri', 'ขึ้นฉ่าย', 'cần tây', 'sellerie', 'sedano', 'celeriac', '西芹']),
+    ('mustard', array['mustard', '芥末', 'マスタード', '겨자', 'mostaza', 'moutarde', 'มัสตาร์ด', 'mù tạt', 'senf', 'senape', 'からし']),
+    ('sulphites', array['sulphites', '亚硫酸盐', '亞硫酸鹽', '亜硫酸塩', '아황산염', 'sulfitos', 'sulfites', 'ซัลไฟต์', 'sulfit', 'sulfite', 'solfiti', 'sulphite', 'sulfur dioxide', 'sulphur dioxide']),
+    ('lupin', array['lupin', '羽扇豆', 'ルピナス', '루핀', 'altramuces', 'ลูปิน', 'đậu lupin', 'lupinen', 'lupini', 'lupine', 'lupino', 'altramuz'])
+  ) as known(code, labels), unnest(labels) as label
+)
+update scans set allergens = array(
+  select distinct coalesce(l.code, trim(a))
+  from unnest(scans.allergens) as a
+  left join legacy_allergen_labels l on l.label = lower(trim(a))
+)
+where not allergens <@ array['gluten', 'crustaceans', 'molluscs', 'eggs', 'fish', 'peanuts', 'soy', 'milk', 'tree_nuts', 'celery', 'mustard', 'sesame', 'sulphites', 'lupin'];
+
+-- Scan photos used to be public and rows held their public URLs: close the bucket and keep only
+-- the object paths, which the app signs when it shows them.
+update storage.buckets set public = false where id = 'scan-images';
+
+update scans set image_url = substring(image_url from '/storage/v1/object/public/scan-images/(.*)$')
+where image_url like '%/storage/v1/object/public/scan-images/%';
+
+update scan_sessions set image_urls = array(
+  select coalesce(substring(u from '/storage/v1/object/public/scan-images/(.*)$'), u)
+  from unnest(scan_sessions.image_urls) with ordinality as pages(u, page)
+  order by page
+)
+where array_to_string(image_urls, ' ') like '%/storage/v1/object/public/scan-images/%';
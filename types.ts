@@ -1,9 +1,22 @@
 
-export type Screen = 'home' | 'scanning' | 'results' | 'history' | 'profile';
+export type Screen = 'home' | 'scanning' | 'scanError' | 'results' | 'receipt' | 'history' | 'profile';
+
+export type HistoryTab = 'scans' | 'sessions' | 'saved';
 
 export type Language = 'English' | 'Chinese (Simplified)' | 'Chinese (Traditional)' | 'Japanese' | 'Korean' | 'Spanish' | 'French' | 'Thai' | 'Vietnamese' | 'German' | 'Italian';
 
-export type ScanType = 'dish' | 'menu';
+export type ScanType = 'dish' | 'menu' | 'receipt' | 'label';
+
+// Why a scan failed; each kind has its own recovery screen
+export type ScanErrorKind = 'network' | 'api_key' | 'quota' | 'safety' | 'invalid_json' | 'no_dishes' | 'unknown';
+
+// 'pending' sessions hold photos saved to scan later; 'failed' ones were abandoned after errors
+export type ScanSessionStatus = 'complete' | 'pending' | 'failed';
+
+// The 14 EU allergens (see COMMON_ALLERGENS for display order)
+export type AllergenCode =
+  | 'gluten' | 'crustaceans' | 'molluscs' | 'eggs' | 'fish' | 'peanuts' | 'soy'
+  | 'milk' | 'tree_nuts' | 'celery' | 'mustard' | 'sesame' | 'sulphites' | 'lupin';
 
 export interface UserProfile {
   id: string;
@@ -12,23 +25,190 @@ export interface UserProfile {
   avatar_url: string;
   default_language: Language;
   chef_card_language?: Language;
-  allergens: string[];
+  allergens: string[]; // AllergenCode values plus free-text custom entries
   dietary_notes: string;
+  home_currency?: string; // ISO 4217 code prices are converted into
+  exchange_rates?: ExchangeRates;
+  hide_nutrition?: boolean; // Hides nutrition estimates in Results and History
 }
 
+// Units of the home currency per 1 unit of each foreign currency, e.g. { JPY: 0.0067 } for a USD home
+export type ExchangeRates = Record<string, number>;
+
 export interface Dish {
   id: string;
   user_id?: string; // Optional for local state before sync
   name: string;
   originalName: string;
+  pronunciation?: string; // Romanization of originalName (pinyin, romaji, RTGS Thai...) for saying it to the staff
+  originalLanguage?: string; // BCP 47 tag of originalName (e.g. "zh-CN", "ja-JP"), used to pick a speech voice
   description: string; // Ingredients, taste profile
   image?: string; // Optional, might use the main uploaded image if specific crop isn't available
+  imageSource?: DishImageSource; // Where `image` came from, see lib/dishImages
+  rejectedImages?: string[]; // Pictures the user marked as wrong; resolvers skip them
   tags: string[]; // Flavor tags (e.g. "Sweet", "Salty")
-  allergens: string[]; // List of allergens (e.g. "Peanuts", "Shellfish")
+  allergens: AllergenCode[]; // Canonical allergen codes (e.g. "peanuts", "crustaceans")
   spiceLevel: 'None' | 'Mild' | 'Medium' | 'Hot';
   category: string;
-  boundingBox?: number[]; // [ymin, xmin, ymax, xmax] 0-1000 scale
+  boundingBox?: number[]; // [ymin, xmin, ymax, xmax] 0-1000 scale, relative to its page
+  price?: number; // Menu price as printed, in `currency`
+  currency?: string; // ISO 4217 code
+  section?: string; // Menu section heading the dish is printed under, translated (e.g. "Noodles")
+  sectionOriginal?: string; // The heading as printed
+  sectionIndex?: number; // Order of the section on its page
+  position?: number; // Order of the dish within its section
+  confidence?: DishConfidence; // Model's confidence per field; missing for scans made before it was asked for
+  nutrition?: Nutrition; // Estimate per typical portion
+  ingredients?: Ingredient[];
+  conversation?: DishMessage[]; // Follow-up questions about the dish and their answers, oldest first
+  label?: ProductLabel; // Ingredient label of a packaged product ('label' scans); the Dish is the product
+  page?: number; // Index of the source photo within its session (multi-page menus), defaults to 0
   isMenu?: boolean; // New flag to indicate if this came from a menu scan
+  sessionId?: string; // Scan session this dish was found in
+  language?: Language; // Language name/description/tags were written in when scanned
+  translations?: Partial<Record<Language, DishTranslation>>; // Text-only re-translations, see lib/translation.ts
+  created_at?: string;
+}
+
+// 0-1 scores from the model; see lib/confidence.ts for what counts as low
+export interface DishConfidence {
+  identity?: number; // That the dish is what `name` says
+  spiceLevel?: number;
+  allergens?: Partial<Record<AllergenCode, number>>; // Per allergen in `allergens`
+}
+
+// scan = the photo the dish was scanned from, history = the user's earlier photo of the same dish,
+// search = web image search, placeholder = generated locally from the name and category
+export type DishImageSource = 'scan' | 'history' | 'search' | 'placeholder';
+
+export interface DishMessage {
+  role: 'user' | 'model';
+  text: string;
+  created_at: string;
+}
+
+// visible = seen in the photo, typical = part of the usual recipe, possible = some versions use it
+export type IngredientPresence = 'visible' | 'typical' | 'possible';
+
+export interface Ingredient {
+  name: string;
+  presence: IngredientPresence;
+  allergens: AllergenCode[]; // Allergens of the dish this ingredient is a source of
+}
+
+// One ingredient (or "may contain" trace) read off a package
+export interface LabelIngredient {
+  name: string; // Translated
+  originalName: string; // As printed, used to highlight it in the label text
+  allergens: AllergenCode[];
+  uncertain?: boolean; // Vague wording ("flavouring", "vegetable oil") that may or may not contain the allergens
+}
+
+export interface ProductLabel {
+  ingredientsText: string; // The ingredient list exactly as printed
+  ingredientsTranslated?: string;
+  ingredients: LabelIngredient[];
+  mayContainText?: string; // Precautionary statement ("May contain traces of nuts") as printed
+  mayContainTranslated?: string;
+  mayContain: LabelIngredient[]; // Each trace the statement names
+}
+
+// How a label reads against the profile's allergens: unsafe = listed as an ingredient,
+// uncertain = only a possible trace or vague ingredient, safe = none of them
+export type LabelVerdict = 'safe' | 'unsafe' | 'uncertain';
+
+export type Nutrient = 'calories' | 'protein' | 'carbs' | 'fat' | 'sodium';
+
+// Estimated range; units are kcal for calories, mg for sodium and g for the rest (see lib/nutrition.ts)
+export interface NutritionRange {
+  min: number;
+  max: number;
+}
+
+export type Nutrition = Partial<Record<Nutrient, NutritionRange>>;
+
+// A dish's text in another language; allergens are codes and are labelled per language at render time
+export interface DishTranslation {
+  name: string;
+  description: string;
+  tags: string[];
+  section?: string; // Menu section heading, for dishes that have one
+  ingredients?: string[]; // Ingredient names, in the order of Dish.ingredients
+}
+
+// One run of the scanner: the source photo and every dish found in it
+export interface ScanSession {
+  id: string;
+  user_id?: string;
+  images: string[]; // Persistent URLs of the source photos, one per page
+  scanType: ScanType; // What the user asked for
+  isMenu: boolean; // What the model detected
+  language: Language;
+  status: ScanSessionStatus;
+  errorKinds: ScanErrorKind[]; // Every failed attempt before the session was completed, saved or abandoned
+  created_at?: string;
+  dishes: Dish[];
+  orders: Order[]; // Orders placed from this scan, newest first
+  receipts: Receipt[]; // Receipts read in this scan ('receipt' sessions) or paid for this meal (menu and dish sessions)
+}
+
+export interface ReceiptItem {
+  id: string;
+  name: string; // Translated
+  originalName: string; // As printed
+  quantity: number;
+  unitPrice?: number;
+  amount: number; // Line total as printed
+  dinerIds: string[]; // Diners sharing the item equally; empty while unassigned
+}
+
+export interface Diner {
+  id: string;
+  name: string;
+}
+
+// A scanned bill. Amounts are in `currency`; see lib/receipts.ts for the total check and the split.
+export interface Receipt {
+  id: string;
+  user_id?: string;
+  sessionId?: string; // The scan session of the receipt photo
+  mealSessionId?: string; // Menu or dish scan from the same meal, if there was one
+  merchant?: string;
+  currency?: string; // ISO 4217 code
+  items: ReceiptItem[];
+  subtotal?: number;
+  tax?: number;
+  taxIncluded?: boolean; // Tax is already part of the item prices (VAT-style receipts)
+  serviceCharge?: number;
+  discount?: number; // Positive amount taken off
+  total?: number; // As printed
+  diners: Diner[];
+  language: Language; // Language the item names were translated to
+  created_at?: string;
+}
+
+// Per-item requests with a fixed wording in every language (see ORDER_CARD_DATA)
+export type OrderRequest = 'not_spicy' | 'less_spicy' | 'extra_spicy' | 'sauce_on_side' | 'no_cilantro' | 'no_msg';
+
+export interface OrderItem {
+  dishId: string;
+  name: string;
+  originalName: string; // What the waiter reads
+  quantity: number;
+  requests: OrderRequest[];
+  note?: string; // Free-text request as the user typed it
+  noteTranslated?: string; // `note` in the card language
+  price?: number;
+  currency?: string;
+}
+
+// Dishes picked from a menu scan, shown to the waiter as an order card
+export interface Order {
+  id: string;
+  user_id?: string;
+  sessionId?: string;
+  language: Language; // Language the card was shown in (the restaurant's)
+  items: OrderItem[];
   created_at?: string;
 }
 